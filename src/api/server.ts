@@ -1,6 +1,6 @@
-import { App } from "../app";
-import { VercelRequest, VercelResponse } from '@vercel/node';
-import dotenv from "dotenv";
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import dotenv from 'dotenv';
+import { App } from '../app';
 
 dotenv.config();
 
@@ -10,4 +10,4 @@ const appInstance = new App();
 // Export a handler function that Vercel can call
 export default function handler(req: VercelRequest, res: VercelResponse) {
   return appInstance.app(req, res);
-}
\ No newline at end of file
+}
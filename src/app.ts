@@ -1,22 +1,84 @@
-import express from 'express';
 import cors from 'cors';
-import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import ActivationService from './services/activationService';
+import express from 'express';
+import rateLimit, { type Store } from 'express-rate-limit';
+import helmet from 'helmet';
+import pinoHttp from 'pino-http';
+import swaggerUi from 'swagger-ui-express';
+import { auditAdminActions } from './middleware/audit';
+import { requireAdmin } from './middleware/auth';
+import { deprecatedAlias } from './middleware/deprecation';
+import { requestContext } from './middleware/requestContext';
 import createApiRoutes from './routes';
+import createAdminRouter from './routes/admin';
+import { createOpenApiDocument } from './schemas/openapi';
+import ActivationService from './services/activationService';
+import type { AuditLog } from './services/audit/auditLog';
+import FileAuditLog from './services/audit/fileAuditLog';
+import MemoryAuditLog from './services/audit/memoryAuditLog';
+import RedisAuditLog from './services/audit/redisAuditLog';
+import type { CacheStore } from './services/cache/cacheStore';
+import MemoryCacheStore from './services/cache/memoryCacheStore';
+import RedisCacheStore from './services/cache/redisCacheStore';
+import FileTranslationService from './services/fileTranslationService';
+import GlossaryService from './services/glossaryService';
+import JobService from './services/jobService';
+import FileJobQueue from './services/jobs/fileJobQueue';
+import type { JobQueue } from './services/jobs/jobQueue';
+import MemoryJobQueue from './services/jobs/memoryJobQueue';
+import FileUsageLedger from './services/ledger/fileUsageLedger';
+import MemoryUsageLedger from './services/ledger/memoryUsageLedger';
+import RedisUsageLedger from './services/ledger/redisUsageLedger';
+import type { UsageLedger } from './services/ledger/usageLedger';
+import GoogleTranslateProvider from './services/providers/googleProvider';
+import LibreTranslateProvider from './services/providers/libreTranslateProvider';
+import type { TranslationProvider } from './services/providers/translationProvider';
+import MemoryRateLimitStore from './services/rateLimit/memoryRateLimitStore';
+import RedisRateLimitStore from './services/rateLimit/redisRateLimitStore';
+import FileRevocationStore from './services/revocation/fileRevocationStore';
+import RedisRevocationStore from './services/revocation/redisRevocationStore';
+import type { RevocationStore } from './services/revocation/revocationStore';
+import Scheduler from './services/scheduler';
+import FileSessionStore from './services/sessions/fileSessionStore';
+import MemorySessionStore from './services/sessions/memorySessionStore';
+import RedisSessionStore from './services/sessions/redisSessionStore';
+import type { SessionStore } from './services/sessions/sessionStore';
+import NoopTracer from './services/tracing/noopTracer';
+import type { Tracer } from './services/tracing/tracer';
+import TranslationCache from './services/translationCache';
 import TranslateService from './services/translationService';
+import UsageService from './services/usageService';
+import { toApiError } from './utils/errors';
+import { type ActivationKeyring, parseKeySecrets } from './utils/hmac';
+import { logger } from './utils/logger';
+import { RespClient } from './utils/respClient';
 
 // Load environment variables
 dotenv.config();
 
+export interface AppOptions {
+  /** Receives spans for requests, provider calls and activation checks (default: no-op) */
+  tracer?: Tracer;
+}
+
 class App {
   public app: express.Application;
+  public readonly tracer: Tracer;
   private activationService!: ActivationService;
   private translateService!: TranslateService;
+  private translationCache?: TranslationCache;
+  private glossaryService!: GlossaryService;
+  private jobService!: JobService;
+  private fileTranslationService!: FileTranslationService;
+  private usageService!: UsageService;
+  private usageLedger!: UsageLedger;
+  private auditLog!: AuditLog;
+  private scheduler!: Scheduler;
+  private redisClient?: RespClient;
 
-  constructor() {
+  constructor(options: AppOptions = {}) {
     this.app = express();
+    this.tracer = options.tracer ?? new NoopTracer();
     this.initializeServices();
     this.initializeMiddleware();
     this.initializeRoutes();
@@ -25,110 +87,387 @@ class App {
   }
 
   private initializeServices(): void {
-    const actKeySecret = process.env.ACT_KEY_SECRET;
-    if (!actKeySecret) {
-      throw new Error('ACT_KEY_SECRET environment variable is required');
+    const keyring = this.createKeyring();
+    this.activationService = new ActivationService(keyring, this.createSessionStore(), {
+      tokenSecret: process.env.TOKEN_SECRET || undefined,
+      accessTokenTtlSeconds: parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'),
+      refreshTokenTtlSeconds: parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '2592000'),
+      allowIdentifierHeader: process.env.ALLOW_IDENTIFIER_HEADER === 'true',
+      revocationStore: this.createRevocationStore(),
+      tracer: this.tracer
+    });
+    this.usageLedger = this.createUsageLedger();
+    this.auditLog = this.createAuditLog();
+    this.usageService = new UsageService(this.usageLedger, this.createRateLimitStore(60 * 1000, 'identifier:'));
+    this.glossaryService = new GlossaryService(process.env.GLOSSARY_FILE || undefined);
+
+    if (process.env.CACHE_ENABLED !== 'false') {
+      this.translationCache = new TranslationCache(
+        this.createCacheStore(),
+        parseInt(process.env.CACHE_TTL_MS || '86400000')
+      );
+    }
+
+    this.translateService = new TranslateService(this.createTranslationProviders(), {
+      timeoutMs: parseInt(process.env.PROVIDER_TIMEOUT_MS || '10000'),
+      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5'),
+      resetTimeoutMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000'),
+      cache: this.translationCache,
+      ledger: this.usageService.meteredLedger,
+      tracer: this.tracer
+    });
+
+    this.jobService = new JobService(this.createJobQueue(), this.translateService, {
+      concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+      maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+      backoffMs: parseInt(process.env.JOB_BACKOFF_MS || '1000'),
+      pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000'),
+      chunkChars: parseInt(process.env.DOCUMENT_CHUNK_CHARS || '4500'),
+      webhookSecret: process.env.WEBHOOK_SECRET || undefined,
+      webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+      webhookAllowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+        .split(',')
+        .map((host) => host.trim().toLowerCase())
+        .filter(Boolean),
+      staleAfterMs: parseInt(process.env.JOB_STALE_AFTER_MS || '600000'),
+      retentionMs: parseInt(process.env.JOB_RETENTION_MS || '604800000')
+    });
+    this.jobService.start();
+
+    this.fileTranslationService = new FileTranslationService(this.translateService, {
+      batchSize: parseInt(process.env.FILE_BATCH_SIZE || '50'),
+      concurrency: parseInt(process.env.FILE_CONCURRENCY || '4')
+    });
+
+    this.scheduler = new Scheduler();
+  }
+
+  private createJobQueue(): JobQueue {
+    const queueName = (process.env.JOB_QUEUE || 'memory').toLowerCase();
+
+    switch (queueName) {
+      case 'memory':
+        return new MemoryJobQueue();
+      case 'file':
+        return new FileJobQueue(process.env.JOB_QUEUE_FILE || './data/jobs.json');
+      default:
+        throw new Error(`Unknown JOB_QUEUE "${queueName}". Use "memory" or "file"`);
+    }
+  }
+
+  /**
+   * Activation key secrets: ACT_KEY_SECRETS ("kid:secret,...") verifies v2 keys,
+   * ACT_KEY_SECRET verifies v1 keys until ACT_KEY_V1_UNTIL
+   */
+  private createKeyring(): ActivationKeyring {
+    const secrets = parseKeySecrets(process.env.ACT_KEY_SECRETS);
+    const legacySecret = process.env.ACT_KEY_SECRET || undefined;
+    if (!legacySecret && Object.keys(secrets).length === 0) {
+      throw new Error('ACT_KEY_SECRETS or ACT_KEY_SECRET environment variable is required');
+    }
+
+    const currentKid = process.env.ACT_KEY_CURRENT_KID || Object.keys(secrets)[0];
+    if (currentKid && !secrets[currentKid]) {
+      throw new Error(`ACT_KEY_CURRENT_KID "${currentKid}" is not listed in ACT_KEY_SECRETS`);
+    }
+
+    let legacyUntil: Date | undefined;
+    if (process.env.ACT_KEY_V1_UNTIL) {
+      legacyUntil = new Date(process.env.ACT_KEY_V1_UNTIL);
+      if (Number.isNaN(legacyUntil.getTime())) {
+        throw new Error('ACT_KEY_V1_UNTIL must be an ISO date');
+      }
+    }
+
+    return { secrets, currentKid, legacySecret, legacyUntil };
+  }
+
+  private createSessionStore(): SessionStore {
+    const storeName = (process.env.SESSION_STORE || 'memory').toLowerCase();
+
+    switch (storeName) {
+      case 'memory':
+        return new MemorySessionStore();
+      case 'file':
+        return new FileSessionStore(process.env.SESSION_FILE || './data/sessions.json');
+      case 'redis':
+        return new RedisSessionStore(this.getRedisClient());
+      default:
+        throw new Error(`Unknown SESSION_STORE "${storeName}". Use "memory", "file" or "redis"`);
+    }
+  }
+
+  /**
+   * Hit counters for rate limiting: per instance, or shared through Redis
+   */
+  private createRateLimitStore(windowMs: number, prefix: string): Store {
+    const storeName = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+
+    switch (storeName) {
+      case 'memory':
+        return new MemoryRateLimitStore(windowMs, prefix);
+      case 'redis':
+        return new RedisRateLimitStore(this.getRedisClient(), windowMs, `traducteur:ratelimit:${prefix}`);
+      default:
+        throw new Error(`Unknown RATE_LIMIT_STORE "${storeName}". Use "memory" or "redis"`);
+    }
+  }
+
+  private createRevocationStore(): RevocationStore {
+    const storeName = (process.env.REVOCATION_STORE || 'file').toLowerCase();
+
+    switch (storeName) {
+      case 'file':
+        return new FileRevocationStore(process.env.REVOCATION_FILE || './data/revocations.json');
+      case 'redis':
+        return new RedisRevocationStore(this.getRedisClient());
+      default:
+        throw new Error(`Unknown REVOCATION_STORE "${storeName}". Use "file" or "redis"`);
     }
+  }
+
+  private createUsageLedger(): UsageLedger {
+    const ledgerName = (process.env.USAGE_LEDGER || 'memory').toLowerCase();
 
-    // Google Cloud Translation configuration
-    const googleProjectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
-    const googleKeyFilename = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-    const googleApiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
+    switch (ledgerName) {
+      case 'memory':
+        return new MemoryUsageLedger();
+      case 'file':
+        return new FileUsageLedger(process.env.USAGE_LEDGER_FILE || './data/usage.ndjson');
+      case 'redis':
+        return new RedisUsageLedger(this.getRedisClient());
+      default:
+        throw new Error(`Unknown USAGE_LEDGER "${ledgerName}". Use "memory", "file" or "redis"`);
+    }
+  }
+
+  private createAuditLog(): AuditLog {
+    const logName = (process.env.AUDIT_LOG || 'memory').toLowerCase();
+
+    switch (logName) {
+      case 'memory':
+        return new MemoryAuditLog();
+      case 'file':
+        return new FileAuditLog(process.env.AUDIT_LOG_FILE || './data/audit.ndjson');
+      case 'redis':
+        return new RedisAuditLog(this.getRedisClient());
+      default:
+        throw new Error(`Unknown AUDIT_LOG "${logName}". Use "memory", "file" or "redis"`);
+    }
+  }
 
-    // Validate Google Cloud configuration
-    if (!googleProjectId && !googleApiKey) {
-      throw new Error('Either GOOGLE_CLOUD_PROJECT_ID (with service account) or GOOGLE_TRANSLATE_API_KEY must be provided');
+  /**
+   * Named admin credentials from ADMIN_API_KEYS ("name:key,..."); ADMIN_API_KEY is "admin"
+   */
+  private getAdminCredentials(): Record<string, string> {
+    const credentials = parseKeySecrets(process.env.ADMIN_API_KEYS);
+    if (process.env.ADMIN_API_KEY) {
+      credentials.admin = process.env.ADMIN_API_KEY;
     }
+    return credentials;
+  }
 
-    this.activationService = new ActivationService(actKeySecret);
-    this.translateService = new TranslateService(googleProjectId, googleKeyFilename, googleApiKey);
+  private createCacheStore(): CacheStore {
+    const storeName = (process.env.CACHE_STORE || 'memory').toLowerCase();
+
+    switch (storeName) {
+      case 'memory':
+        return new MemoryCacheStore({
+          maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '10000')
+        });
+      case 'redis':
+        return new RedisCacheStore(this.getRedisClient());
+      default:
+        throw new Error(`Unknown CACHE_STORE "${storeName}". Use "memory" or "redis"`);
+    }
+  }
+
+  /**
+   * Shared connection to the Redis-protocol server, created on first use
+   */
+  private getRedisClient(): RespClient {
+    if (!this.redisClient) {
+      const redisUrl = process.env.REDIS_URL;
+      if (!redisUrl) {
+        throw new Error('REDIS_URL environment variable is required for redis-backed stores');
+      }
+      this.redisClient = new RespClient(redisUrl, {
+        commandTimeoutMs: parseInt(process.env.REDIS_COMMAND_TIMEOUT_MS || '5000')
+      });
+    }
+    return this.redisClient;
+  }
+
+  private createTranslationProviders(): TranslationProvider[] {
+    const hasGoogleConfig = Boolean(process.env.GOOGLE_CLOUD_PROJECT_ID || process.env.GOOGLE_TRANSLATE_API_KEY);
+    const hasLibreTranslateConfig = Boolean(process.env.LIBRETRANSLATE_URL);
+
+    // Ordered failover chain, e.g. TRANSLATION_PROVIDERS=google,libretranslate
+    const configured = process.env.TRANSLATION_PROVIDERS || process.env.TRANSLATION_PROVIDER;
+    const providerNames = configured
+      ? configured
+          .split(',')
+          .map((name) => name.trim().toLowerCase())
+          .filter(Boolean)
+      : [...(hasGoogleConfig ? ['google'] : []), ...(hasLibreTranslateConfig ? ['libretranslate'] : [])];
+
+    if (providerNames.length === 0) {
+      throw new Error(
+        'No translation provider configured: set GOOGLE_CLOUD_PROJECT_ID / GOOGLE_TRANSLATE_API_KEY or LIBRETRANSLATE_URL'
+      );
+    }
+
+    return providerNames.map((name) => this.createTranslationProvider(name));
+  }
+
+  private createTranslationProvider(providerName: string): TranslationProvider {
+    const propagateTrace = process.env.PROVIDER_PROPAGATE_TRACE !== 'false';
+
+    switch (providerName) {
+      case 'google': {
+        // Google Cloud Translation configuration
+        const googleProjectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
+        const googleKeyFilename = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+        const googleApiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
+
+        if (!googleProjectId && !googleApiKey) {
+          throw new Error(
+            'Either GOOGLE_CLOUD_PROJECT_ID (with service account) or GOOGLE_TRANSLATE_API_KEY must be provided'
+          );
+        }
+        return new GoogleTranslateProvider({
+          projectId: googleProjectId,
+          keyFilename: googleKeyFilename,
+          apiKey: googleApiKey,
+          timeoutMs: parseInt(process.env.PROVIDER_TIMEOUT_MS || '10000'),
+          propagateTrace
+        });
+      }
+
+      case 'libretranslate': {
+        // LibreTranslate configuration
+        const libreTranslateUrl = process.env.LIBRETRANSLATE_URL;
+        if (!libreTranslateUrl) {
+          throw new Error('LIBRETRANSLATE_URL must be provided to use the libretranslate provider');
+        }
+        return new LibreTranslateProvider({
+          url: libreTranslateUrl,
+          apiKey: process.env.LIBRETRANSLATE_API_KEY,
+          timeoutMs: parseInt(process.env.LIBRETRANSLATE_TIMEOUT_MS || '15000'),
+          propagateTrace
+        });
+      }
+
+      default:
+        throw new Error(`Unknown translation provider "${providerName}". Use "google" or "libretranslate"`);
+    }
   }
 
   private initializeMiddleware(): void {
-    // Enhanced request logging middleware (FIRST - before any other middleware)
+    // Request context (FIRST - before any other middleware): request id, trace and root span
+    this.app.use(requestContext(this.tracer));
+
+    // Structured request logging. req.log is a child logger carrying the requestId;
+    // credentials and user text are redacted.
+    this.app.use(
+      pinoHttp({
+        logger,
+        customAttributeKeys: { reqId: 'requestId' },
+        customLogLevel: (_req, res, err) =>
+          err || res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info',
+        quietReqLogger: true,
+        serializers: { res: (res) => ({ statusCode: res.statusCode }) }
+      })
+    );
     this.app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
-      const timestamp = new Date().toISOString();
-      const requestId = Math.random().toString(36).substring(2, 15);
-      
-      console.log('\n' + '='.repeat(60));
-      console.log(`📥 [${timestamp}] [ID: ${requestId}]`);
-      console.log(`${req.method} ${req.originalUrl}`);
-      console.log(`🌐 From: ${req.ip || req.connection.remoteAddress}`);
-      console.log(`📋 User-Agent: ${req.get('User-Agent') || 'Unknown'}`);
-      console.log(`📦 Content-Type: ${req.get('Content-Type') || 'None'}`);
-      
-      // Store request ID for response logging
-      (req as any).requestId = requestId;
-      (req as any).startTime = Date.now();
-      
-      // Override res.json to log responses
+      // Response bodies are only logged at debug level
       const originalJson = res.json;
-      res.json = function(body?: any) {
-        const duration = Date.now() - (req as any).startTime;
-        console.log(`\n📤 [${timestamp}] [ID: ${requestId}] RESPONSE`);
-        console.log(`Status: ${res.statusCode} | Duration: ${duration}ms`);
-        console.log('Response Body:', JSON.stringify(body, null, 2));
-        console.log('='.repeat(60));
+      res.json = function (body?: any) {
+        req.log.debug({ body }, 'Response body');
         return originalJson.call(this, body);
       };
-      
+
       next();
     });
 
+    // Client IPs come from X-Forwarded-For only behind a trusted proxy (hop count, true or subnet list)
+    const trustProxy = process.env.TRUST_PROXY;
+    if (trustProxy) {
+      this.app.set(
+        'trust proxy',
+        /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy === 'true' || trustProxy
+      );
+    }
+
     // Security middleware
     this.app.use(helmet());
-    
+
     // CORS
-    this.app.use(cors({
-      origin: process.env.CORS_ORIGIN || '*',
-      credentials: true
-    }));
-
-    // Rate limiting
-    const rateLimitWindowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000');
-    const rateLimitMaxRequests = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100');
-    
-    this.app.use(rateLimit({
-      windowMs: rateLimitWindowMs,
-      max: rateLimitMaxRequests,
-      message: { ok: false, error: 'Too many requests, please try again later' },
-      standardHeaders: true,
-      legacyHeaders: false
-    }));
+    this.app.use(
+      cors({
+        origin: process.env.CORS_ORIGIN || '*',
+        credentials: true,
+        exposedHeaders: ['X-Request-Id']
+      })
+    );
+
+    // Strict limiter against activation key brute-forcing; only failed attempts count.
+    // Authenticated endpoints are limited per identifier by the caller's plan (enforcePlan).
+    this.app.use(
+      ['/api/v1/activate', '/api/activate'],
+      rateLimit({
+        windowMs: parseInt(process.env.ACTIVATE_RATE_LIMIT_WINDOW_MS || '900000'),
+        limit: parseInt(process.env.ACTIVATE_RATE_LIMIT_MAX || '10'),
+        skipSuccessfulRequests: true,
+        store: this.createRateLimitStore(parseInt(process.env.ACTIVATE_RATE_LIMIT_WINDOW_MS || '900000'), 'activate:'),
+        message: (req: express.Request) => ({
+          ok: false,
+          code: 'RATE_LIMITED',
+          error: 'Too many activation attempts, please try again later',
+          requestId: req.context.requestId
+        }),
+        standardHeaders: true,
+        legacyHeaders: false
+      })
+    );
+
+    // Coarse per-IP limiter for routes without a plan limit, or reached before the caller is known
+    const ipRateLimitWindowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000');
+    this.app.use(
+      [
+        '/health',
+        '/openapi.json',
+        '/docs',
+        '/admin',
+        '/api/v1/token/refresh',
+        '/api/token/refresh',
+        '/api/v1/logout',
+        '/api/logout'
+      ],
+      rateLimit({
+        windowMs: ipRateLimitWindowMs,
+        limit: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '300'),
+        store: this.createRateLimitStore(ipRateLimitWindowMs, 'ip:'),
+        message: (req: express.Request) => ({
+          ok: false,
+          code: 'RATE_LIMITED',
+          error: 'Too many requests, please try again later',
+          requestId: req.context.requestId
+        }),
+        standardHeaders: true,
+        legacyHeaders: false
+      })
+    );
 
     // Body parsing
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-    // Body logging middleware (AFTER body parsing)
-    this.app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
-      const requestId = (req as any).requestId;
-      
-      if (Object.keys(req.body).length > 0) {
-        console.log(`📝 [ID: ${requestId}] Request Body:`, JSON.stringify(req.body, null, 2));
-      }
-      
-      if (Object.keys(req.query).length > 0) {
-        console.log(`🔍 [ID: ${requestId}] Query Params:`, JSON.stringify(req.query, null, 2));
+    // Request bodies are only logged at debug level (AFTER body parsing)
+    this.app.use((req: express.Request, _res: express.Response, next: express.NextFunction) => {
+      if (req.body && Object.keys(req.body).length > 0) {
+        req.log.debug({ body: req.body }, 'Request body');
       }
-      
-      if (Object.keys(req.params).length > 0) {
-        console.log(`🎯 [ID: ${requestId}] Route Params:`, JSON.stringify(req.params, null, 2));
-      }
-
-      // Log important headers
-      const importantHeaders = ['authorization', 'content-type', 'accept', 'x-api-key'];
-      const headers: any = {};
-      importantHeaders.forEach(header => {
-        if (req.get(header)) {
-          headers[header] = req.get(header);
-        }
-      });
-      
-      if (Object.keys(headers).length > 0) {
-        console.log(`📋 [ID: ${requestId}] Headers:`, JSON.stringify(headers, null, 2));
-      }
-      
       next();
     });
   }
@@ -136,60 +475,164 @@ class App {
   private initializeRoutes(): void {
     // Health check endpoint
     this.app.get('/health', (req: express.Request, res: express.Response) => {
-      const requestId = (req as any).requestId;
-      console.log(`🏥 [ID: ${requestId}] Health check requested`);
-      res.json({ 
+      req.log.debug('Health check requested');
+      res.json({
         ok: true,
-        status: 'healthy', 
+        status: 'healthy',
         timestamp: new Date().toISOString(),
         service: 'Traducteur Rapide API',
-        version: '1.0.0'
+        version: '1.0.0',
+        providers: this.translateService.getProviderStatus()
       });
     });
 
-    // API routes
-    this.app.use('/api', createApiRoutes(this.activationService, this.translateService));
+    // Generated OpenAPI document and interactive docs
+    const openApiDocument = createOpenApiDocument();
+    this.app.get('/openapi.json', (_req: express.Request, res: express.Response) => {
+      res.json(openApiDocument);
+    });
+    this.app.use('/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument));
+
+    // API routes; the unversioned paths remain as deprecated aliases of /api/v1
+    const apiRoutes = createApiRoutes(
+      this.activationService,
+      this.translateService,
+      this.glossaryService,
+      this.jobService,
+      this.fileTranslationService,
+      this.usageService,
+      {
+        legacyActivationResponse: process.env.LEGACY_ACTIVATION_RESPONSE === 'true'
+      }
+    );
+    this.app.use('/api/v1', apiRoutes);
+    this.app.use('/api', deprecatedAlias('/api/v1', process.env.UNVERSIONED_API_SUNSET), apiRoutes);
+
+    // Operator routes; every request is audited, including rejected ones
+    this.app.use(
+      '/admin',
+      auditAdminActions(this.auditLog),
+      requireAdmin(this.getAdminCredentials()),
+      createAdminRouter({
+        translationCache: this.translationCache,
+        usageService: this.usageService,
+        activationService: this.activationService,
+        auditLog: this.auditLog,
+        scheduler: this.scheduler
+      })
+    );
 
     // 404 handler
     this.app.use((req: express.Request, res: express.Response) => {
-      const requestId = (req as any).requestId;
-      console.log(`❓ [ID: ${requestId}] 404 - Route not found: ${req.method} ${req.originalUrl}`);
+      const requestId = req.context.requestId;
+      req.log.info({ method: req.method, url: req.originalUrl }, 'Route not found');
       res.status(404).json({
         ok: false,
-        error: "Endpoint not found",
+        code: 'NOT_FOUND',
+        error: 'Endpoint not found',
+        requestId,
         requestedUrl: req.originalUrl,
         method: req.method,
-        availableEndpoints: ['/health', '/api/activate', '/api/translate']
+        availableEndpoints: [
+          '/health',
+          '/openapi.json',
+          '/docs',
+          '/api/v1/activate',
+          '/api/v1/token/refresh',
+          '/api/v1/logout',
+          '/api/v1/devices',
+          '/api/v1/usage',
+          '/api/v1/translate',
+          '/api/v1/detect',
+          '/api/v1/languages',
+          '/api/v1/translate/batch',
+          '/api/v1/translate/document',
+          '/api/v1/translate/file',
+          '/api/v1/glossaries',
+          '/api/v1/jobs'
+        ]
       });
     });
   }
 
   private initializeErrorHandling(): void {
-    // Global error handler
+    // Global error handler: typed errors (ApiError) map to their status and code,
+    // anything else is an internal error
     this.app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-      const requestId = (req as any).requestId;
-      console.error(`💥 [ID: ${requestId}] Unhandled error:`, err);
-      console.error(`💥 [ID: ${requestId}] Error stack:`, err.stack);
-      console.error(`💥 [ID: ${requestId}] Request details:`, {
-        method: req.method,
-        url: req.originalUrl,
-        body: req.body,
-        query: req.query,
-        params: req.params
-      });
-      
-      res.status(500).json({
+      const requestId = req.context.requestId;
+      const error = toApiError(err);
+
+      if (error.code === 'INTERNAL_ERROR') {
+        req.log.error(
+          { err, method: req.method, url: req.originalUrl, body: req.body, query: req.query, params: req.params },
+          'Unhandled error'
+        );
+      } else {
+        req.log.warn({ code: error.code, status: error.status }, error.message);
+      }
+
+      // A streaming response cannot be turned into an error response any more
+      if (res.headersSent) {
+        return next(err);
+      }
+
+      res.status(error.status).json({
         ok: false,
-        error: process.env.NODE_ENV === 'development' ? err.message : 'Internal server error',
-        requestId: requestId
+        code: error.code,
+        error:
+          error.code === 'INTERNAL_ERROR' && process.env.NODE_ENV === 'development'
+            ? err?.message || error.message
+            : error.message,
+        requestId,
+        ...error.details
       });
     });
   }
 
+  /**
+   * Register maintenance tasks and start their timers (unless SCHEDULER_ENABLED=false,
+   * e.g. on serverless hosts, where POST /admin/tasks/run triggers them instead)
+   */
   private startCleanupTasks(): void {
-    // Periodic cleanup task for expired activations
+    this.scheduler.register({
+      name: 'sessions.sweep',
+      intervalMs: parseInt(process.env.SESSION_SWEEP_INTERVAL_MS || '3600000'),
+      run: async () => ({ removed: await this.activationService.cleanExpiredSessions() })
+    });
+
+    const translationCache = this.translationCache;
+    if (translationCache) {
+      this.scheduler.register({
+        name: 'cache.evict',
+        intervalMs: parseInt(process.env.CACHE_EVICTION_INTERVAL_MS || '600000'),
+        run: async () => ({ removed: await translationCache.evictExpired() })
+      });
+    }
+
+    this.scheduler.register({
+      name: 'usage.rollup',
+      intervalMs: parseInt(process.env.USAGE_ROLLUP_INTERVAL_MS || '300000'),
+      run: async () => ({ identifiers: await this.usageService.rollup() })
+    });
+
+    this.scheduler.register({
+      name: 'jobs.reap',
+      intervalMs: parseInt(process.env.JOB_REAP_INTERVAL_MS || '300000'),
+      run: () => this.jobService.reap()
+    });
+
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      this.scheduler.start();
+    }
   }
 
+  /**
+   * Stop background timers (scheduled tasks and the job poller)
+   */
+  shutdown(): void {
+    this.scheduler.stop();
+    this.jobService.stop();
+  }
 }
 
-export { App };
\ No newline at end of file
+export { App };
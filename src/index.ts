@@ -1,30 +1,33 @@
-import {App} from "./app";
+import { App } from './app';
+import { logger } from './utils/logger';
 
- 
 const PORT = parseInt(process.env.PORT || '4000');
 
-try {
-console.log("Starting Traducteur Rapide server...");
-const app = new App();
+let app: App | undefined;
 
+try {
+  logger.info('Starting Traducteur Rapide server...');
+  app = new App();
 } catch (error) {
-  console.error('Failed to start server:', error);
+  logger.fatal({ err: error }, 'Failed to start server');
   process.exit(1);
 }
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+  logger.info('SIGTERM received, shutting down gracefully...');
+  app?.shutdown();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully...');
+  logger.info('SIGINT received, shutting down gracefully...');
+  app?.shutdown();
   process.exit(0);
 });
-const appInstance = new App().app;
+const appInstance = app?.app ?? new App().app;
 
 // Vercel expects a default export function
 export default function handler(req: any, res: any) {
   return appInstance(req, res);
-}
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+import type { NextFunction, Request, Response } from 'express';
+import { deprecatedAlias } from '../deprecation';
+
+function run(middleware: ReturnType<typeof deprecatedAlias>, originalUrl: string, path: string) {
+  const headers: Record<string, string> = {};
+  const res = {
+    setHeader: (name: string, value: string) => {
+      headers[name] = value;
+    }
+  } as unknown as Response;
+  const next = vi.fn() as NextFunction;
+  middleware({ originalUrl, path } as Request, res, next);
+  expect(next).toHaveBeenCalledOnce();
+  return headers;
+}
+
+describe('deprecatedAlias', () => {
+  it('links aliased requests to the same path under the successor', () => {
+    expect(run(deprecatedAlias('/api/v1', '2026-12-31'), '/api/detect?x=1', '/detect')).toEqual({
+      Deprecation: 'true',
+      Sunset: 'Thu, 31 Dec 2026 00:00:00 GMT',
+      Link: '</api/v1/detect>; rel="successor-version"'
+    });
+    expect(run(deprecatedAlias('/api/v1'), '/api/detect', '/detect')).not.toHaveProperty('Sunset');
+  });
+
+  it('leaves requests for the successor itself alone', () => {
+    expect(run(deprecatedAlias('/api/v1'), '/api/v1/missing', '/v1/missing')).toEqual({});
+  });
+
+  it('rejects an invalid sunset date', () => {
+    expect(() => deprecatedAlias('/api/v1', 'soon')).toThrow('Invalid sunset date "soon"');
+  });
+});
@@ -0,0 +1,129 @@
+import type { Request, Response } from 'express';
+import MemoryUsageLedger from '../../services/ledger/memoryUsageLedger';
+import type { UsageRecord } from '../../services/ledger/usageLedger';
+import MemoryRateLimitStore from '../../services/rateLimit/memoryRateLimitStore';
+import UsageService from '../../services/usageService';
+import { EntitlementError, ValidationError } from '../../utils/errors';
+import { enforcePlan } from '../entitlements';
+
+function record(identifier: string, characters: number): UsageRecord {
+  return {
+    identifier,
+    plan: 'basic',
+    operation: 'translate',
+    sourceLanguage: 'en',
+    targetLanguage: 'fr',
+    characters,
+    cached: false,
+    timestamp: new Date().toISOString()
+  };
+}
+
+describe('enforcePlan', () => {
+  let ledger: MemoryUsageLedger;
+  let usageService: UsageService;
+  let headers: Record<string, string>;
+  let res: Response;
+
+  beforeEach(() => {
+    ledger = new MemoryUsageLedger();
+    usageService = new UsageService(ledger, new MemoryRateLimitStore(60 * 1000));
+    headers = {};
+    res = {
+      setHeader: (name: string, value: string) => {
+        headers[name] = value;
+      }
+    } as unknown as Response;
+  });
+
+  const run = async (plan: string, endpoint: Parameters<typeof enforcePlan>[1], body: unknown, query = {}) => {
+    const req = { identifier: 'alice', plan, body, query } as unknown as Request;
+    const next = vi.fn();
+    await enforcePlan(usageService, endpoint)(req, res, next);
+    expect(next).toHaveBeenCalledOnce();
+  };
+
+  it('lets requests within the plan through', async () => {
+    await run('basic', 'translate', { text: 'Hello', targetLanguage: 'fr' });
+  });
+
+  it('rejects unknown plans and endpoints outside the plan', async () => {
+    await expect(run('gold', 'translate', {})).rejects.toMatchObject({ code: 'PLAN_UNKNOWN' });
+    await expect(run('basic', 'batch', { texts: [] })).rejects.toMatchObject({
+      code: 'ENDPOINT_NOT_IN_PLAN',
+      status: 403
+    });
+  });
+
+  it('rejects target languages outside the plan, whatever the request shape', async () => {
+    await expect(run('basic', 'translate', { text: 'Hi', targetLanguages: ['fr', 'ja', 'ko'] })).rejects.toMatchObject({
+      code: 'LANGUAGE_NOT_IN_PLAN',
+      details: { languages: ['ja', 'ko'] }
+    });
+    await expect(run('basic', 'translate', 'Hi', { targetLanguage: 'ja' })).rejects.toBeInstanceOf(EntitlementError);
+    await run('premium', 'translate', { text: 'Hi', targetLanguage: 'ja' });
+  });
+
+  it('checks targetLanguage alongside targetLanguages', async () => {
+    await expect(
+      run('basic', 'translate', { text: 'Hi', targetLanguage: 'ja', targetLanguages: ['fr'] })
+    ).rejects.toMatchObject({ code: 'LANGUAGE_NOT_IN_PLAN', details: { languages: ['ja'] } });
+  });
+
+  it('caps text length on translate and batch only', async () => {
+    const long = 'x'.repeat(1001);
+
+    await expect(run('basic', 'translate', { text: long, targetLanguage: 'fr' })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(run('premium', 'batch', { texts: [{ text: 'x'.repeat(5001) }] })).rejects.toMatchObject({
+      code: 'TEXT_TOO_LONG'
+    });
+    await run('premium', 'document', { text: 'x'.repeat(5001), targetLanguage: 'fr' });
+  });
+
+  it('rejects requests that would exceed the monthly character quota', async () => {
+    await ledger.append(record('alice', 99_990));
+
+    await run('basic', 'translate', { text: 'x'.repeat(10), targetLanguage: 'fr' });
+    await expect(run('basic', 'translate', { text: 'x'.repeat(11), targetLanguage: 'fr' })).rejects.toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      details: { used: 99_990, limit: 100_000 }
+    });
+  });
+
+  it('counts each target language against the quota', async () => {
+    await ledger.append(record('alice', 99_990));
+
+    await expect(
+      run('basic', 'translate', { text: 'x'.repeat(6), targetLanguages: ['fr', 'de'] })
+    ).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+  });
+
+  it('counts targetLanguage and targetLanguages once each against the quota', async () => {
+    await ledger.append(record('alice', 99_985));
+
+    await expect(
+      run('basic', 'translate', { text: 'x'.repeat(6), targetLanguage: 'es', targetLanguages: ['fr', 'de'] })
+    ).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    await run('basic', 'translate', { text: 'x'.repeat(6), targetLanguage: 'fr', targetLanguages: ['fr', 'de'] });
+  });
+
+  it('has no quota on unlimited plans', async () => {
+    await ledger.append(record('alice', 10_000_000));
+
+    await run('enterprise', 'translate', { text: 'Hello', targetLanguage: 'fr' });
+  });
+
+  it('limits requests per minute and says when to retry', async () => {
+    for (let i = 0; i < 10; i++) {
+      await run('basic', 'translate', { text: 'Hi', targetLanguage: 'fr' });
+    }
+
+    await expect(run('basic', 'translate', { text: 'Hi', targetLanguage: 'fr' })).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      status: 429
+    });
+    expect(Number(headers['Retry-After'])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,82 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { ValidationError } from '../../utils/errors';
+import { validate } from '../validate';
+
+const body = z.object({ name: z.string({ required_error: 'Name is required' }).trim(), count: z.number().default(1) });
+const query = z.object({ limit: z.coerce.number().int().positive() });
+const response = z.object({ ok: z.literal(true), name: z.string() });
+
+function createResponse() {
+  const sent: unknown[] = [];
+  const res = {
+    statusCode: 200,
+    locals: {},
+    json: (payload: unknown) => {
+      sent.push(payload);
+      return res;
+    }
+  } as unknown as Response;
+  return { res, sent };
+}
+
+describe('validate', () => {
+  it('replaces the body with the parsed one and keeps the parsed query in res.locals', () => {
+    const req = { body: { name: '  Ada ' }, query: { limit: '5' } } as unknown as Request;
+    const { res } = createResponse();
+    const next = vi.fn();
+
+    validate({ body, query })(req, res, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(req.body).toEqual({ name: 'Ada', count: 1 });
+    expect(res.locals.query).toEqual({ limit: 5 });
+  });
+
+  it('throws a ValidationError listing every issue', () => {
+    const req = { body: { count: 'two' }, query: {} } as unknown as Request;
+    const { res } = createResponse();
+
+    const run = () => validate({ body })(req, res, vi.fn());
+
+    expect(run).toThrow(ValidationError);
+    expect(run).toThrow(
+      expect.objectContaining({
+        code: 'VALIDATION_FAILED',
+        message: 'Name is required',
+        details: {
+          issues: [
+            { path: 'name', message: 'Name is required' },
+            { path: 'count', message: 'Expected number, received string' }
+          ]
+        }
+      })
+    );
+  });
+
+  it('rejects successful responses that drift from their schema outside production', () => {
+    const { res, sent } = createResponse();
+    validate({ response })({ query: {} } as Request, res, vi.fn());
+
+    res.json({ ok: true, name: 'Ada' });
+    expect(() => res.json({ ok: true })).toThrow('Response does not match its schema');
+    res.statusCode = 400;
+    res.json({ ok: false, error: 'Bad request' });
+
+    expect(sent).toEqual([
+      { ok: true, name: 'Ada' },
+      { ok: false, error: 'Bad request' }
+    ]);
+  });
+
+  it('does not check responses in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { res, sent } = createResponse();
+    validate({ response })({ query: {} } as Request, res, vi.fn());
+    vi.unstubAllEnvs();
+
+    res.json({ ok: true });
+
+    expect(sent).toEqual([{ ok: true }]);
+  });
+});
@@ -0,0 +1,53 @@
+import type { NextFunction, Response } from 'express';
+import type { AuditEntry, AuditLog } from '../services/audit/auditLog';
+import type { AdminRequest } from './auth';
+
+interface AuditDescription {
+  action: string;
+  target?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Describe the admin action a handler performs; recorded by auditAdminActions
+ */
+export function setAuditAction(
+  res: Response,
+  action: string,
+  target?: string,
+  details?: Record<string, unknown>
+): void {
+  res.locals.audit = { action, target, details } as AuditDescription;
+}
+
+/**
+ * Middleware to record every admin request in the audit trail once its response
+ * is sent. Mount it before requireAdmin so rejected credentials are recorded too.
+ */
+export function auditAdminActions(auditLog: AuditLog) {
+  return (req: AdminRequest, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      const path = req.originalUrl.split('?')[0];
+      const description = res.locals.audit as AuditDescription | undefined;
+
+      const entry: AuditEntry = {
+        action: description?.action || `${req.method} ${path}`,
+        actor: req.adminActor || 'anonymous',
+        target: description?.target,
+        details: description?.details,
+        method: req.method,
+        path,
+        status: res.statusCode,
+        ip: req.ip,
+        requestId: req.context.requestId,
+        timestamp: new Date().toISOString()
+      };
+
+      auditLog.append(entry).catch((error) => {
+        req.log.error({ err: error }, 'Audit log error');
+      });
+    });
+
+    next();
+  };
+}
@@ -1,32 +1,107 @@
-import { Request, Response, NextFunction } from 'express';
-import ActivationService from '../services/activationService';
+import crypto from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type ActivationService from '../services/activationService';
+import type { UsageAccount } from '../services/ledger/usageLedger';
+import { ApiError, AuthenticationError, ServiceUnavailableError } from '../utils/errors';
 
 interface AuthRequest extends Request {
   identifier?: string;
+  plan?: string;
+  /** Device the bearer token was issued to */
+  deviceId?: string;
 }
 
 /**
- * Middleware to check if request has valid activation
+ * Middleware to check if request has valid activation. Expects
+ * `Authorization: Bearer <accessToken>`; the legacy X-Identifier header is only
+ * honoured when the service allows it (ALLOW_IDENTIFIER_HEADER).
  */
 export function requireActivation(activationService: ActivationService) {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
-    const identifier = req.headers['x-identifier'] as string;
-    
-    if (!identifier) {
-      return res.status(401).json({ 
-        ok: false, 
-        error: 'Missing identifier header' 
-      });
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const authorization = req.headers.authorization;
+    const identifierHeader = req.headers['x-identifier'] as string;
+
+    try {
+      if (authorization) {
+        const [scheme, token] = authorization.split(' ');
+        if (scheme.toLowerCase() !== 'bearer' || !token) {
+          throw new AuthenticationError('TOKEN_INVALID', 'Authorization header must be "Bearer <accessToken>"');
+        }
+
+        const { session, deviceId } = await activationService.authenticate(token);
+        req.identifier = session.identifier;
+        req.plan = session.plan;
+        req.deviceId = deviceId;
+        return next();
+      }
+
+      if (identifierHeader && activationService.allowIdentifierHeader) {
+        const session = (await activationService.isActive(identifierHeader))
+          ? await activationService.getSession(identifierHeader)
+          : null;
+        if (!session) {
+          throw new AuthenticationError('SESSION_ENDED', 'Invalid or expired activation');
+        }
+
+        req.identifier = identifierHeader;
+        req.plan = session.plan;
+        return next();
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+        throw error;
+      }
+      if (error instanceof ApiError) throw error;
+
+      req.log.error({ err: error }, 'Session store error');
+      throw new ServiceUnavailableError('Session store unavailable');
     }
 
-    if (!activationService.isActive(identifier)) {
-      return res.status(401).json({ 
-        ok: false, 
-        error: 'Invalid or expired activation' 
-      });
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw new AuthenticationError('AUTH_REQUIRED', 'Missing bearer token');
+  };
+}
+
+/**
+ * The account set by requireActivation, for usage metering
+ */
+export function getAccount(req: AuthRequest): UsageAccount {
+  return { identifier: req.identifier as string, plan: req.plan as string };
+}
+
+export interface AdminRequest extends Request {
+  /** Name of the admin credential that authenticated the request */
+  adminActor?: string;
+}
+
+/**
+ * Middleware to protect operator-only routes with admin credentials (X-Admin-Key).
+ * Credentials are named so the audit trail can tell operators apart; a plain
+ * string is the single "admin" credential.
+ */
+export function requireAdmin(credentials: Record<string, string> | string | undefined) {
+  const named = typeof credentials === 'string' ? { admin: credentials } : credentials || {};
+  const expected = Object.entries(named)
+    .filter(([, key]) => key)
+    .map(([name, key]) => ({ name, key: Buffer.from(key) }));
+
+  return (req: AdminRequest, _res: Response, next: NextFunction) => {
+    if (expected.length === 0) {
+      throw new ServiceUnavailableError('Admin API is not configured');
     }
 
-    req.identifier = identifier;
+    const provided = Buffer.from((req.headers['x-admin-key'] as string) || '');
+    const match = expected.find(
+      ({ key }) =>
+        provided.length === key.length && crypto.timingSafeEqual(new Uint8Array(provided), new Uint8Array(key))
+    );
+
+    if (!match) {
+      throw new AuthenticationError('AUTH_REQUIRED', 'Invalid admin credentials');
+    }
+
+    req.adminActor = match.name;
     next();
   };
-}
\ No newline at end of file
+}
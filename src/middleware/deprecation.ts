@@ -0,0 +1,27 @@
+import type { NextFunction, Request, Response } from 'express';
+
+/**
+ * Middleware marking a mount as a deprecated alias of a versioned one: adds
+ * `Deprecation`, an optional `Sunset` date and a `successor-version` link to
+ * the same path under the successor base (e.g. /api/translate -> /api/v1/translate)
+ */
+export function deprecatedAlias(successorBase: string, sunset?: string) {
+  const sunsetDate = sunset ? new Date(sunset) : undefined;
+  if (sunsetDate && Number.isNaN(sunsetDate.getTime())) {
+    throw new Error(`Invalid sunset date "${sunset}"`);
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    // Unmatched successor paths fall through to the alias mount; they are not aliases
+    if (req.originalUrl === successorBase || req.originalUrl.startsWith(`${successorBase}/`)) {
+      return next();
+    }
+
+    res.setHeader('Deprecation', 'true');
+    if (sunsetDate) {
+      res.setHeader('Sunset', sunsetDate.toUTCString());
+    }
+    res.setHeader('Link', `<${successorBase}${req.path}>; rel="successor-version"`);
+    next();
+  };
+}
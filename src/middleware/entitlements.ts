@@ -0,0 +1,156 @@
+import type { NextFunction, Request, Response } from 'express';
+import { getPlan, type PlanDefinition, type PlanEndpoint } from '../services/plans';
+import type UsageService from '../services/usageService';
+import { EntitlementError, ValidationError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+  plan?: string;
+}
+
+/** Endpoints whose per-text length is capped by the plan's maxTextLength */
+const LENGTH_LIMITED: PlanEndpoint[] = ['translate', 'batch'];
+
+/**
+ * Texts and target languages of a translation request, whatever its shape:
+ * JSON `text` / `texts` / `content`, or a raw text body with query parameters
+ */
+function measureRequest(req: Request): { texts: string[]; targetLanguages: string[] } {
+  const body = typeof req.body === 'object' && req.body !== null ? req.body : {};
+  const texts: string[] = [];
+
+  if (typeof req.body === 'string') texts.push(req.body);
+  if (typeof body.text === 'string') texts.push(body.text);
+  if (typeof body.content === 'string') texts.push(body.content);
+  if (Array.isArray(body.texts)) {
+    for (const item of body.texts) {
+      const text = typeof item === 'string' ? item : item?.text;
+      if (typeof text === 'string') texts.push(text);
+    }
+  }
+
+  // The same targets the translate route fans out to: targetLanguage plus targetLanguages, once each
+  const targets = [body.targetLanguage ?? req.query.targetLanguage, body.targetLanguages].flat();
+  const targetLanguages = Array.from(
+    new Set(targets.filter((target): target is string => typeof target === 'string' && target.length > 0))
+  );
+
+  return { texts, targetLanguages };
+}
+
+/**
+ * Count a request against the identifier's per-minute limit and set the standard
+ * RateLimit headers
+ * @throws EntitlementError (RATE_LIMITED)
+ */
+export async function applyRateLimit(
+  usageService: UsageService,
+  req: Request,
+  res: Response,
+  identifier: string,
+  plan: PlanDefinition
+): Promise<void> {
+  // An unreachable counter store must not take the API down with it
+  const rate = await usageService.hitRateLimit(identifier, plan.requestsPerMinute).catch((error) => {
+    req.log.error({ err: error }, 'Rate limit store error');
+    return null;
+  });
+
+  if (rate) {
+    // Standard headers (IETF draft-6), as sent by express-rate-limit
+    const resetSeconds = Math.max(0, Math.ceil((rate.resetTime.getTime() - Date.now()) / 1000));
+    res.setHeader('RateLimit-Policy', `${rate.limit};w=60`);
+    res.setHeader('RateLimit-Limit', String(rate.limit));
+    res.setHeader('RateLimit-Remaining', String(rate.remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (!rate.allowed) {
+      res.setHeader('Retry-After', String(resetSeconds));
+      throw new EntitlementError(
+        'RATE_LIMITED',
+        `Rate limit exceeded: ${plan.requestsPerMinute} requests per minute on the ${plan.name} plan`
+      );
+    }
+  }
+}
+
+/**
+ * Middleware enforcing the caller's plan: endpoint access, target languages,
+ * text length, requests per minute and the monthly character quota. Must run
+ * after requireActivation and after any body parser. Violations are thrown as
+ * EntitlementError for the global error handler.
+ */
+export function enforcePlan(usageService: UsageService, endpoint: PlanEndpoint) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const identifier = req.identifier as string;
+    const plan = getPlan(req.plan || '');
+
+    if (!plan) {
+      throw new EntitlementError('PLAN_UNKNOWN', `Unknown plan "${req.plan}"`);
+    }
+
+    if (!plan.endpoints.includes(endpoint)) {
+      throw new EntitlementError(
+        'ENDPOINT_NOT_IN_PLAN',
+        `The ${plan.name} plan does not include the ${endpoint} endpoint`
+      );
+    }
+
+    const { texts, targetLanguages } = measureRequest(req);
+
+    if (plan.targetLanguages) {
+      const allowed = plan.targetLanguages;
+      const denied = targetLanguages.filter((language) => !allowed.includes(language.toLowerCase()));
+      if (denied.length > 0) {
+        throw new EntitlementError(
+          'LANGUAGE_NOT_IN_PLAN',
+          `Target language not available on the ${plan.name} plan: ${denied.join(', ')}`,
+          { languages: denied }
+        );
+      }
+    }
+
+    if (LENGTH_LIMITED.includes(endpoint) && texts.some((text) => text.length > plan.maxTextLength)) {
+      throw new ValidationError(
+        `Text is too long. Maximum length on the ${plan.name} plan is ${plan.maxTextLength} characters`,
+        'TEXT_TOO_LONG',
+        { maxTextLength: plan.maxTextLength }
+      );
+    }
+
+    await applyRateLimit(usageService, req, res, identifier, plan);
+
+    // Estimated cost: each target language is a separate translation of the same text.
+    // Actual consumption is metered by the usage ledger.
+    const characters = texts.reduce((sum, text) => sum + text.length, 0) * Math.max(1, targetLanguages.length);
+
+    if (plan.monthlyCharacters !== null) {
+      const { characters: used } = await usageService.getUsage(identifier);
+      if (used + characters > plan.monthlyCharacters) {
+        throw new EntitlementError(
+          'QUOTA_EXCEEDED',
+          `Monthly character quota exceeded (${used} of ${plan.monthlyCharacters} used)`,
+          { used, limit: plan.monthlyCharacters }
+        );
+      }
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware applying only the plan's per-minute rate limit, for authenticated
+ * endpoints outside the plan's endpoint list (e.g. /languages). Must run after requireActivation.
+ */
+export function enforceRateLimit(usageService: UsageService) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const plan = getPlan(req.plan || '');
+    if (!plan) {
+      throw new EntitlementError('PLAN_UNKNOWN', `Unknown plan "${req.plan}"`);
+    }
+
+    await applyRateLimit(usageService, req, res, req.identifier as string, plan);
+    next();
+  };
+}
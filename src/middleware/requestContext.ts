@@ -0,0 +1,58 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { Tracer } from '../services/tracing/tracer';
+import {
+  newTraceId,
+  parseRequestId,
+  parseTraceparent,
+  type RequestContext,
+  runWithContext
+} from '../utils/requestContext';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Correlation and trace ids, set by requestContext() */
+      context: RequestContext;
+    }
+  }
+}
+
+/**
+ * Middleware opening the request context: honors the caller's X-Request-Id and
+ * W3C traceparent, echoes the request id in X-Request-Id and wraps the request
+ * in an `http.request` span. Mount it first so everything after runs inside it.
+ */
+export function requestContext(tracer: Tracer) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = parseTraceparent(req.get('traceparent'));
+    const traceId = incoming?.traceId ?? newTraceId();
+    const span = tracer.startSpan('http.request', {
+      traceId,
+      parentSpanId: incoming?.parentSpanId,
+      attributes: { method: req.method, url: req.originalUrl }
+    });
+
+    const context: RequestContext = {
+      requestId: parseRequestId(req.get('X-Request-Id')) ?? traceId,
+      traceId,
+      spanId: span.spanId,
+      traceFlags: incoming?.traceFlags ?? '01'
+    };
+    req.context = context;
+    // Picked up by pino-http as the request logger's requestId
+    req.id = context.requestId;
+    res.setHeader('X-Request-Id', context.requestId);
+
+    res.on('finish', () => {
+      span.setAttribute('status', res.statusCode);
+      if (res.statusCode >= 500) span.recordError(new Error(`HTTP ${res.statusCode}`));
+      span.end();
+    });
+    res.on('close', () => {
+      if (!res.writableFinished) span.recordError(new Error('Request aborted'));
+      span.end();
+    });
+
+    runWithContext(context, next);
+  };
+}
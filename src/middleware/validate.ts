@@ -0,0 +1,64 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { ZodError, ZodTypeAny } from 'zod';
+import { ValidationError } from '../utils/errors';
+
+interface RequestSchemas {
+  body?: ZodTypeAny;
+  query?: ZodTypeAny;
+  /** Successful (2xx) JSON bodies must match this schema; checked outside production only */
+  response?: ZodTypeAny;
+}
+
+/**
+ * Turn Zod issues into a ValidationError: the first issue is the message, all of
+ * them are listed in `issues` as `{path, message}`
+ */
+function toValidationError(error: ZodError): ValidationError {
+  const issues = error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  return new ValidationError(issues[0]?.message || 'Invalid request', 'VALIDATION_FAILED', { issues });
+}
+
+/**
+ * Make res.json() throw when a successful body drifts from its documented schema,
+ * which the error handler turns into a logged 500. The body is sent unchanged.
+ */
+function checkResponses(res: Response, schema: ZodTypeAny): void {
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    if (res.statusCode < 300) {
+      const result = schema.safeParse(body);
+      if (!result.success) {
+        const issues = result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+        throw Object.assign(new Error('Response does not match its schema'), { issues });
+      }
+    }
+    return json(body);
+  };
+}
+
+/**
+ * Middleware validating the body and/or query string against Zod schemas. The
+ * parsed body (trimmed, defaults applied) replaces req.body; Express 5 query
+ * objects are read-only, so the parsed query is left in res.locals.query.
+ */
+export function validate(schemas: RequestSchemas) {
+  const checksResponses = Boolean(schemas.response) && process.env.NODE_ENV !== 'production';
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (schemas.body) {
+      const result = schemas.body.safeParse(req.body ?? {});
+      if (!result.success) throw toValidationError(result.error);
+      req.body = result.data;
+    }
+
+    if (schemas.query) {
+      const result = schemas.query.safeParse(req.query);
+      if (!result.success) throw toValidationError(result.error);
+      res.locals.query = result.data;
+    }
+
+    if (checksResponses) checkResponses(res, schemas.response as ZodTypeAny);
+
+    next();
+  };
+}
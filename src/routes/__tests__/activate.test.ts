@@ -0,0 +1,140 @@
+import request from 'supertest';
+import { App } from '../../app';
+import { createActivationKey, createActivationKeyV2 } from '../../utils/hmac';
+import { createKey, createTestApp, KEY_ID, KEY_SECRET, type TestApp } from './testApp';
+
+const expiry = () => new Date(Date.now() + 86400000).toISOString();
+
+describe('POST /api/v1/activate', () => {
+  let testApp: TestApp | undefined;
+
+  afterEach(async () => {
+    await testApp?.close();
+    testApp = undefined;
+  });
+
+  it('activates v2 keys and returns the session tokens', async () => {
+    testApp = await createTestApp();
+
+    const response = await request(testApp.app)
+      .post('/api/v1/activate')
+      .send({ key: createKey('premium', { claims: { features: ['beta'] } }), deviceFingerprint: 'laptop' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      ok: true,
+      identifier: 'user-premium',
+      plan: 'premium',
+      tokenType: 'Bearer',
+      claims: { features: ['beta'] },
+      seats: { used: 1, limit: 3 }
+    });
+  });
+
+  it('lets clients without a device fingerprint activate again on their single seat', async () => {
+    testApp = await createTestApp();
+    const key = createKey('basic');
+
+    const first = await request(testApp.app).post('/api/v1/activate').send({ key });
+    const again = await request(testApp.app).post('/api/v1/activate').send({ key });
+
+    expect(first.status).toBe(200);
+    expect(again.status).toBe(200);
+    expect(again.body.seats).toEqual({ used: 1, limit: 1 });
+  });
+
+  it('verifies keys of every listed key id after a rotation', async () => {
+    testApp = await createTestApp({
+      ACT_KEY_SECRETS: `${KEY_ID}:${KEY_SECRET},k2:rotated-secret`,
+      ACT_KEY_CURRENT_KID: 'k2'
+    });
+    const rotated = createActivationKeyV2(
+      { identifier: 'bob', expiry: expiry(), plan: 'basic', nonce: 'n2' },
+      'k2',
+      'rotated-secret'
+    );
+    const unknown = createActivationKeyV2(
+      { identifier: 'eve', expiry: expiry(), plan: 'basic', nonce: 'n3' },
+      'k9',
+      'x'
+    );
+
+    const old = await request(testApp.app)
+      .post('/api/v1/activate')
+      .send({ key: createKey('premium') });
+    const current = await request(testApp.app).post('/api/v1/activate').send({ key: rotated });
+    const refused = await request(testApp.app).post('/api/v1/activate').send({ key: unknown });
+
+    expect(old.status).toBe(200);
+    expect(current.status).toBe(200);
+    expect(refused.status).toBe(400);
+    expect(refused.body).toMatchObject({ ok: false, code: 'KEY_UNKNOWN_KID' });
+  });
+
+  it('accepts v1 keys until the migration window closes', async () => {
+    const v1 = createActivationKey('legacy-user', expiry(), 'basic', 'n1', 'legacy-secret');
+
+    testApp = await createTestApp({ ACT_KEY_SECRET: 'legacy-secret' });
+    expect((await request(testApp.app).post('/api/v1/activate').send({ key: v1 })).status).toBe(200);
+    await testApp.close();
+
+    testApp = await createTestApp({ ACT_KEY_SECRET: 'legacy-secret', ACT_KEY_V1_UNTIL: '2020-01-01T00:00:00Z' });
+    const rejected = await request(testApp.app).post('/api/v1/activate').send({ key: v1 });
+
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.code).toBe('KEY_VERSION_REJECTED');
+  });
+
+  it('refuses to start with a current key id that has no secret', () => {
+    vi.stubEnv('ACT_KEY_SECRETS', `${KEY_ID}:${KEY_SECRET}`);
+    vi.stubEnv('ACT_KEY_CURRENT_KID', 'k2');
+
+    expect(() => new App()).toThrow('ACT_KEY_CURRENT_KID "k2" is not listed in ACT_KEY_SECRETS');
+    vi.unstubAllEnvs();
+  });
+
+  describe('legacy response shape', () => {
+    it('answers in the legacy shape when the client asks for it', async () => {
+      testApp = await createTestApp();
+
+      const response = await request(testApp.app)
+        .post('/api/v1/activate')
+        .set('X-Response-Compat', 'legacy')
+        .send({ key: createKey('basic') });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        userId: 'user-basic',
+        plan: 'basic',
+        message: 'Activation successful'
+      });
+      expect(response.body).not.toHaveProperty('ok');
+      expect(response.body.expiresAt).toEqual(expect.any(String));
+    });
+
+    it('keeps the legacy error shape for legacy clients', async () => {
+      testApp = await createTestApp({ LEGACY_ACTIVATION_RESPONSE: 'true' });
+
+      const response = await request(testApp.app).post('/api/v1/activate').send({ key: 'not-a-key' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        success: false,
+        code: 'KEY_VERSION_REJECTED',
+        message: expect.any(String)
+      });
+    });
+
+    it('lets clients opt out of a legacy server default', async () => {
+      testApp = await createTestApp({ LEGACY_ACTIVATION_RESPONSE: 'true' });
+
+      const response = await request(testApp.app)
+        .post('/api/v1/activate')
+        .set('X-Response-Compat', 'standard')
+        .send({ key: createKey('basic') });
+
+      expect(response.body).toMatchObject({ ok: true, identifier: 'user-basic' });
+    });
+  });
+});
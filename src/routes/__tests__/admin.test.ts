@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('admin API', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp({ ADMIN_API_KEY: '', ADMIN_API_KEYS: 'ops:ops-key,billing:billing-key' });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const ops = { 'X-Admin-Key': 'ops-key' };
+
+  const auditEntries = async (query = '') => {
+    const response = await request(testApp.app).get(`/admin/audit${query}`).set(ops);
+    return response.body.entries as { action: string; actor: string; target?: string; status: number }[];
+  };
+
+  it('requires one of the named admin keys', async () => {
+    const missing = await request(testApp.app).get('/admin/sessions');
+    const wrong = await request(testApp.app).get('/admin/sessions').set('X-Admin-Key', 'ops-kez');
+    const billing = await request(testApp.app).get('/admin/sessions').set('X-Admin-Key', 'billing-key');
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(billing.status).toBe(200);
+    await vi.waitFor(async () => {
+      expect(await auditEntries('?actor=anonymous')).toHaveLength(2);
+    });
+  });
+
+  it('is unavailable when no admin key is configured', async () => {
+    await testApp.close();
+    testApp = await createTestApp({ ADMIN_API_KEY: '', ADMIN_API_KEYS: '' });
+
+    const response = await request(testApp.app).get('/admin/sessions').set('X-Admin-Key', '');
+
+    expect(response.status).toBe(503);
+  });
+
+  it('mints keys that activate, and audits the mint without the key', async () => {
+    const minted = await request(testApp.app)
+      .post('/admin/keys')
+      .set(ops)
+      .send({ identifier: 'carol', plan: 'Premium', validDays: 7, claims: { seats: 2 } });
+
+    expect(minted.status).toBe(201);
+    expect(minted.body).toMatchObject({
+      ok: true,
+      identifier: 'carol',
+      plan: 'premium',
+      kid: 'k1',
+      claims: { seats: 2 }
+    });
+    const activation = await request(testApp.app).post('/api/activate').send({ key: minted.body.key });
+    expect(activation.body).toMatchObject({ identifier: 'carol', seats: { used: 1, limit: 2 } });
+
+    await vi.waitFor(async () => {
+      const [entry] = await auditEntries('?action=keys.mint');
+      expect(entry).toMatchObject({ actor: 'ops', target: 'carol', status: 201 });
+      expect(JSON.stringify(entry)).not.toContain(minted.body.key);
+    });
+  });
+
+  it.each([
+    [{ plan: 'premium' }, 'Missing required fields'],
+    [{ identifier: 'carol', plan: 'gold' }, 'Unknown plan'],
+    [{ identifier: 'carol', plan: 'basic', validDays: 0 }, 'validDays'],
+    [{ identifier: 'carol', plan: 'basic', expiry: '2020-01-01' }, 'expiry'],
+    [{ identifier: 'carol', plan: 'basic', claims: { seats: -1 } }, 'claims.seats']
+  ])('rejects the mint request %j', async (body, message) => {
+    const response = await request(testApp.app).post('/admin/keys').set(ops).send(body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain(message);
+  });
+
+  it('lists, inspects and ends sessions', async () => {
+    const auth = await testApp.activate('premium');
+
+    const list = await request(testApp.app).get('/admin/sessions').set(ops);
+    const inspect = await request(testApp.app).get('/admin/sessions/user-premium').set(ops);
+    const ended = await request(testApp.app).delete('/admin/sessions/user-premium').set(ops);
+    const again = await request(testApp.app).delete('/admin/sessions/user-premium').set(ops);
+    const usage = await request(testApp.app).get('/api/usage').set(auth);
+
+    expect(list.body).toMatchObject({ ok: true, count: 1, sessions: [{ identifier: 'user-premium' }] });
+    expect(inspect.body).toMatchObject({ ok: true, seats: { used: 1, limit: 3 }, revoked: false });
+    expect(inspect.body.session.devices[0]).not.toHaveProperty('refreshTokenId');
+    expect(ended.status).toBe(200);
+    expect(again.status).toBe(404);
+    expect(usage.status).toBe(401);
+  });
+
+  it('exports usage records as CSV or JSON', async () => {
+    const auth = await testApp.activate('premium');
+    await request(testApp.app)
+      .post('/api/translate')
+      .set(auth)
+      .send({ text: 'Hello, world', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    const csv = await request(testApp.app).get('/admin/usage/export?format=csv').set(ops);
+    const json = await request(testApp.app).get('/admin/usage/export?identifier=user-premium').set(ops);
+    const invalid = await request(testApp.app).get('/admin/usage/export?format=xml').set(ops);
+
+    expect(csv.headers['content-type']).toContain('text/csv');
+    expect(csv.headers['content-disposition']).toContain('usage-all.csv');
+    const [header, row] = csv.text.trim().split('\r\n');
+    expect(header).toBe('timestamp,identifier,plan,operation,provider,sourceLanguage,targetLanguage,characters,cached');
+    expect(row).toMatch(/,user-premium,premium,translate,libretranslate,en,fr,12,false$/);
+    expect(json.body).toMatchObject({ ok: true, count: 1, records: [{ identifier: 'user-premium', characters: 12 }] });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('reports a disabled translation cache', async () => {
+    const response = await request(testApp.app).get('/admin/cache').set(ops);
+
+    expect(response.status).toBe(404);
+  });
+});
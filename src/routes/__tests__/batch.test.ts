@@ -0,0 +1,88 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('POST /api/v1/translate/batch', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp({ BATCH_MAX_ITEMS: '3' });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('translates every item in one upstream request and keeps ids and order', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/batch')
+      .set(auth)
+      .send({ texts: ['one', { id: 'b', text: 'two' }], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      ok: true,
+      provider: 'libretranslate',
+      succeeded: 2,
+      failed: 0,
+      results: [
+        { id: 0, ok: true, translatedText: '[fr]one' },
+        { id: 'b', ok: true, translatedText: '[fr]two' }
+      ]
+    });
+    expect(testApp.upstream.requests.filter((upstream) => upstream.path === '/translate')).toHaveLength(1);
+  });
+
+  it('reports invalid items without failing the batch', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/batch')
+      .set(auth)
+      .send({ texts: ['one', '  ', { id: 'x', text: 42 }], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.succeeded).toBe(1);
+    expect(response.body.failed).toBe(2);
+    expect(response.body.results[1]).toEqual({
+      id: 1,
+      ok: false,
+      code: 'VALIDATION_FAILED',
+      error: expect.any(String)
+    });
+    expect(response.body.results[2]).toMatchObject({ id: 'x', ok: false, code: 'VALIDATION_FAILED' });
+  });
+
+  it('rejects batches over the item limit', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/batch')
+      .set(auth)
+      .send({ texts: ['a', 'b', 'c', 'd'], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ ok: false, code: 'VALIDATION_FAILED' });
+  });
+
+  it('is not available on plans without the batch endpoint', async () => {
+    const auth = await testApp.activate('basic');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/batch')
+      .set(auth)
+      .send({ texts: ['a'], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('ENDPOINT_NOT_IN_PLAN');
+  });
+
+  it('requires an activated identifier', async () => {
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/batch')
+      .send({ texts: ['a'], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(401);
+  });
+});
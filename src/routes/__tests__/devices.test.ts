@@ -0,0 +1,64 @@
+import request from 'supertest';
+import { createKey, createTestApp, type TestApp } from './testApp';
+
+describe('devices', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const activate = (deviceFingerprint: string) =>
+    request(testApp.app)
+      .post('/api/activate')
+      .send({ key: createKey('premium', { claims: { seats: 2 } }), deviceFingerprint, deviceName: deviceFingerprint });
+
+  it('answers 409 with the seat usage once every seat is taken', async () => {
+    await activate('laptop');
+    await activate('phone');
+
+    const response = await activate('tablet');
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({ ok: false, seats: { used: 2, limit: 2 } });
+    expect(response.body.error).toContain('Seat limit reached');
+  });
+
+  it('lists the devices, marking the caller’s own', async () => {
+    const laptop = await activate('laptop');
+    await activate('phone');
+
+    const response = await request(testApp.app)
+      .get('/api/devices')
+      .set('Authorization', `Bearer ${laptop.body.accessToken}`);
+
+    expect(response.body).toMatchObject({ ok: true, seats: { used: 2, limit: 2 } });
+    expect(
+      response.body.devices.map((device: { name: string; current: boolean }) => [device.name, device.current])
+    ).toEqual([
+      ['laptop', true],
+      ['phone', false]
+    ]);
+  });
+
+  it('frees a seat when a device is deactivated', async () => {
+    const laptop = await activate('laptop');
+    const phone = await activate('phone');
+    const auth = { Authorization: `Bearer ${laptop.body.accessToken}` };
+
+    const removed = await request(testApp.app).delete(`/api/devices/${phone.body.deviceId}`).set(auth);
+    const missing = await request(testApp.app).delete(`/api/devices/${phone.body.deviceId}`).set(auth);
+    const phoneUsage = await request(testApp.app)
+      .get('/api/usage')
+      .set('Authorization', `Bearer ${phone.body.accessToken}`);
+
+    expect(removed.body).toEqual({ ok: true, deviceId: phone.body.deviceId });
+    expect(missing.status).toBe(404);
+    expect(phoneUsage.status).toBe(401);
+    expect((await activate('tablet')).status).toBe(200);
+  });
+});
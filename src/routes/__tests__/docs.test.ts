@@ -0,0 +1,52 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('API documentation and validation', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('serves the OpenAPI document and the interactive docs', async () => {
+    const document = await request(testApp.app).get('/openapi.json');
+    const docs = await request(testApp.app).get('/docs/');
+
+    expect(document.status).toBe(200);
+    expect(document.body.paths).toHaveProperty(['/api/v1/translate']);
+    expect(docs.status).toBe(200);
+    expect(docs.text).toContain('swagger-ui');
+  });
+
+  it('rejects invalid request bodies with the schema issues', async () => {
+    const auth = await testApp.activate('basic');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .send({ text: 'Hello', sourceLanguage: 'en', format: 'markdown' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({
+      ok: false,
+      code: 'VALIDATION_FAILED',
+      error: 'Format must be "text" or "html"',
+      issues: [{ path: 'format', message: 'Format must be "text" or "html"' }]
+    });
+    expect(testApp.upstream.requests).toHaveLength(0);
+  });
+
+  it('trims activation keys before verifying them', async () => {
+    const missing = await request(testApp.app).post('/api/v1/activate').send({ key: '   ' });
+
+    expect(missing.status).toBe(400);
+    expect(missing.body).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      error: 'Activation key must be a non-empty string'
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+const parseNdjson = (text: string) =>
+  text
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+
+describe('POST /api/v1/translate/document', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp({ DOCUMENT_CHUNK_CHARS: '20', DOCUMENT_CONCURRENCY: '2' });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('streams progress per chunk and the reassembled document as NDJSON', async () => {
+    const auth = await testApp.activate('premium');
+    const text = 'First paragraph.\n\nSecond paragraph.';
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/document')
+      .set(auth)
+      .send({ text, sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('application/x-ndjson');
+    const events = parseNdjson(response.text);
+    expect(events[0]).toEqual({ type: 'start', chunks: 2, characters: text.length });
+    expect(events.filter((event) => event.type === 'progress')).toHaveLength(2);
+    expect(events.at(-1)).toEqual({
+      type: 'done',
+      translatedText: '[fr]First paragraph.\n\n[fr]Second paragraph.',
+      chunks: 2
+    });
+  });
+
+  it('accepts raw text bodies with languages in the query string, as Server-Sent Events', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/document?sourceLanguage=en&targetLanguage=de')
+      .set(auth)
+      .set('Content-Type', 'text/plain')
+      .set('Accept', 'text/event-stream')
+      .send('Hello.');
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(response.text).toContain('event: start\n');
+    expect(response.text).toContain('event: done\ndata: {"type":"done","translatedText":"[de]Hello.","chunks":1}\n\n');
+  });
+
+  it('reports a failed chunk in the stream', async () => {
+    testApp.upstream.failTargets.add('fr');
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/document')
+      .set(auth)
+      .send({ text: 'Hello.', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(200);
+    expect(parseNdjson(response.text).at(-1)).toEqual({
+      type: 'error',
+      index: 0,
+      code: 'PROVIDER_UNAVAILABLE',
+      error: expect.any(String)
+    });
+  });
+
+  it('validates the request before streaming', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app).post('/api/v1/translate/document').set(auth).send({ text: 'Hello.' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION_FAILED');
+  });
+});
@@ -0,0 +1,90 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('POST /api/v1/translate/file', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('translates a JSON bundle and returns it in its own format', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app).post('/api/v1/translate/file').set(auth).send({
+      content: '{"title":"Hello {name}","empty":" "}',
+      format: 'json',
+      sourceLanguage: 'en',
+      targetLanguage: 'fr'
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('application/json');
+    expect(response.headers['x-translated-units']).toBe('1');
+    expect(JSON.parse(response.text)).toEqual({ title: '[fr]Hello {name}', empty: ' ' });
+  });
+
+  it('accepts raw uploads named by the query string and sends them back as attachments', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/file?filename=my%20subs.srt&sourceLanguage=en&targetLanguage=fr')
+      .set(auth)
+      .set('Content-Type', 'application/octet-stream')
+      .send('1\n00:00:01,000 --> 00:00:02,000\nHello\n');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('application/x-subrip');
+    expect(response.headers['content-disposition']).toContain('filename="my_subs.srt"');
+    expect(response.text).toBe('1\n00:00:01,000 --> 00:00:02,000\n[fr]Hello\n');
+  });
+
+  it.each(['fr"><x', 'zh-Hant-TW', 'auto'])(
+    'rejects the target language %s like the translate endpoints do',
+    async (targetLanguage) => {
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate/file')
+        .set(auth)
+        .send({ content: '{"a":"b"}', format: 'json', sourceLanguage: 'en', targetLanguage });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ ok: false, code: 'INVALID_LANGUAGE' });
+    }
+  );
+
+  it('reports unknown formats and unparseable files as validation errors', async () => {
+    const auth = await testApp.activate('premium');
+
+    const unknown = await request(testApp.app)
+      .post('/api/v1/translate/file')
+      .set(auth)
+      .send({ content: 'text', filename: 'notes.txt', sourceLanguage: 'en', targetLanguage: 'fr' });
+    const invalid = await request(testApp.app)
+      .post('/api/v1/translate/file')
+      .set(auth)
+      .send({ content: '{"a":', format: 'json', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toContain('Unknown file format');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toMatchObject({ code: 'VALIDATION_FAILED', error: 'Invalid JSON document' });
+  });
+
+  it('is not available on the basic plan', async () => {
+    const auth = await testApp.activate('basic');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate/file')
+      .set(auth)
+      .send({ content: '{"a":"b"}', format: 'json', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('ENDPOINT_NOT_IN_PLAN');
+  });
+});
@@ -0,0 +1,62 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('glossaries', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('applies a glossary to translations of its owner only', async () => {
+    const auth = await testApp.activate('premium', { identifier: 'owner' });
+    const other = await testApp.activate('premium', { identifier: 'other' });
+
+    const created = await request(testApp.app)
+      .post('/api/v1/glossaries')
+      .set(auth)
+      .send({ name: 'Brand', doNotTranslate: ['Traducteur'], terms: [{ source: 'cat', target: 'chat' }] });
+    expect(created.status).toBe(201);
+    const glossaryId = created.body.glossary.id;
+
+    const translated = await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .send({ text: 'Traducteur cat', sourceLanguage: 'en', targetLanguage: 'fr', glossaryId });
+    expect(translated.body.translatedText).toBe('[fr]Traducteur chat');
+    expect(testApp.upstream.requests.at(-1)?.body.q).toEqual(['__G0__ __G1__']);
+
+    const foreign = await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(other)
+      .send({ text: 'cat', sourceLanguage: 'en', targetLanguage: 'fr', glossaryId });
+    expect(foreign.status).toBe(404);
+    expect(foreign.body.code).toBe('NOT_FOUND');
+  });
+
+  it('rejects invalid glossaries', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app).post('/api/v1/glossaries').set(auth).send({ name: '' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ ok: false, code: 'VALIDATION_FAILED' });
+  });
+
+  it('answers 404 when changing a glossary of another activation', async () => {
+    const auth = await testApp.activate('premium', { identifier: 'owner' });
+    const other = await testApp.activate('premium', { identifier: 'other' });
+    const created = await request(testApp.app).post('/api/v1/glossaries').set(auth).send({ name: 'Brand' });
+    const path = `/api/v1/glossaries/${created.body.glossary.id}`;
+
+    const updated = await request(testApp.app).put(path).set(other).send({ name: 'Mine' });
+    const deleted = await request(testApp.app).delete(path).set(other);
+
+    expect(updated.status).toBe(404);
+    expect(deleted.body).toMatchObject({ ok: false, code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,77 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('/api/v1/jobs', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const waitForCompletion = async (auth: { Authorization: string }, statusUrl: string) => {
+    for (let i = 0; i < 100; i++) {
+      const response = await request(testApp.app).get(statusUrl).set(auth);
+      if (response.body.job?.completedAt) return response;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Job did not complete');
+  };
+
+  it('accepts a job, reports its progress and returns the result to its owner', async () => {
+    const auth = await testApp.activate('enterprise', { identifier: 'owner' });
+
+    const submitted = await request(testApp.app)
+      .post('/api/v1/jobs')
+      .set(auth)
+      .send({ texts: ['Hello', 'World'], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(submitted.status).toBe(202);
+    expect(submitted.headers.location).toBe(submitted.body.statusUrl);
+    const completed = await waitForCompletion(auth, submitted.body.statusUrl);
+    expect(completed.body.job).toMatchObject({
+      id: submitted.body.jobId,
+      status: 'completed',
+      progress: { completed: 2, total: 2 },
+      result: { translations: ['[fr]Hello', '[fr]World'] }
+    });
+    expect(completed.body.job).not.toHaveProperty('identifier');
+
+    const listed = await request(testApp.app).get('/api/v1/jobs').set(auth);
+    expect(listed.body.jobs).toHaveLength(1);
+    expect(listed.body.jobs[0]).not.toHaveProperty('result');
+
+    const other = await testApp.activate('enterprise', { identifier: 'other' });
+    const foreign = await request(testApp.app).get(submitted.body.statusUrl).set(other);
+    expect(foreign.status).toBe(404);
+  });
+
+  it('validates submissions', async () => {
+    const auth = await testApp.activate('enterprise');
+
+    const both = await request(testApp.app)
+      .post('/api/v1/jobs')
+      .set(auth)
+      .send({ text: 'a', texts: ['b'], sourceLanguage: 'en', targetLanguage: 'fr' });
+    const callback = await request(testApp.app)
+      .post('/api/v1/jobs')
+      .set(auth)
+      .send({ text: 'a', sourceLanguage: 'en', targetLanguage: 'fr', callbackUrl: 'https://example.com/hook' });
+
+    expect(both.status).toBe(400);
+    expect(callback.status).toBe(400);
+    expect(callback.body.error).toContain('webhooks are disabled');
+  });
+
+  it('is limited to plans with the jobs endpoint', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app).get('/api/v1/jobs').set(auth);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('ENDPOINT_NOT_IN_PLAN');
+  });
+});
@@ -0,0 +1,58 @@
+import request from 'supertest';
+import { createKey, createTestApp, type TestApp } from './testApp';
+
+describe('rate limiting', () => {
+  let testApp: TestApp;
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('limits each identifier by its plan and sets the standard headers', async () => {
+    testApp = await createTestApp();
+    const alice = await testApp.activate('basic', { identifier: 'alice' });
+    const bob = await testApp.activate('basic', { identifier: 'bob' });
+    const translate = (auth: { Authorization: string }) =>
+      request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    for (let i = 0; i < 10; i++) {
+      expect((await translate(alice)).status).toBe(200);
+    }
+    const limited = await translate(alice);
+
+    expect(limited.status).toBe(429);
+    expect(limited.body).toMatchObject({ ok: false, code: 'RATE_LIMITED' });
+    expect(limited.headers['ratelimit-limit']).toBe('10');
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect((await translate(bob)).headers['ratelimit-remaining']).toBe('9');
+  });
+
+  it('counts only failed activation attempts', async () => {
+    testApp = await createTestApp({ ACTIVATE_RATE_LIMIT_MAX: '2' });
+    const activate = (key: string) =>
+      request(testApp.app).post('/api/v1/activate').send({ key, deviceFingerprint: 'laptop' });
+
+    expect((await activate(createKey('premium'))).status).toBe(200);
+    expect((await activate('forged')).status).toBe(400);
+    expect((await activate('forged')).status).toBe(400);
+    const limited = await activate(createKey('premium'));
+
+    expect(limited.status).toBe(429);
+    expect(limited.body).toMatchObject({ ok: false, code: 'RATE_LIMITED', requestId: expect.any(String) });
+  });
+
+  it('limits unauthenticated routes per IP', async () => {
+    testApp = await createTestApp({ RATE_LIMIT_MAX_REQUESTS: '2' });
+
+    await request(testApp.app).get('/health');
+    await request(testApp.app).get('/health');
+    const limited = await request(testApp.app).get('/health');
+
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe('RATE_LIMITED');
+  });
+});
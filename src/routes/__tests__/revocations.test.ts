@@ -0,0 +1,59 @@
+import request from 'supertest';
+import { ADMIN_KEY, createKey, createTestApp, type TestApp } from './testApp';
+
+describe('revocations', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const admin = () => ({ 'X-Admin-Key': ADMIN_KEY });
+
+  it('cuts off a revoked identifier immediately and refuses its keys', async () => {
+    const auth = await testApp.activate('premium');
+
+    const revoked = await request(testApp.app)
+      .post('/admin/revocations')
+      .set(admin())
+      .send({ type: 'identifier', value: 'user-premium', reason: 'abuse' });
+    const usage = await request(testApp.app).get('/api/v1/usage').set(auth);
+    const activation = await request(testApp.app)
+      .post('/api/v1/activate')
+      .send({ key: createKey('premium', { nonce: 'nonce-2' }), deviceFingerprint: 'laptop' });
+
+    expect(revoked.status).toBe(201);
+    expect(revoked.body).toMatchObject({ ok: true, sessionsEnded: 1, revocation: { reason: 'abuse' } });
+    expect(usage.status).toBe(401);
+    expect(activation.status).toBe(403);
+    expect(activation.body.code).toBe('KEY_REVOKED');
+  });
+
+  it('lists and lifts revocations', async () => {
+    await request(testApp.app).post('/admin/revocations').set(admin()).send({ type: 'nonce', value: 'nonce-1' });
+
+    const list = await request(testApp.app).get('/admin/revocations').set(admin());
+    const lifted = await request(testApp.app).delete('/admin/revocations/nonce/nonce-1').set(admin());
+    const missing = await request(testApp.app).delete('/admin/revocations/nonce/nonce-1').set(admin());
+
+    expect(list.body.revocations).toEqual([expect.objectContaining({ type: 'nonce', value: 'nonce-1' })]);
+    expect(lifted.status).toBe(200);
+    expect(missing.status).toBe(404);
+    await expect(testApp.activate('premium')).resolves.toBeDefined();
+  });
+
+  it('validates revocation requests', async () => {
+    const response = await request(testApp.app)
+      .post('/admin/revocations')
+      .set(admin())
+      .send({ type: 'email', value: 'someone' });
+    const badType = await request(testApp.app).delete('/admin/revocations/email/someone').set(admin());
+
+    expect(response.status).toBe(400);
+    expect(badType.status).toBe(400);
+  });
+});
@@ -0,0 +1,44 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('API routes', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('detects languages for activated callers', async () => {
+    const auth = await testApp.activate('basic');
+
+    const response = await request(testApp.app).post('/api/detect').set(auth).send({ text: 'Hello' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ ok: true, detectedLanguage: 'en', confidence: 0.9, provider: 'libretranslate' });
+  });
+
+  it('lists the supported languages for activated callers', async () => {
+    const auth = await testApp.activate('basic');
+
+    const response = await request(testApp.app).get('/api/languages').set(auth);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ ok: true, languages: [{ code: 'en' }, { code: 'fr' }] });
+  });
+
+  it.each([
+    ['post', '/api/translate'],
+    ['post', '/api/detect'],
+    ['get', '/api/languages']
+  ] as const)('requires an activation for %s %s', async (method, path) => {
+    const response = await request(testApp.app)[method](path).send({ text: 'Hello', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(401);
+    expect(response.body.ok).toBe(false);
+    expect(testApp.upstream.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,59 @@
+import request from 'supertest';
+import { ADMIN_KEY, createTestApp, type TestApp } from './testApp';
+
+describe('maintenance tasks', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const admin = { 'X-Admin-Key': ADMIN_KEY };
+
+  it('lists the registered tasks and their intervals', async () => {
+    const response = await request(testApp.app).get('/admin/tasks').set(admin);
+
+    expect(response.status).toBe(200);
+    expect(response.body.tasks).toEqual([
+      { name: 'sessions.sweep', intervalMs: 3600000, running: false },
+      { name: 'usage.rollup', intervalMs: 300000, running: false },
+      { name: 'jobs.reap', intervalMs: 300000, running: false }
+    ]);
+  });
+
+  it('runs every task from an HTTP trigger', async () => {
+    const response = await request(testApp.app).post('/admin/tasks/run').set(admin);
+
+    expect(response.status).toBe(200);
+    expect(response.body.runs).toMatchObject([
+      { task: 'sessions.sweep', ok: true, result: { removed: 0 } },
+      { task: 'usage.rollup', ok: true, result: { identifiers: 0 } },
+      { task: 'jobs.reap', ok: true, result: { requeued: 0, failed: 0, deleted: 0 } }
+    ]);
+  });
+
+  it('sweeps expired sessions on demand', async () => {
+    const minted = await request(testApp.app)
+      .post('/admin/keys')
+      .set(admin)
+      .send({ identifier: 'carol', plan: 'basic', validDays: 1 });
+    await request(testApp.app).post('/api/activate').send({ key: minted.body.key });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 2 * 86400000);
+    const response = await request(testApp.app).post('/admin/tasks/sessions.sweep/run').set(admin);
+    vi.useRealTimers();
+
+    expect(response.body).toMatchObject({ ok: true, run: { task: 'sessions.sweep', result: { removed: 1 } } });
+  });
+
+  it('returns 404 for unknown tasks', async () => {
+    const response = await request(testApp.app).post('/admin/tasks/cache.evict/run').set(admin);
+
+    expect(response.status).toBe(404);
+  });
+});
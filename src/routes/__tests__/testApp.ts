@@ -0,0 +1,155 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import type express from 'express';
+import request from 'supertest';
+import { App, type AppOptions } from '../../app';
+import { createActivationKeyV2, type KeyClaims } from '../../utils/hmac';
+
+export const KEY_ID = 'k1';
+export const KEY_SECRET = 'test-key-secret';
+export const ADMIN_KEY = 'test-admin-key';
+
+/**
+ * Fake LibreTranslate: translations come back as "[target]text", detection
+ * always answers English. Targets in `failTargets` get a 503.
+ */
+export interface FakeLibreTranslate {
+  url: string;
+  requests: { path?: string; headers: http.IncomingHttpHeaders; body: Record<string, unknown> }[];
+  failTargets: Set<string>;
+  close(): Promise<void>;
+}
+
+export async function startFakeLibreTranslate(): Promise<FakeLibreTranslate> {
+  const upstream = { requests: [], failTargets: new Set<string>() } as unknown as FakeLibreTranslate;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+      upstream.requests.push({ path: req.url, headers: req.headers, body });
+
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      if (req.url === '/translate') {
+        if (upstream.failTargets.has(body.target)) return send(503, { error: 'Unavailable' });
+        const texts: string[] = Array.isArray(body.q) ? body.q : [body.q];
+        const translated = texts.map((text) => `[${body.target}]${text}`);
+        return send(200, {
+          translatedText: Array.isArray(body.q) ? translated : translated[0],
+          detectedLanguage: texts.map(() => ({ language: 'en', confidence: 90 }))
+        });
+      }
+      if (req.url === '/detect') return send(200, [{ language: 'en', confidence: 90 }]);
+      if (req.url === '/languages') {
+        return send(200, [
+          { code: 'en', name: 'English' },
+          { code: 'fr', name: 'French' }
+        ]);
+      }
+      send(404, { error: 'Not found' });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  upstream.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  upstream.close = () => new Promise((resolve) => server.close(() => resolve()));
+  return upstream;
+}
+
+export interface TestApp {
+  app: express.Application;
+  instance: App;
+  upstream: FakeLibreTranslate;
+  /** Temporary directory for file-backed stores, removed on close */
+  dataDir: string;
+  /** Activate a fresh key and return its Authorization header */
+  activate(plan?: string, options?: ActivateOptions): Promise<{ Authorization: string }>;
+  close(): Promise<void>;
+}
+
+export interface ActivateOptions {
+  identifier?: string;
+  claims?: KeyClaims;
+  deviceFingerprint?: string;
+}
+
+export function createKey(plan: string, options: { identifier?: string; nonce?: string; claims?: KeyClaims } = {}) {
+  return createActivationKeyV2(
+    {
+      identifier: options.identifier || `user-${plan}`,
+      expiry: new Date(Date.now() + 86400000).toISOString(),
+      plan,
+      nonce: options.nonce || 'nonce-1',
+      claims: options.claims
+    },
+    KEY_ID,
+    KEY_SECRET
+  );
+}
+
+/**
+ * Build the full app against a fake LibreTranslate with the cache and the
+ * scheduler disabled, and file-backed stores in a temporary directory.
+ * `env` overrides the test defaults.
+ */
+export async function createTestApp(env: Record<string, string> = {}, options: AppOptions = {}): Promise<TestApp> {
+  const upstream = await startFakeLibreTranslate();
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'traducteur-test-'));
+
+  const settings: Record<string, string> = {
+    ACT_KEY_SECRETS: `${KEY_ID}:${KEY_SECRET}`,
+    ACT_KEY_CURRENT_KID: KEY_ID,
+    ACT_KEY_SECRET: '',
+    TRANSLATION_PROVIDERS: 'libretranslate',
+    LIBRETRANSLATE_URL: upstream.url,
+    CACHE_ENABLED: 'false',
+    SCHEDULER_ENABLED: 'false',
+    REVOCATION_STORE: 'file',
+    REVOCATION_FILE: path.join(dataDir, 'revocations.json'),
+    AUDIT_LOG: 'memory',
+    ADMIN_API_KEYS: '',
+    ADMIN_API_KEY: ADMIN_KEY,
+    ...env
+  };
+  for (const [name, value] of Object.entries(settings)) {
+    vi.stubEnv(name, value);
+  }
+
+  const instance = new App(options);
+  const app = instance.app;
+
+  return {
+    app,
+    instance,
+    upstream,
+    dataDir,
+    async activate(plan = 'premium', activateOptions: ActivateOptions = {}) {
+      const response = await request(app)
+        .post('/api/v1/activate')
+        .send({
+          key: createKey(plan, { identifier: activateOptions.identifier, claims: activateOptions.claims }),
+          deviceFingerprint: activateOptions.deviceFingerprint || 'test-device'
+        });
+      if (response.status !== 200) {
+        throw new Error(`Activation failed: ${response.status} ${JSON.stringify(response.body)}`);
+      }
+      return { Authorization: `Bearer ${response.body.accessToken}` };
+    },
+    async close() {
+      instance.shutdown();
+      vi.unstubAllEnvs();
+      await upstream.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+}
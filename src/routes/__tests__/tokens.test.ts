@@ -0,0 +1,91 @@
+import request from 'supertest';
+import { createKey, createTestApp, type TestApp } from './testApp';
+
+describe('session token routes', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const activate = async () => {
+    const response = await request(testApp.app)
+      .post('/api/v1/activate')
+      .send({ key: createKey('premium'), deviceFingerprint: 'laptop' });
+    expect(response.status).toBe(200);
+    return response.body as { accessToken: string; refreshToken: string; expiresIn: number };
+  };
+
+  it('requires a bearer token and ignores the legacy X-Identifier header', async () => {
+    await activate();
+
+    const missing = await request(testApp.app).get('/api/v1/usage').set('X-Identifier', 'user-premium');
+    const wrongScheme = await request(testApp.app).get('/api/v1/usage').set('Authorization', 'Basic abc');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(missing.body).toMatchObject({ ok: false, code: 'AUTH_REQUIRED' });
+    expect(wrongScheme.status).toBe(401);
+    expect(wrongScheme.headers['www-authenticate']).toBe('Bearer error="invalid_token"');
+    expect(wrongScheme.body.code).toBe('TOKEN_INVALID');
+  });
+
+  it('accepts X-Identifier when ALLOW_IDENTIFIER_HEADER is set', async () => {
+    await testApp.close();
+    testApp = await createTestApp({ ALLOW_IDENTIFIER_HEADER: 'true' });
+    await activate();
+
+    const response = await request(testApp.app).get('/api/v1/usage').set('X-Identifier', 'user-premium');
+
+    expect(response.status).toBe(200);
+  });
+
+  it('exchanges a refresh token for a new pair, once', async () => {
+    const tokens = await activate();
+
+    const refreshed = await request(testApp.app)
+      .post('/api/v1/token/refresh')
+      .send({ refreshToken: tokens.refreshToken });
+    const reused = await request(testApp.app).post('/api/v1/token/refresh').send({ refreshToken: tokens.refreshToken });
+
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body).toMatchObject({ ok: true, tokenType: 'Bearer', expiresIn: expect.any(Number) });
+    expect(refreshed.body.refreshToken).not.toBe(tokens.refreshToken);
+    expect(reused.status).toBe(401);
+    expect(reused.body.code).toBe('REFRESH_TOKEN_REUSED');
+
+    const usage = await request(testApp.app)
+      .get('/api/v1/usage')
+      .set('Authorization', `Bearer ${refreshed.body.accessToken}`);
+    expect(usage.status).toBe(200);
+  });
+
+  it('validates the refresh request', async () => {
+    const missing = await request(testApp.app).post('/api/v1/token/refresh').send({});
+    const invalid = await request(testApp.app).post('/api/v1/token/refresh').send({ refreshToken: 'garbage' });
+
+    expect(missing.status).toBe(400);
+    expect(invalid.status).toBe(401);
+    expect(invalid.body.code).toBe('TOKEN_INVALID');
+  });
+
+  it('ends the device session on logout', async () => {
+    const tokens = await activate();
+    const auth = { Authorization: `Bearer ${tokens.accessToken}` };
+
+    const logout = await request(testApp.app).post('/api/v1/logout').set(auth);
+    const after = await request(testApp.app).get('/api/v1/usage').set(auth);
+    const refresh = await request(testApp.app)
+      .post('/api/v1/token/refresh')
+      .send({ refreshToken: tokens.refreshToken });
+
+    expect(logout.body).toEqual({ ok: true });
+    expect(after.status).toBe(401);
+    expect(after.body.code).toBe('SESSION_ENDED');
+    expect(refresh.status).toBe(401);
+  });
+});
@@ -0,0 +1,88 @@
+import request from 'supertest';
+import MemoryTracer from '../../services/tracing/memoryTracer';
+import { createTestApp, type TestApp } from './testApp';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+
+describe('request tracing', () => {
+  let testApp: TestApp | undefined;
+  let tracer: MemoryTracer;
+
+  beforeEach(() => {
+    tracer = new MemoryTracer();
+  });
+
+  afterEach(async () => {
+    await testApp?.close();
+    testApp = undefined;
+  });
+
+  const translate = (app: TestApp, auth: Record<string, string>, headers: Record<string, string> = {}) =>
+    request(app.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .set(headers)
+      .send({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+  it('echoes the caller request id, or the trace id when there is none', async () => {
+    testApp = await createTestApp();
+
+    const withId = await request(testApp.app).get('/health').set('X-Request-Id', 'order-42');
+    const withTrace = await request(testApp.app)
+      .get('/health')
+      .set('traceparent', `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`);
+    const withInvalidId = await request(testApp.app).get('/health').set('X-Request-Id', 'not valid');
+
+    expect(withId.headers['x-request-id']).toBe('order-42');
+    expect(withTrace.headers['x-request-id']).toBe(TRACE_ID);
+    expect(withInvalidId.headers['x-request-id']).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('records request, activation and provider spans in the caller trace', async () => {
+    testApp = await createTestApp({}, { tracer });
+    const auth = await testApp.activate('basic');
+    tracer.reset();
+
+    const response = await translate(testApp, auth, { traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` });
+    await vi.waitFor(() => expect(tracer.getFinishedSpans().map((span) => span.name)).toContain('http.request'));
+
+    expect(response.status).toBe(200);
+    const spans = tracer.getFinishedSpans();
+    const root = spans.find((span) => span.name === 'http.request');
+    expect(root).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: PARENT_SPAN_ID,
+      attributes: { method: 'POST', url: '/api/v1/translate', status: 200 }
+    });
+    expect(spans.find((span) => span.name === 'activation.authenticate')).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: root?.spanId,
+      attributes: { identifier: 'user-basic' }
+    });
+    expect(spans.find((span) => span.name === 'provider.translate')).toMatchObject({
+      traceId: TRACE_ID,
+      attributes: { provider: 'libretranslate' },
+      status: 'ok'
+    });
+  });
+
+  it('propagates the trace to the provider unless turned off', async () => {
+    testApp = await createTestApp({ PROVIDER_PROPAGATE_TRACE: 'false' });
+    const plain = testApp;
+    await translate(plain, await plain.activate('basic'), { 'X-Request-Id': 'req-plain' });
+    expect(plain.upstream.requests.at(-1)?.headers).not.toHaveProperty('traceparent');
+    await plain.close();
+
+    testApp = await createTestApp();
+    await translate(testApp, await testApp.activate('basic'), {
+      'X-Request-Id': 'req-traced',
+      traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`
+    });
+
+    const headers = testApp.upstream.requests.at(-1)?.headers ?? {};
+    expect(headers['x-request-id']).toBe('req-traced');
+    expect(headers.traceparent).toMatch(new RegExp(`^00-${TRACE_ID}-[0-9a-f]{16}-01$`));
+    expect(headers.traceparent).not.toContain(PARENT_SPAN_ID);
+  });
+});
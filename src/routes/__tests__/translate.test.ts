@@ -0,0 +1,130 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('POST /api/v1/translate', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp({ MAX_TARGET_LANGUAGES: '3' });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('translates into a single target', async () => {
+    const auth = await testApp.activate('premium');
+
+    const response = await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .send({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      ok: true,
+      translatedText: '[fr]Hello',
+      detectedLanguage: 'en',
+      provider: 'libretranslate',
+      cached: false
+    });
+  });
+
+  describe('with targetLanguages', () => {
+    it('translates into every target, including targetLanguage, once each', async () => {
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr', targetLanguages: ['de', 'fr'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        ok: true,
+        sourceLanguage: 'en',
+        translations: {
+          fr: { ok: true, translatedText: '[fr]Hello', provider: 'libretranslate', cached: false },
+          de: { ok: true, translatedText: '[de]Hello', provider: 'libretranslate', cached: false }
+        }
+      });
+    });
+
+    it('detects an auto source once before fanning out', async () => {
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hello', sourceLanguage: 'auto', targetLanguages: ['fr', 'de'] });
+
+      expect(response.body).toMatchObject({ ok: true, sourceLanguage: 'en', detectedLanguage: 'en' });
+      const paths = testApp.upstream.requests.map((upstream) => upstream.path);
+      expect(paths.filter((path) => path === '/detect')).toHaveLength(1);
+      expect(
+        testApp.upstream.requests
+          .filter((upstream) => upstream.path === '/translate')
+          .map((upstream) => upstream.body.source)
+      ).toEqual(['en', 'en']);
+    });
+
+    it('reports a failed target without failing the others', async () => {
+      testApp.upstream.failTargets.add('de');
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hello', sourceLanguage: 'en', targetLanguages: ['fr', 'de'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.translations.fr.ok).toBe(true);
+      expect(response.body.translations.de).toEqual({
+        ok: false,
+        code: 'PROVIDER_UNAVAILABLE',
+        error: expect.any(String)
+      });
+    });
+
+    it('fails with the per-target results when every target fails', async () => {
+      testApp.upstream.failTargets.add('fr');
+      testApp.upstream.failTargets.add('de');
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hello', sourceLanguage: 'en', targetLanguages: ['fr', 'de'] });
+
+      expect(response.status).toBe(503);
+      expect(response.body).toMatchObject({ ok: false, code: 'PROVIDER_UNAVAILABLE' });
+      expect(Object.keys(response.body.translations)).toEqual(['fr', 'de']);
+    });
+
+    it('falls back to the default fan-out concurrency when the setting is not a positive number', async () => {
+      await testApp.close();
+      testApp = await createTestApp({ TRANSLATE_FANOUT_CONCURRENCY: 'four' });
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hello', sourceLanguage: 'en', targetLanguages: ['fr', 'de'] });
+
+      expect(response.status).toBe(200);
+      expect(Object.keys(response.body.translations)).toEqual(['fr', 'de']);
+    });
+
+    it('rejects more targets than MAX_TARGET_LANGUAGES', async () => {
+      const auth = await testApp.activate('premium');
+
+      const response = await request(testApp.app)
+        .post('/api/v1/translate')
+        .set(auth)
+        .send({ text: 'Hello', sourceLanguage: 'en', targetLanguages: ['fr', 'de', 'es', 'it'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+    });
+  });
+});
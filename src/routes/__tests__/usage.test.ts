@@ -0,0 +1,68 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('GET /api/v1/usage', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('reports month-to-date usage against the plan', async () => {
+    const auth = await testApp.activate('basic');
+    await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .send({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    const response = await request(testApp.app).get('/api/v1/usage').set(auth);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      ok: true,
+      identifier: 'user-basic',
+      plan: 'basic',
+      characters: { used: 5, limit: 100_000, remaining: 99_995 },
+      requests: 1,
+      limits: { requestsPerMinute: 10, maxTextLength: 1000, endpoints: ['translate', 'detect'] }
+    });
+    expect(response.body.period.name).toBe(new Date().toISOString().slice(0, 7));
+    expect(response.body.report).toBeUndefined();
+  });
+
+  it('adds a grouped report when asked for one', async () => {
+    const auth = await testApp.activate('premium');
+    await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .send({ text: 'Hello', sourceLanguage: 'en', targetLanguages: ['fr', 'de'] });
+
+    const response = await request(testApp.app).get('/api/v1/usage?groupBy=language').set(auth);
+
+    expect(response.body.characters).toEqual({ used: 10, limit: 2_000_000, remaining: 1_999_990 });
+    expect(response.body.report).toMatchObject({
+      groupBy: 'language',
+      characters: 10,
+      requests: 2,
+      groups: [
+        { key: 'de', characters: 5, cachedCharacters: 0, requests: 1 },
+        { key: 'fr', characters: 5, cachedCharacters: 0, requests: 1 }
+      ]
+    });
+  });
+
+  it('validates the report parameters', async () => {
+    const auth = await testApp.activate('premium');
+
+    const badDate = await request(testApp.app).get('/api/v1/usage?from=yesterday').set(auth);
+    const badGroup = await request(testApp.app).get('/api/v1/usage?groupBy=provider').set(auth);
+
+    expect(badDate.status).toBe(400);
+    expect(badGroup.status).toBe(400);
+    expect(badGroup.body.code).toBe('VALIDATION_FAILED');
+  });
+});
@@ -0,0 +1,76 @@
+import request from 'supertest';
+import { createTestApp, type TestApp } from './testApp';
+
+describe('API versioning and errors', () => {
+  let testApp: TestApp | undefined;
+
+  afterEach(async () => {
+    await testApp?.close();
+    testApp = undefined;
+  });
+
+  it('serves the unversioned paths as deprecated aliases of /api/v1', async () => {
+    testApp = await createTestApp({ UNVERSIONED_API_SUNSET: '2026-12-31' });
+    const auth = await testApp.activate('basic');
+
+    const alias = await request(testApp.app)
+      .post('/api/translate')
+      .set(auth)
+      .send({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' });
+    const versioned = await request(testApp.app)
+      .post('/api/v1/translate')
+      .set(auth)
+      .send({ text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(alias.body).toEqual(versioned.body);
+    expect(alias.headers).toMatchObject({
+      deprecation: 'true',
+      sunset: 'Thu, 31 Dec 2026 00:00:00 GMT',
+      link: '</api/v1/translate>; rel="successor-version"'
+    });
+    expect(versioned.headers).not.toHaveProperty('deprecation');
+  });
+
+  it('does not mark unknown /api/v1 paths as deprecated', async () => {
+    testApp = await createTestApp();
+
+    const response = await request(testApp.app).get('/api/v1/nothing-here');
+
+    expect(response.status).toBe(404);
+    expect(response.headers).not.toHaveProperty('deprecation');
+    expect(response.body).toMatchObject({
+      ok: false,
+      code: 'NOT_FOUND',
+      error: 'Endpoint not found',
+      requestId: response.headers['x-request-id'],
+      requestedUrl: '/api/v1/nothing-here'
+    });
+  });
+
+  it('answers every error with a code, a message and the request id', async () => {
+    testApp = await createTestApp();
+
+    const response = await request(testApp.app)
+      .post('/api/v1/activate')
+      .set('Content-Type', 'application/json')
+      .set('X-Request-Id', 'req-123')
+      .send('{"key":');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      ok: false,
+      code: 'VALIDATION_FAILED',
+      error: 'Request body is not valid JSON',
+      requestId: 'req-123'
+    });
+  });
+
+  it('maps activation key errors to their status', async () => {
+    testApp = await createTestApp();
+
+    const response = await request(testApp.app).post('/api/v1/activate').send({ key: 'v2.k1.not-a-key' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ ok: false, code: expect.stringMatching(/^KEY_/) });
+  });
+});
@@ -1,49 +1,77 @@
-import { Router, Request, Response } from 'express';
-import ActivationService from '../services/activationService';
+import { type NextFunction, type Request, type Response, Router } from 'express';
+import { validate } from '../middleware/validate';
+import { type ActivateRequest, activateRequest, activateResponse, legacyActivateResponse } from '../schemas/activation';
+import { z } from '../schemas/common';
+import type ActivationService from '../services/activationService';
+import { toApiError } from '../utils/errors';
 
-interface ActivateRequest {
-  key: string;
+/**
+ * Whether to answer in the pre-envelope `{success, userId, expiresAt, message}` shape:
+ * per request with `X-Response-Compat: legacy` (or `standard`), else the server default
+ */
+function wantsLegacyResponse(req: Request, legacyByDefault: boolean): boolean {
+  const compat = (req.headers['x-response-compat'] as string | undefined)?.toLowerCase();
+  if (compat === 'legacy') return true;
+  if (compat === 'standard') return false;
+  return legacyByDefault;
 }
 
-function createActivateRouter(activationService: ActivationService): Router {
+/**
+ * Rename the standard activation envelope to the legacy client shape
+ */
+function toLegacyResponse(body: Record<string, unknown>): Record<string, unknown> {
+  const { ok, identifier, plan, expiry, error, ...rest } = body;
+  return ok
+    ? { success: true, userId: identifier, plan, expiresAt: expiry, message: 'Activation successful', ...rest }
+    : { success: false, message: error, ...rest };
+}
+
+/**
+ * @param legacyByDefault Answer every client in the legacy shape unless it asks for the standard one
+ */
+function createActivateRouter(activationService: ActivationService, legacyByDefault = false): Router {
   const router = Router();
 
-  router.post('/activate', (req: Request, res: Response) => {
-    try {
-      const { key }: ActivateRequest = req.body;
-
-      if (!key) {
-        return res.status(400).json({ 
-          ok: false, 
-          reason: 'Missing activation key' 
-        });
-      }
-
-      const result = activationService.activate(key);
-      
-      if (result.ok) {
-        res.json({
-          ok: true,
-          identifier: result.identifier,
-          plan: result.plan,
-          expiry: result.expiry
-        });
-      } else {
-        res.status(400).json({
-          ok: false,
-          reason: result.reason
-        });
-      }
-    } catch (error) {
-      console.error('Activation error:', error);
-      res.status(500).json({ 
-        ok: false, 
-        reason: 'Internal server error' 
-      });
+  router.post(
+    '/activate',
+    validate({ body: activateRequest, response: z.union([activateResponse, legacyActivateResponse]) }),
+    async (req: Request, res: Response) => {
+      const { key, deviceFingerprint, deviceName }: ActivateRequest = req.body;
+
+      const result = await activationService.activate(key, { fingerprint: deviceFingerprint, name: deviceName });
+      req.log.info({ identifier: result.identifier, plan: result.plan, deviceId: result.deviceId }, 'Activated');
+
+      const body = {
+        ok: true,
+        identifier: result.identifier,
+        plan: result.plan,
+        expiry: result.expiry,
+        tokenType: result.tokenType,
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        expiresIn: result.expiresIn,
+        claims: result.claims,
+        deviceId: result.deviceId,
+        seats: result.seats
+      };
+      res.json(wantsLegacyResponse(req, legacyByDefault) ? toLegacyResponse(body) : body);
+    }
+  );
+
+  // Legacy clients keep their error shape; everyone else gets the global error envelope
+  router.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (!wantsLegacyResponse(req, legacyByDefault)) return next(err);
+
+    const error = toApiError(err);
+    if (error.code === 'INTERNAL_ERROR') {
+      req.log.error({ err }, 'Activation error');
     }
+    res
+      .status(error.status)
+      .json(toLegacyResponse({ ok: false, code: error.code, error: error.message, ...error.details }));
   });
 
   return router;
 }
 
-export default createActivateRouter;
\ No newline at end of file
+export default createActivateRouter;
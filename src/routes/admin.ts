@@ -0,0 +1,332 @@
+import { type Request, type Response, Router } from 'express';
+import { setAuditAction } from '../middleware/audit';
+import type ActivationService from '../services/activationService';
+import type { AuditLog } from '../services/audit/auditLog';
+import type { UsageRecord } from '../services/ledger/usageLedger';
+import { getPlan } from '../services/plans';
+import type { RevocationType } from '../services/revocation/revocationStore';
+import type Scheduler from '../services/scheduler';
+import type TranslationCache from '../services/translationCache';
+import type UsageService from '../services/usageService';
+import { NotFoundError, ServiceUnavailableError, ValidationError } from '../utils/errors';
+import type { KeyClaims } from '../utils/hmac';
+
+export interface AdminRouterDeps {
+  translationCache?: TranslationCache;
+  usageService: UsageService;
+  activationService: ActivationService;
+  auditLog: AuditLog;
+  scheduler: Scheduler;
+}
+
+const MAX_KEY_VALIDITY_DAYS = 3650;
+
+const REVOCATION_TYPES: RevocationType[] = ['identifier', 'nonce'];
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp',
+  'identifier',
+  'plan',
+  'operation',
+  'provider',
+  'sourceLanguage',
+  'targetLanguage',
+  'characters',
+  'cached'
+];
+
+function toCsvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Validate a key minting request body
+ */
+function parseMintRequest(
+  body: any
+): { identifier: string; plan: string; expiry: string; claims?: KeyClaims } | { error: string } {
+  const { identifier, plan, validDays, expiry, claims } = body || {};
+
+  if (typeof identifier !== 'string' || !identifier.trim() || typeof plan !== 'string') {
+    return { error: 'Missing required fields: identifier, plan' };
+  }
+  if (!getPlan(plan)) {
+    return { error: `Unknown plan "${plan}"` };
+  }
+
+  let expiryDate: Date;
+  if (expiry !== undefined) {
+    expiryDate = new Date(expiry);
+    if (typeof expiry !== 'string' || Number.isNaN(expiryDate.getTime()) || expiryDate <= new Date()) {
+      return { error: 'expiry must be a future ISO date' };
+    }
+  } else {
+    const days = validDays ?? 30;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_KEY_VALIDITY_DAYS) {
+      return { error: `validDays must be an integer from 1 to ${MAX_KEY_VALIDITY_DAYS}` };
+    }
+    expiryDate = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  if (claims !== undefined) {
+    const { seats, features } = claims || {};
+    if (seats !== undefined && (!Number.isInteger(seats) || seats < 1)) {
+      return { error: 'claims.seats must be a positive integer' };
+    }
+    if (
+      features !== undefined &&
+      (!Array.isArray(features) || !features.every((feature) => typeof feature === 'string'))
+    ) {
+      return { error: 'claims.features must be an array of strings' };
+    }
+  }
+
+  return {
+    identifier: identifier.trim(),
+    plan: plan.toLowerCase(),
+    expiry: expiryDate.toISOString(),
+    claims: claims ? { seats: claims.seats, features: claims.features } : undefined
+  };
+}
+
+function createAdminRouter({
+  translationCache,
+  usageService,
+  activationService,
+  auditLog,
+  scheduler
+}: AdminRouterDeps): Router {
+  const router = Router();
+
+  // Maintenance tasks with their intervals and last runs
+  router.get('/tasks', (_req: Request, res: Response) => {
+    setAuditAction(res, 'tasks.list');
+    res.json({ ok: true, tasks: scheduler.list() });
+  });
+
+  // Run every maintenance task now (for cron triggers where timers do not survive)
+  router.post('/tasks/run', async (_req: Request, res: Response) => {
+    setAuditAction(res, 'tasks.run', 'all');
+
+    const runs = await scheduler.runAll();
+    setAuditAction(res, 'tasks.run', 'all', { failed: runs.filter((run) => !run.ok).map((run) => run.task) });
+    res.status(runs.every((run) => run.ok) ? 200 : 500).json({ ok: runs.every((run) => run.ok), runs });
+  });
+
+  // Run one maintenance task now
+  router.post('/tasks/:name/run', async (req: Request, res: Response) => {
+    setAuditAction(res, 'tasks.run', req.params.name);
+
+    if (!scheduler.has(req.params.name)) {
+      throw new NotFoundError('Task not found');
+    }
+
+    const run = await scheduler.run(req.params.name);
+    res.status(run.ok ? 200 : 500).json({ ok: run.ok, run });
+  });
+
+  // Mint a v2 activation key
+  router.post('/keys', (req: Request, res: Response) => {
+    const params = parseMintRequest(req.body);
+    setAuditAction(res, 'keys.mint', 'identifier' in params ? params.identifier : undefined);
+
+    if ('error' in params) {
+      throw new ValidationError(params.error);
+    }
+
+    if (!activationService.signingKey()) {
+      throw new ServiceUnavailableError('No v2 signing key configured (ACT_KEY_SECRETS)');
+    }
+
+    const minted = activationService.mintKey(params);
+    // The key itself stays out of the audit trail; its nonce identifies it
+    setAuditAction(res, 'keys.mint', minted.identifier, {
+      plan: minted.plan,
+      expiry: minted.expiry,
+      nonce: minted.nonce,
+      kid: minted.kid,
+      claims: minted.claims
+    });
+    req.log.info({ identifier: minted.identifier, plan: minted.plan, kid: minted.kid }, 'Minted activation key');
+    res.status(201).json({ ok: true, ...minted });
+  });
+
+  // Active sessions
+  router.get('/sessions', async (_req: Request, res: Response) => {
+    setAuditAction(res, 'sessions.list');
+
+    const sessions = await activationService.listSessions();
+    res.json({ ok: true, count: sessions.length, sessions });
+  });
+
+  // Remove expired sessions now instead of waiting for the next lookup
+  router.post('/sessions/cleanup', async (req: Request, res: Response) => {
+    setAuditAction(res, 'sessions.cleanup');
+
+    const removed = await activationService.cleanExpiredSessions();
+    setAuditAction(res, 'sessions.cleanup', undefined, { removed });
+    req.log.info({ removed }, 'Expired sessions cleaned');
+    res.json({ ok: true, removed });
+  });
+
+  // One session with its devices, seat usage and revocation state
+  router.get('/sessions/:identifier', async (req: Request, res: Response) => {
+    setAuditAction(res, 'sessions.inspect', req.params.identifier);
+
+    const result = await activationService.describeSession(req.params.identifier);
+    if (!result) {
+      throw new NotFoundError('Session not found');
+    }
+    res.json({ ok: true, ...result });
+  });
+
+  // Force a session (or one device with ?deviceId=) to end; its tokens stop working
+  router.delete('/sessions/:identifier', async (req: Request, res: Response) => {
+    const deviceId = typeof req.query.deviceId === 'string' && req.query.deviceId ? req.query.deviceId : undefined;
+    setAuditAction(res, 'sessions.end', req.params.identifier, deviceId ? { deviceId } : undefined);
+
+    if (!(await activationService.endSession(req.params.identifier, deviceId))) {
+      throw new NotFoundError(deviceId ? 'Device not found' : 'Session not found');
+    }
+
+    req.log.info({ identifier: req.params.identifier, deviceId }, 'Ended session');
+    res.json({ ok: true });
+  });
+
+  // Audit trail, newest first (?action=&actor=&target=&from=&to=&limit=)
+  router.get('/audit', async (req: Request, res: Response) => {
+    setAuditAction(res, 'audit.read');
+    const { action, actor, target, from, to } = req.query;
+    const limit = parseInt((req.query.limit as string) || '100');
+
+    const bounds = [from, to].filter((value) => value !== undefined);
+    if (bounds.some((value) => typeof value !== 'string' || Number.isNaN(new Date(value).getTime()))) {
+      throw new ValidationError('from and to must be ISO dates');
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError('limit must be a positive integer');
+    }
+
+    const entries = await auditLog.query({
+      action: typeof action === 'string' && action ? action : undefined,
+      actor: typeof actor === 'string' && actor ? actor : undefined,
+      target: typeof target === 'string' && target ? target : undefined,
+      from: from ? new Date(from as string).toISOString() : undefined,
+      to: to ? new Date(to as string).toISOString() : undefined
+    });
+    res.json({ ok: true, count: entries.length, entries: entries.reverse().slice(0, limit) });
+  });
+
+  // Translation cache statistics
+  router.get('/cache', async (_req: Request, res: Response) => {
+    setAuditAction(res, 'cache.stats');
+
+    if (!translationCache) {
+      throw new NotFoundError('Translation cache is disabled');
+    }
+
+    res.json({ ok: true, cache: await translationCache.getStats() });
+  });
+
+  // Purge every cached translation
+  router.delete('/cache', async (req: Request, res: Response) => {
+    setAuditAction(res, 'cache.purge');
+
+    if (!translationCache) {
+      throw new NotFoundError('Translation cache is disabled');
+    }
+
+    const removed = await translationCache.purge();
+    setAuditAction(res, 'cache.purge', undefined, { removed });
+    req.log.info({ removed }, 'Translation cache purged');
+    res.json({ ok: true, removed });
+  });
+
+  // Billing export of raw usage records (?identifier=&from=&to=&format=csv|json)
+  router.get('/usage/export', async (req: Request, res: Response) => {
+    const { identifier, from, to } = req.query;
+    const format = (req.query.format as string) || 'json';
+    setAuditAction(res, 'usage.export', typeof identifier === 'string' && identifier ? identifier : undefined, {
+      from,
+      to,
+      format
+    });
+
+    if (format !== 'csv' && format !== 'json') {
+      throw new ValidationError('format must be csv or json');
+    }
+
+    const bounds = [from, to].filter((value) => value !== undefined);
+    if (bounds.some((value) => typeof value !== 'string' || Number.isNaN(new Date(value).getTime()))) {
+      throw new ValidationError('from and to must be ISO dates');
+    }
+
+    const records = await usageService.exportRecords({
+      identifier: typeof identifier === 'string' && identifier ? identifier : undefined,
+      from: from ? new Date(from as string).toISOString() : undefined,
+      to: to ? new Date(to as string).toISOString() : undefined
+    });
+    const filename = `usage-${typeof identifier === 'string' && identifier ? identifier.replace(/[^\w.-]+/g, '_') : 'all'}`;
+
+    if (format === 'csv') {
+      const lines = [
+        CSV_COLUMNS.join(','),
+        ...records.map((record) => CSV_COLUMNS.map((column) => toCsvField(record[column])).join(','))
+      ];
+      res.attachment(`${filename}.csv`);
+      res.type('text/csv; charset=utf-8');
+      return res.send(`${lines.join('\r\n')}\r\n`);
+    }
+
+    res.attachment(`${filename}.json`);
+    res.json({ ok: true, count: records.length, records });
+  });
+
+  // Revocation list
+  router.get('/revocations', async (_req: Request, res: Response) => {
+    setAuditAction(res, 'revocations.list');
+
+    res.json({ ok: true, revocations: await activationService.listRevocations() });
+  });
+
+  // Revoke an identifier or a single key by nonce; matching sessions end immediately
+  router.post('/revocations', async (req: Request, res: Response) => {
+    const { type, value, reason } = req.body || {};
+    setAuditAction(res, 'revocations.add', typeof value === 'string' ? value.trim() : undefined, { type, reason });
+
+    if (!REVOCATION_TYPES.includes(type) || typeof value !== 'string' || !value.trim()) {
+      throw new ValidationError(`Missing required fields: type (${REVOCATION_TYPES.join(' or ')}), value`);
+    }
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new ValidationError('reason must be a string');
+    }
+
+    const result = await activationService.revoke(type, value.trim(), reason);
+    setAuditAction(res, 'revocations.add', value.trim(), { type, reason, sessionsEnded: result.sessionsEnded });
+    req.log.info({ type, value: value.trim(), sessionsEnded: result.sessionsEnded }, 'Revoked');
+    res.status(201).json({ ok: true, ...result });
+  });
+
+  // Lift a revocation
+  router.delete('/revocations/:type/:value', async (req: Request, res: Response) => {
+    const type = req.params.type as RevocationType;
+    setAuditAction(res, 'revocations.remove', req.params.value, { type });
+
+    if (!REVOCATION_TYPES.includes(type)) {
+      throw new ValidationError(`type must be ${REVOCATION_TYPES.join(' or ')}`);
+    }
+
+    if (!(await activationService.unrevoke(type, req.params.value))) {
+      throw new NotFoundError('Revocation not found');
+    }
+
+    req.log.info({ type, value: req.params.value }, 'Unrevoked');
+    res.json({ ok: true });
+  });
+
+  return router;
+}
+
+export default createAdminRouter;
@@ -0,0 +1,124 @@
+import { type Request, type Response, Router } from 'express';
+import { getAccount, requireActivation } from '../middleware/auth';
+import { enforcePlan } from '../middleware/entitlements';
+import type ActivationService from '../services/activationService';
+import type TranslateService from '../services/translationService';
+import type UsageService from '../services/usageService';
+import { type ErrorCode, ValidationError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+}
+
+type BatchItemInput = string | { id?: string | number; text?: unknown };
+
+interface BatchTranslateRequest {
+  texts: BatchItemInput[];
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+interface BatchItemResult {
+  id: string | number;
+  ok: boolean;
+  translatedText?: string;
+  detectedLanguage?: string;
+  cached?: boolean;
+  code?: ErrorCode;
+  error?: string;
+}
+
+const MAX_ITEM_LENGTH = 5000;
+
+function createBatchRouter(
+  translateService: TranslateService,
+  activationService: ActivationService,
+  usageService: UsageService
+): Router {
+  const router = Router();
+  const maxItems = parseInt(process.env.BATCH_MAX_ITEMS || '100');
+  const maxTotalChars = parseInt(process.env.BATCH_MAX_CHARS || '30000');
+
+  // Batch translation endpoint
+  router.post(
+    '/translate/batch',
+    requireActivation(activationService),
+    enforcePlan(usageService, 'batch'),
+    async (req: AuthRequest, res: Response) => {
+      const { texts, sourceLanguage, targetLanguage }: BatchTranslateRequest = req.body || {};
+
+      // Validate input
+      if (!Array.isArray(texts) || !sourceLanguage || !targetLanguage) {
+        throw new ValidationError('Missing required fields: texts (array), sourceLanguage, targetLanguage');
+      }
+
+      if (typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string') {
+        throw new ValidationError('Source and target must be valid language codes', 'INVALID_LANGUAGE');
+      }
+
+      if (texts.length === 0 || texts.length > maxItems) {
+        throw new ValidationError(`Batch must contain between 1 and ${maxItems} items`);
+      }
+
+      // Normalize items: bare strings get their index as id
+      const items = texts.map((item, index) =>
+        typeof item === 'string'
+          ? { id: index as string | number, text: item as unknown }
+          : { id: item?.id ?? index, text: item?.text }
+      );
+
+      const totalChars = items.reduce((sum, item) => sum + (typeof item.text === 'string' ? item.text.length : 0), 0);
+      if (totalChars > maxTotalChars) {
+        throw new ValidationError(
+          `Batch is too long. Maximum total length is ${maxTotalChars} characters`,
+          'TEXT_TOO_LONG'
+        );
+      }
+
+      // Per-item validation; invalid items are reported without failing the batch
+      const results: BatchItemResult[] = items.map((item) => ({ id: item.id, ok: false }));
+      const valid: number[] = [];
+
+      items.forEach((item, index) => {
+        if (typeof item.text !== 'string' || item.text.trim().length === 0) {
+          results[index].code = 'VALIDATION_FAILED';
+          results[index].error = 'Text must be a non-empty string';
+        } else if (item.text.length > MAX_ITEM_LENGTH) {
+          results[index].code = 'TEXT_TOO_LONG';
+          results[index].error = `Text is too long. Maximum length is ${MAX_ITEM_LENGTH} characters`;
+        } else {
+          valid.push(index);
+        }
+      });
+
+      let provider: string | undefined;
+
+      if (valid.length > 0) {
+        // A provider failure fails the whole batch (TranslationError)
+        const result = await translateService.translateBatch({
+          texts: valid.map((index) => items[index].text as string),
+          sourceLanguage,
+          targetLanguage,
+          account: getAccount(req)
+        });
+
+        provider = result.provider;
+        result.translations.forEach((translation, j) => {
+          results[valid[j]] = { id: items[valid[j]].id, ok: true, ...translation };
+        });
+      }
+
+      res.json({
+        ok: true,
+        provider,
+        succeeded: valid.length,
+        failed: items.length - valid.length,
+        results
+      });
+    }
+  );
+
+  return router;
+}
+
+export default createBatchRouter;
@@ -0,0 +1,45 @@
+import { type Request, type Response, Router } from 'express';
+import { requireActivation } from '../middleware/auth';
+import type ActivationService from '../services/activationService';
+import { NotFoundError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+  deviceId?: string;
+}
+
+function createDeviceRouter(activationService: ActivationService): Router {
+  const router = Router();
+
+  router.use('/devices', requireActivation(activationService));
+
+  // Devices the caller's activation is in use on, and the seats they take
+  router.get('/devices', async (req: AuthRequest, res: Response) => {
+    const result = await activationService.listDevices(req.identifier as string);
+    const devices = (result?.devices || []).map((device) => ({
+      ...device,
+      current: device.deviceId === req.deviceId
+    }));
+
+    res.json({
+      ok: true,
+      devices,
+      seats: result?.seats || { used: 0, limit: null }
+    });
+  });
+
+  // Deactivate a device: its tokens stop working and its seat is freed
+  router.delete('/devices/:deviceId', async (req: AuthRequest, res: Response) => {
+    const removed = await activationService.deactivateDevice(req.identifier as string, req.params.deviceId);
+
+    if (!removed) {
+      throw new NotFoundError('Device not found');
+    }
+
+    res.json({ ok: true, deviceId: req.params.deviceId });
+  });
+
+  return router;
+}
+
+export default createDeviceRouter;
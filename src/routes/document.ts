@@ -0,0 +1,176 @@
+import express, { type Request, type Response, Router } from 'express';
+import { getAccount, requireActivation } from '../middleware/auth';
+import { enforcePlan } from '../middleware/entitlements';
+import type ActivationService from '../services/activationService';
+import type TranslateService from '../services/translationService';
+import type UsageService from '../services/usageService';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { ApiError, type ErrorCode, ValidationError } from '../utils/errors';
+import { chunkText } from '../utils/textChunker';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+}
+
+interface DocumentTranslateRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+type StreamEvent =
+  | { type: 'start'; chunks: number; characters: number }
+  | {
+      type: 'progress';
+      index: number;
+      completed: number;
+      total: number;
+      translatedText: string;
+      provider?: string;
+      cached?: boolean;
+    }
+  | { type: 'done'; translatedText: string; chunks: number }
+  | { type: 'error'; index?: number; code: ErrorCode; error: string };
+
+/**
+ * A chunk that could not be translated; `cause` is the translation error
+ */
+class ChunkTranslationError extends Error {
+  public readonly chunkIndex: number;
+  public readonly cause: unknown;
+
+  constructor(chunkIndex: number, cause: unknown) {
+    super(`Chunk ${chunkIndex} failed: ${(cause as Error)?.message}`);
+    this.name = 'ChunkTranslationError';
+    this.chunkIndex = chunkIndex;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Write events as Server-Sent Events or newline-delimited JSON
+ */
+function createEventWriter(req: Request, res: Response): (event: StreamEvent) => void {
+  const useSse = (req.get('Accept') || '').includes('text/event-stream');
+
+  res.status(200);
+  res.setHeader('Content-Type', useSse ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so progress reaches the client immediately
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  return (event) => {
+    if (res.writableEnded) return;
+    const payload = JSON.stringify(event);
+    res.write(useSse ? `event: ${event.type}\ndata: ${payload}\n\n` : `${payload}\n`);
+  };
+}
+
+function createDocumentRouter(
+  translateService: TranslateService,
+  activationService: ActivationService,
+  usageService: UsageService
+): Router {
+  const router = Router();
+  const maxDocumentBytes = process.env.DOCUMENT_MAX_BYTES || '50mb';
+  const chunkChars = parseInt(process.env.DOCUMENT_CHUNK_CHARS || '4500');
+  const concurrency = parseInt(process.env.DOCUMENT_CONCURRENCY || '4');
+
+  // Long document translation, streamed back chunk by chunk
+  router.post(
+    '/translate/document',
+    requireActivation(activationService),
+    // Raw text bodies bypass the JSON size limit; languages then come from the query string
+    express.text({ type: 'text/plain', limit: maxDocumentBytes }),
+    enforcePlan(usageService, 'document'),
+    async (req: AuthRequest, res: Response) => {
+      const isRawText = typeof req.body === 'string';
+      const { text, sourceLanguage, targetLanguage }: DocumentTranslateRequest = isRawText
+        ? {
+            text: req.body,
+            sourceLanguage: String(req.query.sourceLanguage || ''),
+            targetLanguage: String(req.query.targetLanguage || '')
+          }
+        : req.body || {};
+
+      // Validate input before switching to a streaming response
+      if (!text || !sourceLanguage || !targetLanguage) {
+        throw new ValidationError('Missing required fields: text, sourceLanguage, targetLanguage');
+      }
+
+      if (typeof text !== 'string' || typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string') {
+        throw new ValidationError('Text and language codes must be strings');
+      }
+
+      const chunks = chunkText(text, chunkChars);
+      const pending = chunks.map((_chunk, index) => index).filter((index) => chunks[index].text.length > 0);
+      const translated = chunks.map((chunk) => chunk.text);
+
+      let aborted = false;
+      res.on('close', () => {
+        aborted = !res.writableFinished;
+      });
+
+      const send = createEventWriter(req, res);
+      send({ type: 'start', chunks: pending.length, characters: text.length });
+
+      try {
+        let completed = 0;
+
+        await mapWithConcurrency(pending, concurrency, async (index) => {
+          if (aborted) return;
+
+          const result = await translateService
+            .translation({
+              text: chunks[index].text,
+              sourceLanguage,
+              targetLanguage,
+              account: getAccount(req)
+            })
+            .catch((error) => {
+              throw new ChunkTranslationError(index, error);
+            });
+
+          translated[index] = result.translatedText;
+          completed++;
+          send({
+            type: 'progress',
+            index,
+            completed,
+            total: pending.length,
+            translatedText: result.translatedText,
+            provider: result.provider,
+            cached: result.cached
+          });
+        });
+
+        if (aborted) return;
+
+        // Reassemble in document order with the original whitespace
+        const translatedText = chunks
+          .map((chunk, index) => chunk.leading + translated[index] + chunk.trailing)
+          .join('');
+        send({ type: 'done', translatedText, chunks: pending.length });
+      } catch (error) {
+        // Headers are already sent: the error goes into the stream, not the error handler.
+        // mapWithConcurrency starts no further chunks once one has failed.
+        const cause = error instanceof ChunkTranslationError ? error.cause : error;
+        req.log.error({ err: cause }, 'Document translation error');
+        send({
+          type: 'error',
+          index: error instanceof ChunkTranslationError ? error.chunkIndex : undefined,
+          code: cause instanceof ApiError ? cause.code : 'INTERNAL_ERROR',
+          error: cause instanceof ApiError ? cause.message : 'Internal server error'
+        });
+      } finally {
+        res.end();
+      }
+    }
+  );
+
+  return router;
+}
+
+export default createDocumentRouter;
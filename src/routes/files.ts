@@ -0,0 +1,106 @@
+import express, { type Request, type Response, Router } from 'express';
+import { getAccount, requireActivation } from '../middleware/auth';
+import { enforcePlan } from '../middleware/entitlements';
+import type ActivationService from '../services/activationService';
+import type FileTranslationService from '../services/fileTranslationService';
+import { isValidLanguageCode } from '../services/translationService';
+import type UsageService from '../services/usageService';
+import { ValidationError } from '../utils/errors';
+import { FileFormatError, resolveFileFormat, SUPPORTED_FILE_FORMATS } from '../utils/formats';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+}
+
+interface FileTranslateRequest {
+  content: string;
+  format?: string;
+  filename?: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+function createFileRouter(
+  fileTranslationService: FileTranslationService,
+  activationService: ActivationService,
+  usageService: UsageService
+): Router {
+  const router = Router();
+  const maxFileBytes = process.env.FILE_MAX_BYTES || '5mb';
+
+  // Structured file translation (JSON i18n, gettext, XLIFF, subtitles)
+  router.post(
+    '/translate/file',
+    requireActivation(activationService),
+    // Raw uploads: format, filename and languages come from the query string
+    express.text({ type: (req) => !req.headers['content-type']?.includes('json'), limit: maxFileBytes }),
+    enforcePlan(usageService, 'file'),
+    async (req: AuthRequest, res: Response) => {
+      const isRaw = typeof req.body === 'string';
+      const { content, format, filename, sourceLanguage, targetLanguage }: FileTranslateRequest = isRaw
+        ? {
+            content: req.body,
+            format: req.query.format as string | undefined,
+            filename: req.query.filename as string | undefined,
+            sourceLanguage: String(req.query.sourceLanguage || ''),
+            targetLanguage: String(req.query.targetLanguage || '')
+          }
+        : req.body || {};
+
+      // Validate input
+      if (!content || !sourceLanguage || !targetLanguage) {
+        throw new ValidationError('Missing required fields: content, sourceLanguage, targetLanguage');
+      }
+
+      if (typeof content !== 'string' || typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string') {
+        throw new ValidationError('Content and language codes must be strings');
+      }
+
+      // Checked up front (the codes are also written into the translated file)
+      if (!isValidLanguageCode(sourceLanguage) || targetLanguage === 'auto' || !isValidLanguageCode(targetLanguage)) {
+        throw new ValidationError(
+          'Invalid language code. Please use ISO 639-1 language codes (e.g., en, fr, es, de)',
+          'INVALID_LANGUAGE'
+        );
+      }
+
+      const handler = resolveFileFormat(
+        typeof format === 'string' ? format : undefined,
+        typeof filename === 'string' ? filename : undefined
+      );
+      if (!handler) {
+        throw new ValidationError(
+          `Unknown file format. Set "format" or a filename with a known extension (${SUPPORTED_FILE_FORMATS.join(', ')})`
+        );
+      }
+
+      const result = await fileTranslationService
+        .translateFile({
+          content,
+          format: handler,
+          sourceLanguage,
+          targetLanguage,
+          account: getAccount(req)
+        })
+        .catch((error) => {
+          // A file that cannot be parsed is a client error
+          throw error instanceof FileFormatError ? new ValidationError(error.message) : error;
+        });
+
+      if (typeof filename === 'string' && filename) {
+        res.attachment(filename.replace(/[^\w.-]+/g, '_'));
+      }
+      // After attachment(), which would otherwise guess the type from the extension
+      res.type(handler.contentType);
+      res.setHeader('X-Translated-Units', String(result.units));
+      if (result.provider) {
+        res.setHeader('X-Translation-Provider', result.provider);
+      }
+      res.send(result.content);
+    }
+  );
+
+  return router;
+}
+
+export default createFileRouter;
@@ -0,0 +1,66 @@
+import { type Request, type Response, Router } from 'express';
+import { requireActivation } from '../middleware/auth';
+import { enforcePlan } from '../middleware/entitlements';
+import type ActivationService from '../services/activationService';
+import type GlossaryService from '../services/glossaryService';
+import type { GlossaryInput } from '../services/glossaryService';
+import type UsageService from '../services/usageService';
+import { NotFoundError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+}
+
+function createGlossaryRouter(
+  glossaryService: GlossaryService,
+  activationService: ActivationService,
+  usageService: UsageService
+): Router {
+  const router = Router();
+
+  router.use('/glossaries', requireActivation(activationService), enforcePlan(usageService, 'glossaries'));
+
+  // List the caller's glossaries
+  router.get('/glossaries', (req: AuthRequest, res: Response) => {
+    res.json({
+      ok: true,
+      glossaries: glossaryService.list(req.identifier as string)
+    });
+  });
+
+  // Create a glossary
+  router.post('/glossaries', async (req: AuthRequest, res: Response) => {
+    const glossary = await glossaryService.create(req.identifier as string, req.body as GlossaryInput);
+
+    res.status(201).json({ ok: true, glossary });
+  });
+
+  // Get a single glossary
+  router.get('/glossaries/:id', (req: AuthRequest, res: Response) => {
+    const glossary = glossaryService.get(req.identifier as string, req.params.id);
+
+    if (!glossary) {
+      throw new NotFoundError('Glossary not found');
+    }
+
+    res.json({ ok: true, glossary });
+  });
+
+  // Replace a glossary's name and entries
+  router.put('/glossaries/:id', async (req: AuthRequest, res: Response) => {
+    const glossary = await glossaryService.update(req.identifier as string, req.params.id, req.body as GlossaryInput);
+
+    res.json({ ok: true, glossary });
+  });
+
+  // Delete a glossary
+  router.delete('/glossaries/:id', async (req: AuthRequest, res: Response) => {
+    await glossaryService.delete(req.identifier as string, req.params.id);
+
+    res.json({ ok: true });
+  });
+
+  return router;
+}
+
+export default createGlossaryRouter;
@@ -1,145 +1,62 @@
 // routes/index.ts
-import { Router, Request, Response } from 'express';
-import ActivationService from '../services/activationService';
-import TranslateService from '../services/translationService';
+import { Router } from 'express';
+import type ActivationService from '../services/activationService';
+import type FileTranslationService from '../services/fileTranslationService';
+import type GlossaryService from '../services/glossaryService';
+import type JobService from '../services/jobService';
+import type TranslateService from '../services/translationService';
+import type UsageService from '../services/usageService';
+import createActivateRouter from './activate';
+import createBatchRouter from './batch';
+import createDeviceRouter from './devices';
+import createDocumentRouter from './document';
+import createFileRouter from './files';
+import createGlossaryRouter from './glossaries';
+import createJobRouter from './jobs';
+import createTokenRouter from './tokens';
+import createTranslateRouter from './translate';
+import createUsageRouter from './usage';
 
-interface ActivateRequest {
-  key: string;
-}
+function createApiRoutes(
+  activationService: ActivationService,
+  translateService: TranslateService,
+  glossaryService: GlossaryService,
+  jobService: JobService,
+  fileTranslationService: FileTranslationService,
+  usageService: UsageService,
+  options: { legacyActivationResponse?: boolean } = {}
+): Router {
+  const router = Router();
 
-interface ActivationResponse {
-  success: boolean;
-  userId?: string;
-  message?: string;
-  expiresAt?: string;
-}
+  // Activation
+  router.use(createActivateRouter(activationService, options.legacyActivationResponse));
 
-function createApiRoutes(activationService: ActivationService, translateService: TranslateService): Router {
-  const router = Router();
+  // Translation, language detection and supported languages
+  router.use(createTranslateRouter(translateService, activationService, usageService, glossaryService));
 
-  // Activation endpoint
-  router.post('/activate', (req: Request, res: Response) => {
-    const requestId = (req as any).requestId || 'unknown';
-    
-    console.log(`\n🔐 [ID: ${requestId}] === PROCESSING ACTIVATION ===`);
-    
-    try {
-      const { key }: ActivateRequest = req.body;
-      
-      console.log(`🔑 [ID: ${requestId}] Extracted key from body:`, key ? `${key.substring(0, 4)}...${key.substring(key.length - 4)}` : 'null');
-      console.log(`📊 [ID: ${requestId}] Key type:`, typeof key);
-      console.log(`📏 [ID: ${requestId}] Key length:`, key ? key.length : 'N/A');
-      
-      if (!key) {
-        console.log(`❌ [ID: ${requestId}] Missing activation key`);
-        const errorResponse: ActivationResponse = { 
-          success: false,
-          message: 'Missing activation key' 
-        };
-        return res.status(400).json(errorResponse);
-      }
+  // Token refresh and logout
+  router.use(createTokenRouter(activationService, usageService));
 
-      if (typeof key !== 'string') {
-        console.log(`❌ [ID: ${requestId}] Invalid key type:`, typeof key);
-        const errorResponse: ActivationResponse = { 
-          success: false,
-          message: 'Activation key must be a string' 
-        };
-        return res.status(400).json(errorResponse);
-      }
+  // Devices bound to the caller's activation
+  router.use(createDeviceRouter(activationService));
 
-      const trimmedKey = key.trim();
-      if (!trimmedKey) {
-        console.log(`❌ [ID: ${requestId}] Empty key after trimming`);
-        const errorResponse: ActivationResponse = { 
-          success: false,
-          message: 'Activation key cannot be empty' 
-        };
-        return res.status(400).json(errorResponse);
-      }
+  // Plan consumption
+  router.use(createUsageRouter(usageService, activationService));
 
-      console.log(`🔄 [ID: ${requestId}] Calling activation service with trimmed key...`);
-      const result = activationService.activate(trimmedKey);
-      console.log(`📋 [ID: ${requestId}] Activation service result:`, result);
-      
-      if (result.ok) {
-        console.log(`✅ [ID: ${requestId}] Activation successful`);
-        
-        // Transform server response to match client expectations
-        const successResponse: ActivationResponse = {
-          success: true,
-          userId: result.identifier || `user-${Date.now()}`,
-          expiresAt: result.expiry || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
-          message: 'Activation successful'
-        };
-        
-        console.log(`🎉 [ID: ${requestId}] Sending success response:`, successResponse);
-        res.json(successResponse);
-      } else {
-        console.log(`❌ [ID: ${requestId}] Activation failed:`, result.reason);
-        
-        const failureResponse: ActivationResponse = {
-          success: false,
-          message: result.reason || 'Activation failed'
-        };
-        
-        console.log(`🚫 [ID: ${requestId}] Sending failure response:`, failureResponse);
-        res.status(400).json(failureResponse);
-      }
-    } catch (error) {
-      console.error(`💥 [ID: ${requestId}] Activation error:`, error);
-      console.error(`💥 [ID: ${requestId}] Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
-      
-      const errorResponse: ActivationResponse = { 
-        success: false,
-        message: 'Internal server error' 
-      };
-      
-      console.log(`🚨 [ID: ${requestId}] Sending internal error response:`, errorResponse);
-      res.status(500).json(errorResponse);
-    }
-    
-    console.log(`🏁 [ID: ${requestId}] === ACTIVATION PROCESSING COMPLETE ===\n`);
-  });
+  // Batch translation
+  router.use(createBatchRouter(translateService, activationService, usageService));
 
-  // Translation endpoint
-  router.post('/translate', async (req: Request, res: Response) => {
-    const requestId = (req as any).requestId || 'unknown';
-    console.log(`\n🌍 [ID: ${requestId}] === PROCESSING TRANSLATION ===`);
-    
-    try {
-      const { text, targetLanguage, sourceLanguage } = req.body;
-      
-      console.log(`📝 [ID: ${requestId}] Translation request:`, {
-        text: text ? `${text.substring(0, 50)}...` : 'null',
-        targetLanguage,
-        sourceLanguage
-      });
+  // Streaming long-document translation
+  router.use(createDocumentRouter(translateService, activationService, usageService));
 
-      // Add your translation logic here
-      const result = await translateService.translation({
-        text,
-        targetLanguage,
-        sourceLanguage
-      });
+  // Structured file translation
+  router.use(createFileRouter(fileTranslationService, activationService, usageService));
 
-      console.log(`✅ [ID: ${requestId}] Translation successful`);
-      res.json({
-        success: true,
-        translatedText: result.translatedText,
-        detectedLanguage: result.detectedLanguage
-      });
+  // Per-account glossaries
+  router.use(createGlossaryRouter(glossaryService, activationService, usageService));
 
-    } catch (error) {
-      console.error(`💥 [ID: ${requestId}] Translation error:`, error);
-      res.status(500).json({
-        success: false,
-        message: 'Translation failed'
-      });
-    }
-    
-    console.log(`🏁 [ID: ${requestId}] === TRANSLATION PROCESSING COMPLETE ===\n`);
-  });
+  // Asynchronous translation jobs
+  router.use(createJobRouter(jobService, activationService, usageService));
 
   return router;
 }
@@ -0,0 +1,105 @@
+import { type Request, type Response, Router } from 'express';
+import { getAccount, requireActivation } from '../middleware/auth';
+import { enforcePlan } from '../middleware/entitlements';
+import type ActivationService from '../services/activationService';
+import type JobService from '../services/jobService';
+import type UsageService from '../services/usageService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+}
+
+interface CreateJobRequest {
+  text?: string;
+  texts?: string[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  callbackUrl?: string;
+}
+
+function createJobRouter(
+  jobService: JobService,
+  activationService: ActivationService,
+  usageService: UsageService
+): Router {
+  const router = Router();
+  const maxJobChars = parseInt(process.env.JOB_MAX_CHARS || '1000000');
+
+  router.use('/jobs', requireActivation(activationService), enforcePlan(usageService, 'jobs'));
+
+  // Submit an asynchronous translation job
+  router.post('/jobs', async (req: AuthRequest, res: Response) => {
+    const { text, texts, sourceLanguage, targetLanguage, callbackUrl }: CreateJobRequest = req.body || {};
+
+    // Validate input
+    if ((!text && !texts) || !sourceLanguage || !targetLanguage) {
+      throw new ValidationError('Missing required fields: text or texts, sourceLanguage, targetLanguage');
+    }
+
+    if (text !== undefined && texts !== undefined) {
+      throw new ValidationError('Provide either text or texts, not both');
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || text.trim().length === 0)) {
+      throw new ValidationError('Text must be a non-empty string');
+    }
+
+    if (
+      texts !== undefined &&
+      (!Array.isArray(texts) || texts.length === 0 || !texts.every((item) => typeof item === 'string'))
+    ) {
+      throw new ValidationError('texts must be a non-empty array of strings');
+    }
+
+    if (typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string') {
+      throw new ValidationError('Source and target must be valid language codes', 'INVALID_LANGUAGE');
+    }
+
+    const totalChars =
+      text !== undefined ? text.length : (texts as string[]).reduce((sum, item) => sum + item.length, 0);
+    if (totalChars > maxJobChars) {
+      throw new ValidationError(`Job is too large. Maximum is ${maxJobChars} characters`, 'TEXT_TOO_LONG');
+    }
+
+    if (callbackUrl !== undefined && typeof callbackUrl !== 'string') {
+      throw new ValidationError('callbackUrl must be an http(s) URL');
+    }
+
+    const job = await jobService.submit(getAccount(req), { text, texts, sourceLanguage, targetLanguage }, callbackUrl);
+
+    res
+      .status(202)
+      .location(`${req.baseUrl}/jobs/${job.id}`)
+      .json({
+        ok: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `${req.baseUrl}/jobs/${job.id}`
+      });
+  });
+
+  // List the caller's jobs
+  router.get('/jobs', async (req: AuthRequest, res: Response) => {
+    const jobs = await jobService.listJobs(req.identifier as string);
+    res.json({
+      ok: true,
+      jobs: jobs.map((job) => jobService.toJobSummary(job))
+    });
+  });
+
+  // Job status, progress and result
+  router.get('/jobs/:id', async (req: AuthRequest, res: Response) => {
+    const job = await jobService.getJob(req.identifier as string, req.params.id);
+
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    res.json({ ok: true, job: jobService.toPublicJob(job) });
+  });
+
+  return router;
+}
+
+export default createJobRouter;
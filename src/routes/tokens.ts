@@ -0,0 +1,46 @@
+import { type Request, type Response, Router } from 'express';
+import { requireActivation } from '../middleware/auth';
+import { applyRateLimit } from '../middleware/entitlements';
+import type ActivationService from '../services/activationService';
+import { getPlan } from '../services/plans';
+import type UsageService from '../services/usageService';
+import { EntitlementError, ValidationError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+  deviceId?: string;
+}
+
+function createTokenRouter(activationService: ActivationService, usageService: UsageService): Router {
+  const router = Router();
+
+  // Exchange a refresh token for a new access/refresh pair
+  router.post('/token/refresh', async (req: Request, res: Response) => {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      throw new ValidationError('Missing required field: refreshToken');
+    }
+
+    // Counted against the token's identifier, like its other authenticated calls
+    const claims = activationService.verifyRefreshToken(refreshToken);
+    const plan = getPlan(claims.plan);
+    if (!plan) {
+      throw new EntitlementError('PLAN_UNKNOWN', `Unknown plan "${claims.plan}"`);
+    }
+    await applyRateLimit(usageService, req, res, claims.sub, plan);
+
+    const tokens = await activationService.refresh(refreshToken);
+    res.json({ ok: true, ...tokens });
+  });
+
+  // End the caller's session on this device
+  router.post('/logout', requireActivation(activationService), async (req: AuthRequest, res: Response) => {
+    await activationService.logout(req.identifier as string, req.deviceId);
+    res.json({ ok: true });
+  });
+
+  return router;
+}
+
+export default createTokenRouter;
@@ -1,98 +1,158 @@
-import { Router, Request, Response } from 'express';
-import TranslateService from '../services/translationService';
-import ActivationService from '../services/activationService';
-import { requireActivation } from '../middleware/auth';
+import { type Request, type Response, Router } from 'express';
+import { getAccount, requireActivation } from '../middleware/auth';
+import { enforcePlan, enforceRateLimit } from '../middleware/entitlements';
+import { validate } from '../middleware/validate';
+import { z } from '../schemas/common';
+import {
+  type DetectRequest,
+  detectRequest,
+  detectResponse,
+  languagesResponse,
+  multiTranslateResponse,
+  type TranslateRequest,
+  translateRequest,
+  translateResponse
+} from '../schemas/translation';
+import type ActivationService from '../services/activationService';
+import type GlossaryService from '../services/glossaryService';
+import type TranslateService from '../services/translationService';
+import type UsageService from '../services/usageService';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  type ErrorCode,
+  NotFoundError,
+  TranslationError,
+  type TranslationErrorCode,
+  ValidationError
+} from '../utils/errors';
 
 interface AuthRequest extends Request {
   identifier?: string;
 }
 
-interface TranslateRequest {
-  text: string;
-  sourceLanguage: string;
-  targetLanguage: string;
-}
-
-interface DetectLanguageRequest {
-  text: string;
+interface TargetTranslation {
+  ok: boolean;
+  translatedText?: string;
+  provider?: string;
+  cached?: boolean;
+  code?: ErrorCode;
+  error?: string;
 }
 
 function createTranslateRouter(
   translateService: TranslateService,
-  activationService: ActivationService
+  activationService: ActivationService,
+  usageService: UsageService,
+  glossaryService?: GlossaryService
 ): Router {
   const router = Router();
+  const maxTargetLanguages = parseInt(process.env.MAX_TARGET_LANGUAGES || '10');
+  const parsedConcurrency = parseInt(process.env.TRANSLATE_FANOUT_CONCURRENCY || '4');
+  // A typo in the setting must not leave the fan-out with no workers
+  const fanOutConcurrency = Number.isFinite(parsedConcurrency) && parsedConcurrency > 0 ? parsedConcurrency : 4;
 
-  // Translation endpoint
+  // Translation endpoint (single target, or fan-out with targetLanguages)
   router.post(
     '/translate',
     requireActivation(activationService),
+    validate({ body: translateRequest, response: z.union([translateResponse, multiTranslateResponse]) }),
+    enforcePlan(usageService, 'translate'),
     async (req: AuthRequest, res: Response) => {
-      try {
-        const { text, sourceLanguage, targetLanguage }: TranslateRequest = req.body;
-
-        // Validate input
-        if (!text || !sourceLanguage || !targetLanguage) {
-          return res.status(400).json({
-            ok: false,
-            error: 'Missing required fields: text, sourceLanguage, targetLanguage'
-          });
-        }
+      const {
+        text,
+        sourceLanguage,
+        targetLanguage,
+        targetLanguages,
+        format,
+        translateAttributes,
+        glossaryId
+      }: TranslateRequest = req.body;
+
+      if (targetLanguages && targetLanguages.length > maxTargetLanguages) {
+        throw new ValidationError(`Too many target languages. Maximum is ${maxTargetLanguages}`);
+      }
 
-        if (typeof text !== 'string' || text.trim().length === 0) {
-          return res.status(400).json({
-            ok: false,
-            error: 'Text must be a non-empty string'
-          });
-        }
+      // Glossaries are private to the activation that created them
+      const glossary = glossaryId ? glossaryService?.get(req.identifier as string, glossaryId) : undefined;
+      if (glossaryId && !glossary) {
+        throw new NotFoundError('Glossary not found');
+      }
 
-        if (typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string') {
-          return res.status(400).json({
-            ok: false,
-            error: 'Source and target must be valid language codes'
-          });
-        }
+      // Check text length (Google Translate has limits)
+      if (text.length > 5000) {
+        throw new ValidationError('Text is too long. Maximum length is 5000 characters', 'TEXT_TOO_LONG');
+      }
+
+      // Multi-target: detect the source once, then fan out with a concurrency cap
+      if (targetLanguages) {
+        const targets = Array.from(new Set([...(targetLanguage ? [targetLanguage] : []), ...targetLanguages]));
+        let source = sourceLanguage;
+        let detectedLanguage: string | undefined;
 
-        // Check text length (Google Translate has limits)
-        if (text.length > 5000) {
-          return res.status(400).json({
-            ok: false,
-            error: 'Text is too long. Maximum length is 5000 characters'
-          });
+        if (sourceLanguage === 'auto') {
+          const detection = await translateService.detectLanguage(text, getAccount(req));
+          source = detection.detectedLanguage;
+          detectedLanguage = detection.detectedLanguage;
         }
 
-        // Perform translation
-        const result = await translateService.translation({ text, sourceLanguage, targetLanguage });
-        
-        if (result.ok) {
-          res.json({
-            ok: true,
-            translatedText: result.translatedText,
-            detectedLanguage: result.detectedLanguage
-          });
-        } else {
-          // Determine appropriate status code based on error
-          let statusCode = 502; // Bad Gateway (service error)
-          if (result.error?.includes('Invalid') || result.error?.includes('unsupported')) {
-            statusCode = 400; // Bad Request
-          } else if (result.error?.includes('Access denied') || result.error?.includes('permissions')) {
-            statusCode = 403; // Forbidden
-          } else if (result.error?.includes('Rate limit')) {
-            statusCode = 429; // Too Many Requests
-          }
-
-          res.status(statusCode).json({
-            ok: false,
-            error: result.error
-          });
+        // One failed target must not fail the others
+        const results = await mapWithConcurrency(targets, fanOutConcurrency, (target) =>
+          translateService
+            .translation({
+              text,
+              sourceLanguage: source,
+              targetLanguage: target,
+              format,
+              translateAttributes: translateAttributes === true,
+              glossary: glossary ? glossaryService?.entriesFor(glossary, target) : undefined,
+              account: getAccount(req)
+            })
+            .catch((error) => {
+              if (error instanceof TranslationError) return error;
+              throw error;
+            })
+        );
+
+        const translations: Record<string, TargetTranslation> = {};
+        targets.forEach((target, index) => {
+          const result = results[index];
+          translations[target] =
+            result instanceof TranslationError
+              ? { ok: false, code: result.code, error: result.message }
+              : { ok: true, translatedText: result.translatedText, provider: result.provider, cached: result.cached };
+        });
+
+        const failures = results.filter((result): result is TranslationError => result instanceof TranslationError);
+        if (failures.length === results.length) {
+          throw new TranslationError(failures[0].code as TranslationErrorCode, failures[0].message, { translations });
         }
-      } catch (error) {
-        console.error('Translation endpoint error:', error);
-        res.status(500).json({
-          ok: false,
-          error: 'Internal server error'
+
+        return res.json({
+          ok: true,
+          sourceLanguage: source,
+          detectedLanguage,
+          translations
         });
       }
+
+      // Perform translation
+      const result = await translateService.translation({
+        text,
+        sourceLanguage,
+        targetLanguage: targetLanguage as string,
+        format,
+        translateAttributes: translateAttributes === true,
+        glossary: glossary ? glossaryService?.entriesFor(glossary, targetLanguage as string) : undefined,
+        account: getAccount(req)
+      });
+
+      res.json({
+        ok: true,
+        translatedText: result.translatedText,
+        detectedLanguage: result.detectedLanguage,
+        provider: result.provider,
+        cached: result.cached
+      });
     }
   );
 
@@ -100,38 +160,18 @@ function createTranslateRouter(
   router.post(
     '/detect',
     requireActivation(activationService),
+    validate({ body: detectRequest, response: detectResponse }),
+    enforcePlan(usageService, 'detect'),
     async (req: AuthRequest, res: Response) => {
-      try {
-        const { text }: DetectLanguageRequest = req.body;
-
-        if (!text || typeof text !== 'string' || text.trim().length === 0) {
-          return res.status(400).json({
-            ok: false,
-            error: 'Text is required and must be a non-empty string'
-          });
-        }
-
-        const result = await translateService.detectLanguage(text);
-        
-        if (result.ok) {
-          res.json({
-            ok: true,
-            detectedLanguage: result.detectedLanguage,
-            confidence: result.confidence
-          });
-        } else {
-          res.status(502).json({
-            ok: false,
-            error: result.error
-          });
-        }
-      } catch (error) {
-        console.error('Language detection endpoint error:', error);
-        res.status(500).json({
-          ok: false,
-          error: 'Internal server error'
-        });
-      }
+      const { text }: DetectRequest = req.body;
+
+      const result = await translateService.detectLanguage(text, getAccount(req));
+      res.json({
+        ok: true,
+        detectedLanguage: result.detectedLanguage,
+        confidence: result.confidence,
+        provider: result.provider
+      });
     }
   );
 
@@ -139,32 +179,18 @@ function createTranslateRouter(
   router.get(
     '/languages',
     requireActivation(activationService),
-    async (req: AuthRequest, res: Response) => {
-      try {
-        const result = await translateService.getSupportedLanguages();
-        
-        if (result.ok) {
-          res.json({
-            ok: true,
-            languages: result.languages
-          });
-        } else {
-          res.status(502).json({
-            ok: false,
-            error: result.error
-          });
-        }
-      } catch (error) {
-        console.error('Supported languages endpoint error:', error);
-        res.status(500).json({
-          ok: false,
-          error: 'Internal server error'
-        });
-      }
+    enforceRateLimit(usageService),
+    validate({ response: languagesResponse }),
+    async (_req: AuthRequest, res: Response) => {
+      const result = await translateService.getSupportedLanguages();
+      res.json({
+        ok: true,
+        languages: result.languages
+      });
     }
   );
 
   return router;
 }
 
-export default createTranslateRouter;
\ No newline at end of file
+export default createTranslateRouter;
@@ -0,0 +1,88 @@
+import { type Request, type Response, Router } from 'express';
+import { requireActivation } from '../middleware/auth';
+import type ActivationService from '../services/activationService';
+import { getPlan } from '../services/plans';
+import type UsageService from '../services/usageService';
+import type { UsageGroupBy } from '../services/usageService';
+import { EntitlementError, ValidationError } from '../utils/errors';
+
+interface AuthRequest extends Request {
+  identifier?: string;
+  plan?: string;
+}
+
+const GROUP_BY: UsageGroupBy[] = ['day', 'language'];
+
+/**
+ * Parse an ISO date or timestamp query parameter
+ */
+function parseInstant(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function createUsageRouter(usageService: UsageService, activationService: ActivationService): Router {
+  const router = Router();
+
+  // Consumption and remaining allowance for the current month, plus an optional
+  // report over ?from=&to= grouped by day or target language
+  router.get('/usage', requireActivation(activationService), async (req: AuthRequest, res: Response) => {
+    const plan = getPlan(req.plan || '');
+    if (!plan) {
+      throw new EntitlementError('PLAN_UNKNOWN', `Unknown plan "${req.plan}"`);
+    }
+
+    const from = parseInstant(req.query.from);
+    const to = parseInstant(req.query.to);
+    const groupBy = req.query.groupBy as UsageGroupBy | undefined;
+
+    if (from === null || to === null) {
+      throw new ValidationError('from and to must be ISO dates (e.g. 2025-01-01 or 2025-01-01T00:00:00Z)');
+    }
+
+    if (groupBy !== undefined && !GROUP_BY.includes(groupBy)) {
+      throw new ValidationError(`groupBy must be one of: ${GROUP_BY.join(', ')}`);
+    }
+
+    const identifier = req.identifier as string;
+    const usage = await usageService.getUsage(identifier);
+
+    const reportFrom = (from || new Date(usage.start)).toISOString();
+    const reportTo = (to || new Date()).toISOString();
+    const groups =
+      from || to || groupBy ? await usageService.getReport(identifier, reportFrom, reportTo, groupBy || 'day') : null;
+    const report = groups && {
+      from: reportFrom,
+      to: reportTo,
+      groupBy: groupBy || 'day',
+      characters: groups.reduce((sum, group) => sum + group.characters, 0),
+      requests: groups.reduce((sum, group) => sum + group.requests, 0),
+      groups
+    };
+
+    res.json({
+      ok: true,
+      identifier,
+      plan: plan.name,
+      period: { name: usage.period, start: usage.start, end: usage.end },
+      characters: {
+        used: usage.characters,
+        limit: plan.monthlyCharacters,
+        remaining: plan.monthlyCharacters === null ? null : Math.max(0, plan.monthlyCharacters - usage.characters)
+      },
+      requests: usage.requests,
+      limits: {
+        requestsPerMinute: plan.requestsPerMinute,
+        maxTextLength: plan.maxTextLength,
+        endpoints: plan.endpoints,
+        targetLanguages: plan.targetLanguages
+      },
+      report: report || undefined
+    });
+  });
+
+  return router;
+}
+
+export default createUsageRouter;
@@ -0,0 +1,23 @@
+import { createOpenApiDocument } from '../openapi';
+
+describe('createOpenApiDocument', () => {
+  it('documents the versioned routes with their schemas', () => {
+    const document = createOpenApiDocument();
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(Object.keys(document.paths)).toEqual(
+      expect.arrayContaining(['/api/v1/activate', '/api/v1/translate', '/api/v1/detect', '/api/v1/languages'])
+    );
+    expect(Object.keys(document.components?.schemas || {})).toEqual(
+      expect.arrayContaining([
+        'ActivateRequest',
+        'TranslateRequest',
+        'TranslateResponse',
+        'DetectRequest',
+        'LanguagesResponse',
+        'ErrorResponse'
+      ])
+    );
+    expect(document.paths['/api/v1/translate'].post?.security).toEqual([{ bearerAuth: [] }]);
+  });
+});
@@ -0,0 +1,73 @@
+// schemas/activation.ts
+import { errorResponses, registry, z } from './common';
+
+export const activateRequest = registry.register(
+  'ActivateRequest',
+  z.object({
+    key: z
+      .string({
+        required_error: 'Missing activation key',
+        invalid_type_error: 'Activation key must be a non-empty string'
+      })
+      .trim()
+      .min(1, 'Activation key must be a non-empty string')
+      .openapi({ description: 'v2 (or, during the migration window, v1) activation key' }),
+    deviceFingerprint: z
+      .string({ invalid_type_error: 'deviceFingerprint and deviceName must be strings' })
+      .optional()
+      .openapi({
+        description: 'Stable per-device value; each distinct fingerprint takes a seat',
+        example: '3f9c2e7a-machine-id'
+      }),
+    deviceName: z
+      .string({ invalid_type_error: 'deviceFingerprint and deviceName must be strings' })
+      .optional()
+      .openapi({ example: 'Work laptop' })
+  })
+);
+
+export type ActivateRequest = z.infer<typeof activateRequest>;
+
+const seatUsage = z.object({
+  used: z.number().int(),
+  limit: z.number().int().nullable().openapi({ description: 'null for unlimited' })
+});
+
+export const activateResponse = registry.register(
+  'ActivateResponse',
+  z.object({
+    ok: z.literal(true),
+    identifier: z.string(),
+    plan: z.string().openapi({ example: 'premium' }),
+    expiry: z.string().datetime(),
+    tokenType: z.literal('Bearer'),
+    accessToken: z.string(),
+    refreshToken: z.string(),
+    expiresIn: z.number().int().openapi({ description: 'Access token lifetime in seconds' }),
+    claims: z.object({ seats: z.number().int().optional(), features: z.array(z.string()).optional() }).optional(),
+    deviceId: z.string(),
+    seats: seatUsage
+  })
+);
+
+/** Pre-v1 shape sent for `X-Response-Compat: legacy` (not part of the documented API) */
+export const legacyActivateResponse = activateResponse
+  .omit({ ok: true, identifier: true, expiry: true })
+  .extend({ success: z.literal(true), userId: z.string(), expiresAt: z.string().datetime(), message: z.string() });
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/activate',
+  summary: 'Activate a key on a device',
+  description:
+    'Verifies the activation key, binds the device (taking a seat) and issues an access/refresh token pair. ' +
+    'Send `X-Response-Compat: legacy` for the pre-v1 `{success, userId, expiresAt, message}` shape.',
+  tags: ['Activation'],
+  request: {
+    body: { required: true, content: { 'application/json': { schema: activateRequest } } }
+  },
+  responses: {
+    200: { description: 'Activated', content: { 'application/json': { schema: activateResponse } } },
+    ...errorResponses(400, 403, 409, 429)
+  }
+});
@@ -0,0 +1,56 @@
+// schemas/common.ts
+import { extendZodWithOpenApi, OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+// Adds .openapi() to every Zod schema; must run before any schema is declared
+extendZodWithOpenApi(z);
+
+/**
+ * Every documented route and schema; turned into the OpenAPI document by createOpenApiDocument
+ */
+export const registry = new OpenAPIRegistry();
+
+export const bearerAuth = registry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  description: 'accessToken returned by POST /api/v1/activate'
+});
+
+/** ISO 639-1 code (optionally with a region), or "auto" where detection is allowed */
+export const languageCode = z.string().openapi({ example: 'fr' });
+
+export const errorResponse = registry.register(
+  'ErrorResponse',
+  z
+    .object({
+      ok: z.literal(false),
+      code: z.string().openapi({ example: 'VALIDATION_FAILED', description: 'Machine-readable error code' }),
+      error: z.string().openapi({ example: 'Missing activation key' }),
+      requestId: z.string().openapi({ example: '4bf92f3577b34da6a3ce929d0e0e4736' })
+    })
+    .passthrough()
+);
+
+/**
+ * Error responses shared by every documented route, keyed by status
+ */
+export function errorResponses(...statuses: number[]) {
+  const descriptions: Record<number, string> = {
+    400: 'Invalid request (VALIDATION_FAILED, INVALID_LANGUAGE, TEXT_TOO_LONG, KEY_*)',
+    401: 'Missing, invalid or expired bearer token',
+    403: 'Not allowed by the plan, or key revoked',
+    409: 'Seat limit reached',
+    429: 'Rate limit or quota exceeded',
+    502: 'Translation provider error',
+    503: 'Translation providers unavailable'
+  };
+
+  return Object.fromEntries(
+    statuses.map((status) => [
+      status,
+      { description: descriptions[status], content: { 'application/json': { schema: errorResponse } } }
+    ])
+  );
+}
+
+export { z };
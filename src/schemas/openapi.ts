@@ -0,0 +1,22 @@
+// schemas/openapi.ts
+import { OpenApiGeneratorV3 } from '@asteasolutions/zod-to-openapi';
+import { registry } from './common';
+// Route schemas register their paths on import
+import './activation';
+import './translation';
+
+/**
+ * OpenAPI 3 document for every route registered with the schema registry
+ */
+export function createOpenApiDocument() {
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: '3.0.3',
+    info: {
+      title: 'Traducteur Rapide API',
+      version: '1.0.0',
+      description:
+        'Errors use `{ok: false, code, error, requestId}`; see the ErrorResponse schema. ' +
+        'Unversioned /api paths are deprecated aliases of /api/v1.'
+    }
+  });
+}
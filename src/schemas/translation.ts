@@ -0,0 +1,152 @@
+// schemas/translation.ts
+import { bearerAuth, errorResponses, languageCode, registry, z } from './common';
+
+const MISSING_FIELDS = 'Missing required fields: text, sourceLanguage, targetLanguage (or targetLanguages)';
+const INVALID_LANGUAGE = 'Source and target must be valid language codes';
+
+export const translateRequest = registry.register(
+  'TranslateRequest',
+  z
+    .object({
+      text: z
+        .string({ required_error: MISSING_FIELDS, invalid_type_error: 'Text must be a non-empty string' })
+        .refine((text) => text.trim().length > 0, 'Text must be a non-empty string')
+        .openapi({ example: 'Hello, world!' }),
+      sourceLanguage: z
+        .string({ required_error: MISSING_FIELDS, invalid_type_error: INVALID_LANGUAGE })
+        .openapi({ description: 'Source language, or "auto" to detect it', example: 'en' }),
+      targetLanguage: z.string({ invalid_type_error: INVALID_LANGUAGE }).optional().openapi({ example: 'fr' }),
+      targetLanguages: z
+        .array(languageCode, { invalid_type_error: 'targetLanguages must be a non-empty array of language codes' })
+        .min(1, 'targetLanguages must be a non-empty array of language codes')
+        .optional()
+        .openapi({ description: 'Translate into several languages at once', example: ['fr', 'de'] }),
+      format: z.enum(['text', 'html'], { message: 'Format must be "text" or "html"' }).optional(),
+      translateAttributes: z
+        .boolean()
+        .optional()
+        .openapi({ description: 'With format "html": also translate alt, title, placeholder and aria-label values' }),
+      glossaryId: z.string().optional()
+    })
+    .refine((body) => body.targetLanguage !== undefined || body.targetLanguages !== undefined, {
+      message: MISSING_FIELDS,
+      path: ['targetLanguage']
+    })
+);
+
+export type TranslateRequest = z.infer<typeof translateRequest>;
+
+export const translateResponse = registry.register(
+  'TranslateResponse',
+  z.object({
+    ok: z.literal(true),
+    translatedText: z.string().openapi({ example: 'Bonjour, le monde !' }),
+    detectedLanguage: z.string().optional(),
+    provider: z.string().optional(),
+    cached: z.boolean()
+  })
+);
+
+const targetTranslation = z.object({
+  ok: z.boolean(),
+  translatedText: z.string().optional(),
+  provider: z.string().optional(),
+  cached: z.boolean().optional(),
+  code: z.string().optional(),
+  error: z.string().optional()
+});
+
+export const multiTranslateResponse = registry.register(
+  'MultiTranslateResponse',
+  z.object({
+    ok: z.literal(true),
+    sourceLanguage: z.string(),
+    detectedLanguage: z.string().optional(),
+    translations: z
+      .record(targetTranslation)
+      .openapi({ description: 'Per target language; one failed target does not fail the others' })
+  })
+);
+
+export const detectRequest = registry.register(
+  'DetectRequest',
+  z.object({
+    text: z
+      .string({
+        required_error: 'Text is required and must be a non-empty string',
+        invalid_type_error: 'Text is required and must be a non-empty string'
+      })
+      .refine((text) => text.trim().length > 0, 'Text is required and must be a non-empty string')
+      .openapi({ example: 'Bonjour tout le monde' })
+  })
+);
+
+export type DetectRequest = z.infer<typeof detectRequest>;
+
+export const detectResponse = registry.register(
+  'DetectResponse',
+  z.object({
+    ok: z.literal(true),
+    detectedLanguage: z.string().openapi({ example: 'fr' }),
+    confidence: z.number().optional(),
+    provider: z.string()
+  })
+);
+
+export const languagesResponse = registry.register(
+  'LanguagesResponse',
+  z.object({
+    ok: z.literal(true),
+    languages: z.array(z.object({ code: z.string(), name: z.string().optional() }))
+  })
+);
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/translate',
+  summary: 'Translate text',
+  description:
+    'Translates into `targetLanguage`, or into every language of `targetLanguages` (the response then has one entry per target).',
+  tags: ['Translation'],
+  security: [{ [bearerAuth.name]: [] }],
+  request: {
+    body: { required: true, content: { 'application/json': { schema: translateRequest } } }
+  },
+  responses: {
+    200: {
+      description: 'Translated',
+      content: { 'application/json': { schema: z.union([translateResponse, multiTranslateResponse]) } }
+    },
+    ...errorResponses(400, 401, 403, 429, 502, 503)
+  }
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/detect',
+  summary: 'Detect the language of a text',
+  tags: ['Translation'],
+  security: [{ [bearerAuth.name]: [] }],
+  request: {
+    body: { required: true, content: { 'application/json': { schema: detectRequest } } }
+  },
+  responses: {
+    200: { description: 'Detected', content: { 'application/json': { schema: detectResponse } } },
+    ...errorResponses(400, 401, 403, 429, 502, 503)
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/languages',
+  summary: 'List supported languages',
+  tags: ['Translation'],
+  security: [{ [bearerAuth.name]: [] }],
+  responses: {
+    200: {
+      description: 'Languages the providers support',
+      content: { 'application/json': { schema: languagesResponse } }
+    },
+    ...errorResponses(401, 502, 503)
+  }
+});
@@ -1,41 +1,40 @@
-import dotenv from "dotenv";
-import {App} from "./app";
+import dotenv from 'dotenv';
+import { App } from './app';
+import { logger } from './utils/logger';
 
 dotenv.config();
 
-const PORT = parseInt(process.env.PORT || "4000", 10);
+const PORT = parseInt(process.env.PORT || '4000', 10);
 
 // Create App instance
 const appInstance = new App();
 
 // Export app & logger for tests
 export const app = appInstance.app;
-export const logger = console;
+export { logger };
 
 // Only start server if this file is executed directly
 if (require.main === module) {
   try {
-    console.log("🚀 Bootstrapping Traducteur Rapide server...");
+    logger.info('Bootstrapping Traducteur Rapide server...');
   } catch (error) {
-    console.error("❌ Failed to start server:", error);
+    logger.fatal({ err: error }, 'Failed to start server');
     process.exit(1);
   }
 
   // Graceful shutdown
-  process.on("SIGTERM", () => {
-    console.log("⚠️ SIGTERM received, shutting down gracefully...");
+  process.on('SIGTERM', () => {
+    logger.info('SIGTERM received, shutting down gracefully...');
+    appInstance.shutdown();
     process.exit(0);
   });
 
-  process.on("SIGINT", () => {
-    console.log("⚠️ SIGINT received, shutting down gracefully...");
+  process.on('SIGINT', () => {
+    logger.info('SIGINT received, shutting down gracefully...');
+    appInstance.shutdown();
     process.exit(0);
   });
 }
 
-
- 
- 
-
 // Export the Express app as default for Vercel
-export default appInstance.app;
\ No newline at end of file
+export default appInstance.app;
@@ -0,0 +1,247 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createActivationKeyV2, type KeyClaims, signToken, verifyToken } from '../../utils/hmac';
+import ActivationService from '../activationService';
+import FileRevocationStore from '../revocation/fileRevocationStore';
+import MemorySessionStore from '../sessions/memorySessionStore';
+
+const KEYRING = { secrets: { k1: 'secret-one' }, currentKid: 'k1' };
+const DAY = 24 * 60 * 60 * 1000;
+
+function key(
+  options: { identifier?: string; plan?: string; nonce?: string; claims?: KeyClaims; expiry?: string } = {}
+) {
+  return createActivationKeyV2(
+    {
+      identifier: options.identifier || 'alice',
+      expiry: options.expiry || new Date(Date.now() + DAY).toISOString(),
+      plan: options.plan || 'premium',
+      nonce: options.nonce || 'nonce-1',
+      claims: options.claims
+    },
+    'k1',
+    'secret-one'
+  );
+}
+
+describe('ActivationService', () => {
+  let store: MemorySessionStore;
+  let service: ActivationService;
+
+  beforeEach(() => {
+    store = new MemorySessionStore();
+    service = new ActivationService(KEYRING, store, { tokenSecret: 'token-secret', accessTokenTtlSeconds: 60 });
+  });
+
+  describe('session tokens', () => {
+    it('issues an access/refresh pair that authenticates the session', async () => {
+      const result = await service.activate(key(), { fingerprint: 'laptop' });
+
+      expect(result).toMatchObject({ identifier: 'alice', plan: 'premium', tokenType: 'Bearer', expiresIn: 60 });
+      const { session, deviceId } = await service.authenticate(result.accessToken);
+      expect(session.identifier).toBe('alice');
+      expect(deviceId).toBe(result.deviceId);
+      expect(verifyToken(result.refreshToken, 'token-secret')).toMatchObject({ typ: 'refresh', sub: 'alice' });
+    });
+
+    it('never issues tokens that outlive the activation', async () => {
+      const expiry = new Date(Date.now() + 30_000).toISOString();
+      const result = await service.activate(key({ expiry }));
+
+      expect(result.expiresIn).toBeLessThanOrEqual(30);
+      expect(verifyToken(result.refreshToken, 'token-secret').exp).toBeLessThanOrEqual(Date.parse(expiry) / 1000);
+    });
+
+    it('does not accept one token type in place of the other', async () => {
+      const { accessToken, refreshToken } = await service.activate(key());
+
+      await expect(service.authenticate(refreshToken)).rejects.toThrow('Not an access token');
+      await expect(service.refresh(accessToken)).rejects.toThrow('Not a refresh token');
+    });
+
+    it('rotates refresh tokens and refuses a used one', async () => {
+      const first = await service.activate(key());
+
+      const second = await service.refresh(first.refreshToken);
+      await expect(service.authenticate(second.accessToken)).resolves.toBeDefined();
+      await expect(service.refresh(first.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+      await expect(service.refresh(second.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('lets only one of two concurrent refreshes with the same token through', async () => {
+      const { refreshToken } = await service.activate(key());
+
+      const results = await Promise.allSettled([service.refresh(refreshToken), service.refresh(refreshToken)]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    });
+
+    it('ends tokens on logout and when the identifier activates another key', async () => {
+      const first = await service.activate(key());
+      await service.activate(key({ nonce: 'nonce-2' }));
+
+      await expect(service.authenticate(first.accessToken)).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+
+      const current = await service.activate(key({ nonce: 'nonce-2' }));
+      await service.logout('alice');
+      await expect(service.authenticate(current.accessToken)).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+      await expect(service.refresh(current.refreshToken)).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+    });
+
+    it('refuses tokens signed with another secret', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      await service.activate(key());
+      const forged = signToken(
+        {
+          typ: 'access',
+          sub: 'alice',
+          plan: 'enterprise',
+          nonce: 'nonce-1',
+          did: 'x',
+          jti: 'j',
+          iat: now,
+          exp: now + 60
+        },
+        'guessed-secret'
+      );
+
+      await expect(service.authenticate(forged)).rejects.toMatchObject({ code: 'TOKEN_INVALID' });
+    });
+
+    it('derives the token secret from the key secret when none is configured', async () => {
+      const derived = new ActivationService(KEYRING, store);
+      const { accessToken } = await derived.activate(key());
+
+      await expect(derived.authenticate(accessToken)).resolves.toBeDefined();
+      expect(() => verifyToken(accessToken, 'secret-one')).toThrow('Invalid token signature');
+    });
+  });
+
+  describe('seats', () => {
+    it('binds each new device to a seat and reuses the seat of a known device', async () => {
+      const first = await service.activate(key(), { fingerprint: 'laptop', name: 'Work laptop' });
+      const again = await service.activate(key(), { fingerprint: 'laptop' });
+
+      expect(again.deviceId).toBe(first.deviceId);
+      expect(again.seats).toEqual({ used: 1, limit: 3 });
+      expect(first.deviceId).toMatch(/^[0-9a-f]{16}$/);
+      expect(first.deviceId).not.toContain('laptop');
+      const listed = await service.listDevices('alice');
+      expect(listed?.devices).toEqual([expect.objectContaining({ deviceId: first.deviceId, name: 'Work laptop' })]);
+      expect(listed?.devices[0]).not.toHaveProperty('refreshTokenId');
+    });
+
+    it('binds activations without a fingerprint to one shared default device', async () => {
+      const first = await service.activate(key({ claims: { seats: 1 } }));
+      const again = await service.activate(key({ claims: { seats: 1 } }));
+
+      expect(first.deviceId).toBe('default');
+      expect(again.deviceId).toBe('default');
+      expect(again.seats).toEqual({ used: 1, limit: 1 });
+    });
+
+    it('refuses a device beyond the seat limit from the key claims, else the plan', async () => {
+      await service.activate(key({ claims: { seats: 1 } }), { fingerprint: 'laptop' });
+
+      await expect(service.activate(key({ claims: { seats: 1 } }), { fingerprint: 'phone' })).rejects.toMatchObject({
+        code: 'SEAT_LIMIT_REACHED',
+        status: 409,
+        details: { seats: { used: 1, limit: 1 } }
+      });
+
+      await service.activate(key({ identifier: 'bob', plan: 'basic' }), { fingerprint: 'laptop' });
+      await expect(service.activate(key({ identifier: 'bob', plan: 'basic' }))).rejects.toMatchObject({
+        code: 'SEAT_LIMIT_REACHED'
+      });
+    });
+
+    it('frees the seat of a deactivated device and ends its tokens only', async () => {
+      const laptop = await service.activate(key({ claims: { seats: 2 } }), { fingerprint: 'laptop' });
+      const phone = await service.activate(key({ claims: { seats: 2 } }), { fingerprint: 'phone' });
+
+      await expect(service.deactivateDevice('alice', phone.deviceId)).resolves.toBe(true);
+      await expect(service.deactivateDevice('alice', phone.deviceId)).resolves.toBe(false);
+
+      await expect(service.authenticate(phone.accessToken)).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+      await expect(service.authenticate(laptop.accessToken)).resolves.toBeDefined();
+      await expect(service.activate(key({ claims: { seats: 2 } }), { fingerprint: 'tablet' })).resolves.toMatchObject({
+        seats: { used: 2, limit: 2 }
+      });
+    });
+
+    it('does not hand out more seats than the limit to concurrent activations', async () => {
+      const results = await Promise.allSettled(
+        ['a', 'b', 'c'].map((fingerprint) => service.activate(key({ claims: { seats: 2 } }), { fingerprint }))
+      );
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2);
+      await expect(service.listDevices('alice')).resolves.toMatchObject({ seats: { used: 2, limit: 2 } });
+    });
+
+    it('starts over with no devices when a different key is activated', async () => {
+      await service.activate(key(), { fingerprint: 'laptop' });
+      await service.activate(key(), { fingerprint: 'phone' });
+
+      const result = await service.activate(key({ nonce: 'nonce-2' }), { fingerprint: 'laptop' });
+
+      expect(result.seats.used).toBe(1);
+    });
+  });
+
+  describe('revocation', () => {
+    let dir: string;
+    let revocations: FileRevocationStore;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'activation-'));
+      revocations = new FileRevocationStore(path.join(dir, 'revocations.json'));
+      service = new ActivationService(KEYRING, store, { tokenSecret: 'token-secret', revocationStore: revocations });
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('ends the sessions of a revoked identifier and refuses to activate it again', async () => {
+      const { accessToken } = await service.activate(key());
+
+      const result = await service.revoke('identifier', 'alice', 'chargeback');
+
+      expect(result).toMatchObject({ sessionsEnded: 1, revocation: { type: 'identifier', reason: 'chargeback' } });
+      await expect(service.authenticate(accessToken)).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+      await expect(service.activate(key({ nonce: 'nonce-2' }))).rejects.toMatchObject({ code: 'KEY_REVOKED' });
+    });
+
+    it('revokes a single key by nonce, leaving other keys of the identifier usable', async () => {
+      await service.activate(key());
+      await service.activate(key({ identifier: 'bob' }));
+
+      await expect(service.revoke('nonce', 'nonce-1')).resolves.toMatchObject({ sessionsEnded: 2 });
+      await expect(service.activate(key())).rejects.toMatchObject({ code: 'KEY_REVOKED' });
+      await expect(service.activate(key({ nonce: 'nonce-2' }))).resolves.toMatchObject({ identifier: 'alice' });
+    });
+
+    it('notices revocations made by another instance on the next request', async () => {
+      const { accessToken } = await service.activate(key());
+
+      await new FileRevocationStore(path.join(dir, 'revocations.json')).add({
+        type: 'identifier',
+        value: 'alice',
+        revokedAt: new Date().toISOString()
+      });
+
+      await expect(service.authenticate(accessToken)).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+      await expect(store.get('alice')).resolves.toBeNull();
+    });
+
+    it('accepts keys again once the revocation is lifted', async () => {
+      await service.revoke('identifier', 'alice');
+
+      await expect(service.unrevoke('identifier', 'alice')).resolves.toBe(true);
+      await expect(service.unrevoke('identifier', 'alice')).resolves.toBe(false);
+      await expect(service.activate(key())).resolves.toBeDefined();
+      await expect(service.listRevocations()).resolves.toEqual([]);
+    });
+  });
+});
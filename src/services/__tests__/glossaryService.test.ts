@@ -0,0 +1,77 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import GlossaryService from '../glossaryService';
+
+describe('GlossaryService', () => {
+  it('creates, lists, updates and deletes glossaries per identifier', async () => {
+    const service = new GlossaryService();
+
+    const { id } = await service.create('alice', { name: ' Product ', doNotTranslate: ['Traducteur'] });
+
+    expect(service.list('alice').map((glossary) => glossary.name)).toEqual(['Product']);
+    expect(service.get('bob', id)).toBeNull();
+
+    const updated = await service.update('alice', id, { name: 'Renamed', terms: [{ source: 'cat', target: 'chat' }] });
+    expect(updated).toMatchObject({
+      name: 'Renamed',
+      doNotTranslate: [],
+      terms: [{ source: 'cat', target: 'chat' }]
+    });
+
+    await expect(service.delete('bob', id)).rejects.toBeInstanceOf(NotFoundError);
+    await service.delete('alice', id);
+    expect(service.list('alice')).toEqual([]);
+  });
+
+  it("does not update another identifier's glossary", async () => {
+    const service = new GlossaryService();
+    const { id } = await service.create('alice', { name: 'Product' });
+
+    await expect(service.update('bob', id, { name: 'Mine' })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'Glossary not found'
+    });
+    expect(service.get('alice', id)?.name).toBe('Product');
+  });
+
+  it.each([
+    [{ name: '' }, 'Glossary name is required'],
+    [{ name: 'g', doNotTranslate: [''] }, 'doNotTranslate must be an array of non-empty strings'],
+    [{ name: 'g', terms: [{ source: 'a' }] }, 'terms must be an array of { source, target } strings']
+  ])('rejects invalid input %j', async (input, message) => {
+    const service = new GlossaryService();
+
+    const error = await service.create('alice', input as never).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ code: 'VALIDATION_FAILED', message });
+    expect(service.list('alice')).toEqual([]);
+  });
+
+  it('applies forced terms only for the glossary target language', async () => {
+    const service = new GlossaryService();
+    const glossary = await service.create('alice', {
+      name: 'fr',
+      targetLanguage: 'fr',
+      doNotTranslate: ['Brand'],
+      terms: [{ source: 'cat', target: 'chat' }]
+    });
+
+    expect(service.entriesFor(glossary, 'fr').terms).toHaveLength(1);
+    expect(service.entriesFor(glossary, 'de')).toEqual({ doNotTranslate: ['Brand'], terms: [], caseSensitive: false });
+  });
+
+  it('persists glossaries to its file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glossaries-'));
+    const file = path.join(dir, 'glossaries.json');
+    try {
+      const glossary = await new GlossaryService(file).create('alice', { name: 'Saved' });
+
+      expect(new GlossaryService(file).get('alice', glossary.id)?.name).toBe('Saved');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,247 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { TranslationError } from '../../utils/errors';
+import { signWebhookPayload } from '../../utils/hmac';
+import { runWithContext } from '../../utils/requestContext';
+import JobService, { type JobServiceOptions } from '../jobService';
+import type { TranslationJob } from '../jobs/jobQueue';
+import MemoryJobQueue from '../jobs/memoryJobQueue';
+import type TranslateService from '../translationService';
+
+const account = { identifier: 'alice', plan: 'enterprise' };
+
+const options: JobServiceOptions = {
+  concurrency: 2,
+  maxAttempts: 3,
+  backoffMs: 1,
+  pollIntervalMs: 10,
+  chunkChars: 20,
+  webhookTimeoutMs: 1000,
+  webhookAllowedHosts: [],
+  staleAfterMs: 60000,
+  retentionMs: 60000
+};
+
+function fakeTranslateService(translate = async (text: string) => `[fr]${text}`) {
+  const translation = vi.fn(async ({ text }: { text: string }) => ({
+    translatedText: await translate(text),
+    cached: false
+  }));
+  return { service: { translation } as unknown as TranslateService, translation };
+}
+
+async function waitForJob(
+  queue: MemoryJobQueue,
+  id: string,
+  done = (job: TranslationJob) => job.completedAt !== undefined
+) {
+  for (let i = 0; i < 200; i++) {
+    const job = await queue.get(id);
+    if (job && done(job)) return job;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+describe('JobService', () => {
+  let service: JobService;
+
+  afterEach(() => {
+    service?.stop();
+  });
+
+  it('translates a document chunk by chunk and reassembles it', async () => {
+    const queue = new MemoryJobQueue();
+    const { service: translateService, translation } = fakeTranslateService();
+    service = new JobService(queue, translateService, options);
+
+    const job = await service.submit(account, {
+      text: 'First paragraph.\n\nSecond paragraph.',
+      sourceLanguage: 'en',
+      targetLanguage: 'fr'
+    });
+    const finished = await waitForJob(queue, job.id);
+
+    expect(finished).toMatchObject({
+      status: 'completed',
+      progress: { completed: 2, total: 2 },
+      result: { translatedText: '[fr]First paragraph.\n\n[fr]Second paragraph.' }
+    });
+    expect(translation).toHaveBeenCalledWith(expect.objectContaining({ account }));
+  });
+
+  it('translates independent texts', async () => {
+    const queue = new MemoryJobQueue();
+    service = new JobService(queue, fakeTranslateService().service, options);
+
+    const job = await service.submit(account, { texts: ['a', '', 'b'], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect((await waitForJob(queue, job.id)).result).toEqual({ translations: ['[fr]a', '', '[fr]b'] });
+  });
+
+  it('retries retryable failures and fails after maxAttempts', async () => {
+    const queue = new MemoryJobQueue();
+    let calls = 0;
+    const { service: flaky } = fakeTranslateService(async (text) => {
+      calls++;
+      if (calls < 3) throw new TranslationError('PROVIDER_UNAVAILABLE', 'down');
+      return text;
+    });
+    service = new JobService(queue, flaky, options);
+
+    const recovered = await service.submit(account, { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' });
+    expect((await waitForJob(queue, recovered.id)).status).toBe('completed');
+
+    const { service: down } = fakeTranslateService(async () => {
+      throw new TranslationError('PROVIDER_UNAVAILABLE', 'still down');
+    });
+    const failingQueue = new MemoryJobQueue();
+    service = new JobService(failingQueue, down, options);
+    const failed = await service.submit(account, { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(await waitForJob(failingQueue, failed.id)).toMatchObject({
+      status: 'failed',
+      error: 'still down',
+      errorCode: 'PROVIDER_UNAVAILABLE'
+    });
+  });
+
+  it('does not retry invalid requests', async () => {
+    const queue = new MemoryJobQueue();
+    const { service: invalid, translation } = fakeTranslateService(async () => {
+      throw new TranslationError('INVALID_LANGUAGE', 'Invalid language code');
+    });
+    service = new JobService(queue, invalid, options);
+
+    const job = await service.submit(account, { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'xx' });
+
+    expect(await waitForJob(queue, job.id)).toMatchObject({ status: 'failed', errorCode: 'INVALID_LANGUAGE' });
+    expect(translation).toHaveBeenCalledTimes(1);
+  });
+
+  describe('webhooks', () => {
+    let receiver: http.Server;
+    let deliveries: { headers: http.IncomingHttpHeaders; body: string }[];
+    let callbackUrl: string;
+
+    beforeEach(async () => {
+      deliveries = [];
+      receiver = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          deliveries.push({ headers: req.headers, body });
+          res.end('ok');
+        });
+      });
+      await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+      callbackUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => receiver.close(resolve));
+    });
+
+    it('refuses callbacks while webhooks are disabled', async () => {
+      service = new JobService(new MemoryJobQueue(), fakeTranslateService().service, options);
+
+      await expect(
+        service.submit(account, { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' }, callbackUrl)
+      ).rejects.toMatchObject({ code: 'VALIDATION_FAILED', message: expect.stringContaining('webhooks are disabled') });
+    });
+
+    it('refuses callbacks to private addresses', async () => {
+      service = new JobService(new MemoryJobQueue(), fakeTranslateService().service, {
+        ...options,
+        webhookSecret: 'hook-secret'
+      });
+
+      await expect(
+        service.submit(account, { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' }, callbackUrl)
+      ).rejects.toMatchObject({ code: 'VALIDATION_FAILED', message: expect.stringContaining('private or reserved') });
+    });
+
+    it('posts the signed public job to allowlisted callbacks', async () => {
+      const queue = new MemoryJobQueue();
+      service = new JobService(queue, fakeTranslateService().service, {
+        ...options,
+        webhookSecret: 'hook-secret',
+        webhookAllowedHosts: ['127.0.0.1']
+      });
+
+      const job = await service.submit(
+        account,
+        { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' },
+        callbackUrl
+      );
+      const finished = await waitForJob(queue, job.id, (current) => current.webhook !== undefined);
+
+      expect(finished.webhook).toMatchObject({ delivered: true, attempts: 1 });
+      expect(deliveries).toHaveLength(1);
+      const [{ headers, body }] = deliveries;
+      const timestamp = Number(headers['x-webhook-timestamp']);
+      expect(headers['x-webhook-signature']).toBe(signWebhookPayload(body, timestamp, 'hook-secret'));
+
+      const payload = JSON.parse(body);
+      expect(payload).toMatchObject({
+        event: 'job.completed',
+        job: { id: job.id, result: { translatedText: '[fr]Hi' } }
+      });
+      expect(payload.job).not.toHaveProperty('identifier');
+      expect(payload.job).not.toHaveProperty('callbackUrl');
+    });
+
+    it('delivers webhooks in the trace of the request that submitted the job', async () => {
+      const queue = new MemoryJobQueue();
+      service = new JobService(queue, fakeTranslateService().service, {
+        ...options,
+        webhookSecret: 'hook-secret',
+        webhookAllowedHosts: ['127.0.0.1']
+      });
+      const context = {
+        requestId: 'req-1',
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: '01'
+      };
+
+      const job = await runWithContext(context, () =>
+        service.submit(account, { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' }, callbackUrl)
+      );
+      await waitForJob(queue, job.id, (current) => current.webhook !== undefined);
+
+      const [{ headers }] = deliveries;
+      expect(headers['x-request-id']).toBe('req-1');
+      expect(headers.traceparent).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+      expect(headers.traceparent).not.toContain(context.spanId);
+    });
+  });
+
+  it('requeues stale running jobs and deletes finished jobs past retention', async () => {
+    const queue = new MemoryJobQueue();
+    service = new JobService(queue, fakeTranslateService().service, { ...options, concurrency: 0 });
+    const now = new Date().toISOString();
+    const base = {
+      identifier: 'alice',
+      status: 'queued' as const,
+      request: { text: 'Hi', sourceLanguage: 'en', targetLanguage: 'fr' },
+      progress: { completed: 0, total: 1 },
+      attempts: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    await queue.enqueue({ ...base, id: 'stale' });
+    await queue.dequeue();
+    await queue.enqueue({ ...base, id: 'done' });
+    await queue.update({ ...base, id: 'done', status: 'completed', completedAt: now });
+
+    // Both jobs were last touched two minutes before "now"
+    const result = await service.reap(Date.now() + 120000);
+
+    expect(result).toEqual({ requeued: 1, failed: 0, deleted: 1 });
+    await expect(queue.get('stale')).resolves.toMatchObject({ status: 'queued' });
+    await expect(queue.get('done')).resolves.toBeNull();
+  });
+});
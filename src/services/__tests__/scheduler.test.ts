@@ -0,0 +1,81 @@
+import Scheduler from '../scheduler';
+
+describe('Scheduler', () => {
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    scheduler = new Scheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('reports task results and failures without throwing', async () => {
+    scheduler.register({ name: 'ok', intervalMs: 0, run: async () => ({ removed: 2 }) });
+    scheduler.register({
+      name: 'broken',
+      intervalMs: 0,
+      run: async () => {
+        throw new Error('disk full');
+      }
+    });
+
+    const runs = await scheduler.runAll();
+
+    expect(runs).toMatchObject([
+      { task: 'ok', ok: true, result: { removed: 2 } },
+      { task: 'broken', ok: false, error: 'disk full' }
+    ]);
+    expect(scheduler.list()).toMatchObject([
+      { name: 'ok', running: false, lastRun: { ok: true } },
+      { name: 'broken', running: false, lastRun: { ok: false } }
+    ]);
+  });
+
+  it('rejects duplicate and unknown task names', async () => {
+    scheduler.register({ name: 'ok', intervalMs: 0, run: async () => ({}) });
+
+    expect(() => scheduler.register({ name: 'ok', intervalMs: 0, run: async () => ({}) })).toThrow(
+      'already registered'
+    );
+    await expect(scheduler.run('missing')).rejects.toThrow('Unknown task "missing"');
+  });
+
+  it('skips a trigger while the task is still running', async () => {
+    let finish: () => void = () => {};
+    const run = vi.fn(
+      () =>
+        new Promise<Record<string, unknown>>((resolve) => {
+          finish = () => resolve({});
+        })
+    );
+    scheduler.register({ name: 'slow', intervalMs: 0, run });
+
+    const first = scheduler.run('slow');
+    await expect(scheduler.run('slow')).resolves.toMatchObject({ ok: true, skipped: true });
+    expect(scheduler.list()[0].running).toBe(true);
+    finish();
+
+    await expect(first).resolves.toMatchObject({ ok: true });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs tasks with an interval on timers until stopped', async () => {
+    vi.useFakeTimers();
+    const timed = vi.fn(async () => ({}));
+    const manual = vi.fn(async () => ({}));
+    scheduler.register({ name: 'timed', intervalMs: 1000, run: timed });
+    scheduler.register({ name: 'manual', intervalMs: 0, run: manual });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(timed).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(timed).toHaveBeenCalledTimes(2);
+    expect(manual).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import type { CacheStore } from '../cache/cacheStore';
+import MemoryCacheStore from '../cache/memoryCacheStore';
+import TranslationCache from '../translationCache';
+
+const key = { text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' };
+
+describe('TranslationCache', () => {
+  it('returns stored translations and counts hits and misses', async () => {
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+
+    await expect(cache.get(key)).resolves.toBeNull();
+    await cache.set(key, { translatedText: 'Bonjour', provider: 'google' });
+
+    await expect(cache.get(key)).resolves.toEqual({ translatedText: 'Bonjour', provider: 'google' });
+    await expect(cache.getStats()).resolves.toEqual({
+      store: 'memory',
+      entries: 1,
+      hits: 1,
+      misses: 1,
+      ttlMs: 60000
+    });
+  });
+
+  it('normalizes language case, surrounding whitespace and Unicode form', async () => {
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+    await cache.set({ text: 'Café ', sourceLanguage: 'EN', targetLanguage: 'fr' }, { translatedText: 'Café' });
+
+    await expect(cache.get({ text: ' Café', sourceLanguage: 'en', targetLanguage: 'FR' })).resolves.toEqual({
+      translatedText: 'Café'
+    });
+  });
+
+  it('keeps markup and plain text results apart', async () => {
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+    await cache.set(key, { translatedText: 'text' });
+
+    await expect(cache.get({ ...key, format: 'html' })).resolves.toBeNull();
+    await cache.set({ ...key, format: 'html' }, { translatedText: 'markup' });
+    await expect(cache.get({ ...key, format: 'html', translateAttributes: true })).resolves.toBeNull();
+  });
+
+  it('treats a failing store as a miss', async () => {
+    const broken: CacheStore = {
+      name: 'broken',
+      get: async () => {
+        throw new Error('down');
+      },
+      set: async () => {
+        throw new Error('down');
+      },
+      delete: async () => {},
+      clear: async () => 0,
+      size: async () => 0
+    };
+    const cache = new TranslationCache(broken, 60000);
+
+    await expect(cache.set(key, { translatedText: 'Bonjour' })).resolves.toBeUndefined();
+    await expect(cache.get(key)).resolves.toBeNull();
+  });
+
+  it('purges the store and resets its statistics', async () => {
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+    await cache.set(key, { translatedText: 'Bonjour' });
+    await cache.get(key);
+
+    await expect(cache.purge()).resolves.toBe(1);
+    await expect(cache.getStats()).resolves.toMatchObject({ entries: 0, hits: 0, misses: 0 });
+  });
+});
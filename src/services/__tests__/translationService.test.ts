@@ -0,0 +1,301 @@
+import { TranslationError } from '../../utils/errors';
+import MemoryCacheStore from '../cache/memoryCacheStore';
+import MemoryUsageLedger from '../ledger/memoryUsageLedger';
+import {
+  ProviderError,
+  type ProviderTranslateOptions,
+  type TranslationProvider
+} from '../providers/translationProvider';
+import TranslationCache from '../translationCache';
+import TranslateService from '../translationService';
+
+function fakeProvider(name: string, translate: TranslationProvider['translate']): TranslationProvider {
+  return {
+    name,
+    supportsHtml: false,
+    translate: vi.fn(translate),
+    detectLanguage: vi.fn(async () => ({ language: 'en', confidence: 0.9 })),
+    getSupportedLanguages: vi.fn(async () => [{ code: 'en' }, { code: 'fr' }])
+  };
+}
+
+const echo = (name: string) =>
+  fakeProvider(name, async (texts, options) => texts.map((text) => ({ translatedText: `[${options.to}]${text}` })));
+
+const failing = (name: string, status?: number) =>
+  fakeProvider(name, async () => {
+    throw new ProviderError(name, `${name} failed`, status);
+  });
+
+const params = { text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' };
+
+describe('TranslateService failover', () => {
+  it('uses the first provider when it succeeds', async () => {
+    const primary = echo('primary');
+    const secondary = echo('secondary');
+    const service = new TranslateService([primary, secondary]);
+
+    const result = await service.translation(params);
+
+    expect(result).toEqual({ translatedText: '[fr]Hello', provider: 'primary', cached: false });
+    expect(secondary.translate).not.toHaveBeenCalled();
+  });
+
+  it.each([503, 429, undefined])('fails over to the next provider on status %s', async (status) => {
+    const service = new TranslateService([failing('primary', status), echo('secondary')]);
+
+    const result = await service.translation(params);
+
+    expect(result.provider).toBe('secondary');
+  });
+
+  it('returns client errors without failing over', async () => {
+    const secondary = echo('secondary');
+    const service = new TranslateService([failing('primary', 400), secondary]);
+
+    await expect(service.translation(params)).rejects.toMatchObject({ code: 'PROVIDER_REJECTED' });
+    expect(secondary.translate).not.toHaveBeenCalled();
+  });
+
+  it('reports PROVIDER_UNAVAILABLE when every provider fails', async () => {
+    const service = new TranslateService([failing('primary', 503), failing('secondary')]);
+
+    const error = await service.translation(params).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TranslationError);
+    expect(error.code).toBe('PROVIDER_UNAVAILABLE');
+  });
+
+  it('times out slow providers, aborts them and moves on', async () => {
+    let signal: AbortSignal | undefined;
+    const slow = fakeProvider('slow', (_texts, options: ProviderTranslateOptions) => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+    const service = new TranslateService([slow, echo('fast')], { timeoutMs: 20 });
+
+    const result = await service.translation(params);
+
+    expect(result.provider).toBe('fast');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('skips a provider while its circuit is open', async () => {
+    const primary = failing('primary', 503);
+    const service = new TranslateService([primary, echo('secondary')], {
+      failureThreshold: 2,
+      resetTimeoutMs: 60000
+    });
+
+    await service.translation(params);
+    await service.translation(params);
+    await service.translation(params);
+
+    expect(primary.translate).toHaveBeenCalledTimes(2);
+    expect(service.getProviderStatus()).toEqual([
+      { name: 'primary', state: 'open' },
+      { name: 'secondary', state: 'closed' }
+    ]);
+  });
+
+  it('sends a single probe to a half-open provider', async () => {
+    vi.useFakeTimers();
+    try {
+      let release: () => void = () => {};
+      let calls = 0;
+      const flaky = fakeProvider('flaky', async (texts) => {
+        calls++;
+        if (calls === 1) throw new ProviderError('flaky', 'down', 503);
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        return texts.map((text) => ({ translatedText: `probe:${text}` }));
+      });
+      const service = new TranslateService([flaky, echo('backup')], {
+        failureThreshold: 1,
+        resetTimeoutMs: 1000,
+        timeoutMs: 60000
+      });
+
+      await service.translation(params);
+      vi.advanceTimersByTime(1000);
+
+      const probe = service.translation(params);
+      const concurrent = await service.translation(params);
+      release();
+
+      expect(concurrent.provider).toBe('backup');
+      expect((await probe).provider).toBe('flaky');
+      expect(calls).toBe(2);
+      expect(service.getProviderStatus()[0].state).toBe('closed');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('fails over on network errors that providers do not wrap', async () => {
+    const offline = fakeProvider('offline', async () => {
+      throw Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5000'), { code: 'ECONNREFUSED' });
+    });
+    const service = new TranslateService([offline, echo('secondary')], { failureThreshold: 1 });
+
+    const result = await service.translation(params);
+
+    expect(result.provider).toBe('secondary');
+    expect(service.getProviderStatus()[0].state).toBe('open');
+  });
+
+  it('rethrows its own errors without failing over or opening the circuit', async () => {
+    const buggy = fakeProvider('buggy', async () => {
+      throw new RangeError('Invalid code point');
+    });
+    const secondary = echo('secondary');
+    const service = new TranslateService([buggy, secondary], { failureThreshold: 1 });
+
+    await expect(service.translation(params)).rejects.toBeInstanceOf(RangeError);
+    expect(secondary.translate).not.toHaveBeenCalled();
+    expect(service.getProviderStatus().map(({ state }) => state)).toEqual(['closed', 'closed']);
+  });
+
+  it('rejects invalid language codes before calling a provider', async () => {
+    const provider = echo('primary');
+    const service = new TranslateService(provider);
+
+    await expect(service.translation({ ...params, targetLanguage: 'french' })).rejects.toMatchObject({
+      code: 'INVALID_LANGUAGE'
+    });
+    expect(provider.translate).not.toHaveBeenCalled();
+  });
+});
+
+describe('TranslateService caching', () => {
+  it('answers repeated translations from the cache', async () => {
+    const provider = echo('primary');
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+    const service = new TranslateService(provider, { cache });
+
+    await service.translation(params);
+    const second = await service.translation(params);
+
+    expect(second).toEqual({ translatedText: '[fr]Hello', provider: 'primary', cached: true });
+    expect(provider.translate).toHaveBeenCalledTimes(1);
+  });
+
+  it('only sends cache misses of a batch upstream', async () => {
+    const provider = echo('primary');
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+    const service = new TranslateService(provider, { cache });
+    await service.translation({ text: 'b', sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    const result = await service.translateBatch({ texts: ['a', 'b', 'c'], sourceLanguage: 'en', targetLanguage: 'fr' });
+
+    expect(result.translations.map((translation) => [translation.translatedText, translation.cached])).toEqual([
+      ['[fr]a', false],
+      ['[fr]b', true],
+      ['[fr]c', false]
+    ]);
+    expect(provider.translate).toHaveBeenLastCalledWith(['a', 'c'], expect.objectContaining({ to: 'fr' }));
+  });
+});
+
+describe('TranslateService markup', () => {
+  const html = {
+    text: '<p>Hello <code>x</code></p>',
+    sourceLanguage: 'en',
+    targetLanguage: 'fr',
+    format: 'html' as const
+  };
+
+  it('sends only text nodes to plain-text providers', async () => {
+    const provider = echo('plain');
+
+    const result = await new TranslateService(provider).translation(html);
+
+    expect(provider.translate).toHaveBeenCalledWith(['Hello'], expect.objectContaining({ format: 'text' }));
+    expect(result.translatedText).toBe('<p>[fr]Hello <code>x</code></p>');
+  });
+
+  it('sends markup with protected placeholders to HTML-capable providers', async () => {
+    const provider = { ...echo('html'), supportsHtml: true };
+
+    const result = await new TranslateService(provider).translation(html);
+
+    expect(provider.translate).toHaveBeenCalledWith(
+      ['<p>Hello <span translate="no" class="notranslate" data-tr-ph="0"></span></p>'],
+      expect.objectContaining({ format: 'html' })
+    );
+    expect(result.translatedText).toBe('[fr]<p>Hello <code>x</code></p>');
+  });
+
+  it('falls back to text nodes when the provider drops a placeholder', async () => {
+    const provider = {
+      ...fakeProvider('lossy', async (texts, options) =>
+        texts.map((text) => ({ translatedText: options.format === 'html' ? '<p>Bonjour</p>' : `[fr]${text}` }))
+      ),
+      supportsHtml: true
+    };
+
+    const result = await new TranslateService(provider).translation(html);
+
+    expect(result.translatedText).toBe('<p>[fr]Hello <code>x</code></p>');
+  });
+
+  it('translates documents with invalid character references without tripping a breaker', async () => {
+    const provider = echo('plain');
+    const service = new TranslateService(provider, { failureThreshold: 1 });
+
+    const result = await service.translation({ ...html, text: '<p>Bad &#x110000; and &#55296; refs</p>' });
+
+    expect(provider.translate).toHaveBeenCalledWith(
+      ['Bad &#x110000; and &#55296; refs'],
+      expect.objectContaining({ format: 'text' })
+    );
+    expect(result.translatedText).toContain('[fr]Bad');
+    expect(service.getProviderStatus()[0].state).toBe('closed');
+  });
+});
+
+describe('TranslateService metering', () => {
+  const account = { identifier: 'alice', plan: 'premium' };
+
+  it('records billed characters per account, flagging cache hits', async () => {
+    const ledger = new MemoryUsageLedger();
+    const cache = new TranslationCache(new MemoryCacheStore({ maxEntries: 10 }), 60000);
+    const service = new TranslateService(echo('primary'), { cache, ledger });
+
+    await service.translation({ ...params, account });
+    await service.translation({ ...params, account });
+    await service.translation(params);
+
+    const records = await ledger.query({});
+    expect(records).toEqual([
+      expect.objectContaining({
+        ...account,
+        operation: 'translate',
+        provider: 'primary',
+        characters: 5,
+        cached: false
+      }),
+      expect.objectContaining({ ...account, characters: 5, cached: true })
+    ]);
+    expect(records[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('records nothing for failed calls and never fails a call over the ledger', async () => {
+    const ledger = new MemoryUsageLedger();
+    const broken = {
+      name: 'broken',
+      append: vi.fn(async () => Promise.reject(new Error('disk full'))),
+      query: vi.fn()
+    };
+
+    await expect(
+      new TranslateService(failing('primary', 503), { ledger }).translation({ ...params, account })
+    ).rejects.toThrow();
+    await expect(
+      new TranslateService(echo('primary'), { ledger: broken }).translation({ ...params, account })
+    ).resolves.toMatchObject({ translatedText: '[fr]Hello' });
+    await expect(ledger.query({})).resolves.toEqual([]);
+    expect(broken.append).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,117 @@
+import MemoryUsageLedger from '../ledger/memoryUsageLedger';
+import type { UsageRecord } from '../ledger/usageLedger';
+import MemoryRateLimitStore from '../rateLimit/memoryRateLimitStore';
+import UsageService from '../usageService';
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    identifier: 'alice',
+    plan: 'premium',
+    operation: 'translate',
+    sourceLanguage: 'en',
+    targetLanguage: 'fr',
+    characters: 10,
+    cached: false,
+    timestamp: '2025-03-10T12:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('UsageService', () => {
+  let ledger: MemoryUsageLedger;
+  let service: UsageService;
+
+  beforeEach(() => {
+    ledger = new MemoryUsageLedger();
+    service = new UsageService(ledger, new MemoryRateLimitStore(60 * 1000));
+  });
+
+  describe('getUsage', () => {
+    it('totals the identifier’s records for the calendar month', async () => {
+      await ledger.append(record({ characters: 5, timestamp: '2025-03-01T00:00:00.000Z' }));
+      await ledger.append(record({ characters: 7, timestamp: '2025-03-31T23:59:59.999Z' }));
+      await ledger.append(record({ characters: 100, timestamp: '2025-02-28T23:59:59.999Z' }));
+      await ledger.append(record({ characters: 100, identifier: 'bob' }));
+
+      await expect(service.getUsage('alice', new Date('2025-03-15T00:00:00Z'))).resolves.toEqual({
+        period: '2025-03',
+        start: '2025-03-01T00:00:00.000Z',
+        end: '2025-04-01T00:00:00.000Z',
+        characters: 12,
+        requests: 2
+      });
+    });
+
+    it('keeps running totals current as records are metered', async () => {
+      const now = new Date();
+      await service.meteredLedger.append(record({ timestamp: now.toISOString() }));
+      await expect(service.getUsage('alice', now)).resolves.toMatchObject({ characters: 10, requests: 1 });
+
+      await service.meteredLedger.append(record({ characters: 5, timestamp: now.toISOString() }));
+
+      await expect(service.getUsage('alice', now)).resolves.toMatchObject({ characters: 15, requests: 2 });
+      await expect(ledger.query({ identifier: 'alice' })).resolves.toHaveLength(2);
+    });
+
+    it('counts records appended while the totals are being read only once', async () => {
+      const now = new Date();
+      await ledger.append(record({ timestamp: now.toISOString() }));
+
+      const usage = service.getUsage('alice', now);
+      await service.meteredLedger.append(record({ characters: 5, timestamp: now.toISOString() }));
+
+      await expect(usage).resolves.toMatchObject({ characters: 15, requests: 2 });
+    });
+
+    it('picks up records written by other instances after a rollup', async () => {
+      const now = new Date();
+      await expect(service.getUsage('alice', now)).resolves.toMatchObject({ characters: 0 });
+
+      await ledger.append(record({ characters: 42, timestamp: new Date(now.getTime() - 1000).toISOString() }));
+      await expect(service.getUsage('alice', now)).resolves.toMatchObject({ characters: 0 });
+
+      await expect(service.rollup(now)).resolves.toBe(0);
+      await expect(service.getUsage('alice', now)).resolves.toMatchObject({ characters: 42, requests: 1 });
+    });
+  });
+
+  describe('getReport', () => {
+    it('groups usage by day or target language', async () => {
+      await ledger.append(record({ timestamp: '2025-03-01T10:00:00.000Z' }));
+      await ledger.append(record({ timestamp: '2025-03-01T11:00:00.000Z', targetLanguage: 'de', cached: true }));
+      await ledger.append(
+        record({ timestamp: '2025-03-02T10:00:00.000Z', operation: 'detect', targetLanguage: undefined })
+      );
+      await ledger.append(record({ timestamp: '2025-03-05T10:00:00.000Z' }));
+
+      const from = '2025-03-01T00:00:00.000Z';
+      const to = '2025-03-05T00:00:00.000Z';
+
+      await expect(service.getReport('alice', from, to, 'day')).resolves.toEqual([
+        { key: '2025-03-01', characters: 20, cachedCharacters: 10, requests: 2 },
+        { key: '2025-03-02', characters: 10, cachedCharacters: 0, requests: 1 }
+      ]);
+      await expect(service.getReport('alice', from, to, 'language')).resolves.toEqual([
+        { key: 'de', characters: 10, cachedCharacters: 10, requests: 1 },
+        { key: 'detect', characters: 10, cachedCharacters: 0, requests: 1 },
+        { key: 'fr', characters: 10, cachedCharacters: 0, requests: 1 }
+      ]);
+    });
+  });
+
+  describe('hitRateLimit', () => {
+    it('allows up to the limit per identifier within the window', async () => {
+      const results = [];
+      for (let i = 0; i < 3; i++) results.push(await service.hitRateLimit('alice', 2));
+      const other = await service.hitRateLimit('bob', 2);
+
+      expect(results.map((result) => [result.allowed, result.remaining])).toEqual([
+        [true, 1],
+        [true, 0],
+        [false, 0]
+      ]);
+      expect(results[0].resetTime.getTime()).toBeGreaterThan(Date.now());
+      expect(other.allowed).toBe(true);
+    });
+  });
+});
@@ -1,56 +1,305 @@
-import { verifyActivationKey, ActivationPayload } from '../utils/hmac';
+import crypto from 'node:crypto';
+import { KeyedMutex } from '../utils/concurrency';
+import { ActivationKeyError, AuthenticationError } from '../utils/errors';
+import {
+  type ActivationKeyring,
+  createActivationKeyV2,
+  deriveKey,
+  type KeyClaims,
+  signToken,
+  type TokenClaims,
+  verifyActivationKey,
+  verifyToken
+} from '../utils/hmac';
+import { getPlan } from './plans';
+import type { Revocation, RevocationStore, RevocationType } from './revocation/revocationStore';
+import MemorySessionStore from './sessions/memorySessionStore';
+import {
+  type ActivationSession,
+  type DeviceActivation,
+  isSessionExpired,
+  type SessionStore
+} from './sessions/sessionStore';
+import NoopTracer from './tracing/noopTracer';
+import { type Tracer, withSpan } from './tracing/tracer';
 
-interface ActivationSession {
+export interface ActivationServiceOptions {
+  /** Secret for signing session tokens (defaults to a key derived from the v1 secret, else the current v2 one) */
+  tokenSecret?: string;
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+  /** Accept the legacy X-Identifier header in place of a bearer token */
+  allowIdentifierHeader?: boolean;
+  /** Revoked identifiers and key nonces; without one nothing can be revoked */
+  revocationStore?: RevocationStore;
+  /** Records `activation.activate` and `activation.authenticate` spans */
+  tracer?: Tracer;
+}
+
+export interface SessionTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  refreshToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+}
+
+export interface DeviceInfo {
+  /** Client-provided device fingerprint; only its hash is stored */
+  fingerprint?: string;
+  name?: string;
+}
+
+export interface SeatUsage {
+  used: number;
+  /** null for unlimited */
+  limit: number | null;
+}
+
+interface ActivationResult extends SessionTokens {
   identifier: string;
   plan: string;
   expiry: string;
-  activatedAt: Date;
+  claims?: KeyClaims;
+  deviceId: string;
+  seats: SeatUsage;
+}
+
+export interface MintedKey {
+  key: string;
+  identifier: string;
+  plan: string;
+  expiry: string;
+  nonce: string;
+  kid: string;
+  issuedAt: string;
+  claims?: KeyClaims;
+}
+
+/** Device of clients that send no fingerprint, so re-activating reuses its seat */
+const DEFAULT_DEVICE_ID = 'default';
+
+/**
+ * Stable device id for a fingerprint, so raw fingerprints are never stored
+ */
+function toDeviceId(fingerprint?: string): string {
+  return fingerprint ? crypto.createHash('sha256').update(fingerprint).digest('hex').slice(0, 16) : DEFAULT_DEVICE_ID;
+}
+
+/**
+ * Sessions persisted before device binding have no device list
+ */
+function findDevice(session: ActivationSession, deviceId: string): DeviceActivation | undefined {
+  return (session.devices || []).find((device) => device.deviceId === deviceId);
+}
+
+/**
+ * A session without its devices' refresh token ids, safe to hand out
+ */
+function toPublicSession(session: ActivationSession): ActivationSession {
+  return {
+    ...session,
+    devices: (session.devices || []).map(({ refreshTokenId: _refreshTokenId, ...device }) => device)
+  };
 }
 
 class ActivationService {
-  private activeSessions: Map<string, ActivationSession> = new Map();
-  private secret: string;
+  private sessionStore: SessionStore;
+  private keyring: ActivationKeyring;
+  private tokenSecret: string;
+  private accessTokenTtlSeconds: number;
+  private refreshTokenTtlSeconds: number;
+  private revocationStore?: RevocationStore;
+  private tracer: Tracer;
+  /** Serializes each identifier's session read-modify-write (seat checks, token rotation) in this process */
+  private sessionLocks = new KeyedMutex();
+  public readonly allowIdentifierHeader: boolean;
+
+  constructor(
+    keyring: ActivationKeyring | string,
+    sessionStore: SessionStore = new MemorySessionStore(),
+    options: ActivationServiceOptions = {}
+  ) {
+    this.keyring = typeof keyring === 'string' ? { secrets: {}, legacySecret: keyring } : keyring;
+    this.sessionStore = sessionStore;
+
+    const keySecret = this.keyring.legacySecret || this.signingKey()?.secret;
+    if (!options.tokenSecret && !keySecret) {
+      throw new Error('No activation key secret configured');
+    }
+    this.tokenSecret = options.tokenSecret || deriveKey(keySecret as string, 'session-tokens');
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? 900;
+    this.refreshTokenTtlSeconds = options.refreshTokenTtlSeconds ?? 30 * 24 * 60 * 60;
+    this.allowIdentifierHeader = options.allowIdentifierHeader ?? false;
+    this.revocationStore = options.revocationStore;
+    this.tracer = options.tracer ?? new NoopTracer();
+  }
+
+  /**
+   * Activate a key on a device and issue the device's first token pair. Each new
+   * device takes a seat; activating again on a known device does not.
+   * @throws ActivationKeyError when the key is invalid, revoked or out of seats
+   */
+  async activate(key: string, device: DeviceInfo = {}): Promise<ActivationResult> {
+    return withSpan(this.tracer, 'activation.activate', {}, async (span) => {
+      const result = await this.activateKey(key, device);
+      span.setAttribute('identifier', result.identifier);
+      span.setAttribute('plan', result.plan);
+      span.setAttribute('deviceId', result.deviceId);
+      return result;
+    });
+  }
+
+  private async activateKey(key: string, device: DeviceInfo): Promise<ActivationResult> {
+    const { identifier, plan, expiry, nonce, claims } = verifyActivationKey(key, this.keyring);
+
+    if (await this.revocationStore?.find(identifier, nonce)) {
+      throw new ActivationKeyError('KEY_REVOKED', 'Key has been revoked');
+    }
+
+    return this.sessionLocks.run(identifier, async () => {
+      const now = new Date().toISOString();
+      const existing = await this.sessionStore.get(identifier);
 
-  constructor(secret: string) {
-    this.secret = secret;
+      // Activating a different key replaces the previous activation and its devices
+      const session: ActivationSession =
+        existing && existing.nonce === nonce && !isSessionExpired(existing)
+          ? { ...existing, plan, expiry, claims, devices: existing.devices || [] }
+          : { identifier, plan, expiry, activatedAt: now, nonce, claims, devices: [] };
+
+      const deviceId = toDeviceId(device.fingerprint);
+      let boundDevice = findDevice(session, deviceId);
+      if (!boundDevice) {
+        const seats = this.getSeatUsage(session);
+        if (seats.limit !== null && seats.used >= seats.limit) {
+          throw new ActivationKeyError(
+            'SEAT_LIMIT_REACHED',
+            `Seat limit reached: key is active on ${seats.used} of ${seats.limit} devices. Deactivate one via /api/v1/devices first`,
+            { seats }
+          );
+        }
+
+        boundDevice = { deviceId, activatedAt: now, lastSeenAt: now };
+        session.devices.push(boundDevice);
+      }
+      boundDevice.lastSeenAt = now;
+      if (device.name) boundDevice.name = device.name;
+
+      const tokens = this.issueTokens(session, boundDevice);
+
+      // Store active session
+      await this.sessionStore.set(session);
+
+      return { identifier, plan, expiry, claims, deviceId, seats: this.getSeatUsage(session), ...tokens };
+    });
   }
 
   /**
-   * Activate a key and store session
+   * Resolve a bearer access token to its still-active session
+   * @throws AuthenticationError when the token is invalid or its session has ended
    */
-  activate(key: string): { ok: boolean; identifier?: string; plan?: string; expiry?: string; reason?: string } {
-    const verification = verifyActivationKey(key, this.secret);
-    
-    if (!verification.valid || !verification.payload) {
-      return { ok: false, reason: verification.reason };
+  async authenticate(accessToken: string): Promise<{ session: ActivationSession; deviceId: string }> {
+    return withSpan(this.tracer, 'activation.authenticate', {}, async (span) => {
+      const claims = verifyToken(accessToken, this.tokenSecret);
+      if (claims.typ !== 'access') {
+        throw new AuthenticationError('TOKEN_INVALID', 'Not an access token');
+      }
+      span.setAttribute('identifier', claims.sub);
+
+      const session = await this.getActiveSession(claims);
+      if (!session) {
+        throw new AuthenticationError('SESSION_ENDED', 'Session has ended');
+      }
+      return { session, deviceId: claims.did };
+    });
+  }
+
+  /**
+   * Check a refresh token's signature and expiry without using it up
+   * @throws AuthenticationError when the token is invalid or not a refresh token
+   */
+  verifyRefreshToken(refreshToken: string): TokenClaims {
+    const claims = verifyToken(refreshToken, this.tokenSecret);
+    if (claims.typ !== 'refresh') {
+      throw new AuthenticationError('TOKEN_INVALID', 'Not a refresh token');
     }
+    return claims;
+  }
 
-    const { identifier, plan, expiry } = verification.payload;
-    
-    // Store active session
-    this.activeSessions.set(identifier, {
-      identifier,
-      plan,
-      expiry,
-      activatedAt: new Date()
+  /**
+   * Exchange a refresh token for a new token pair. Refresh tokens are single-use:
+   * each call rotates the pair and invalidates the token that was presented.
+   * @throws AuthenticationError when the token is invalid, reused or its session has ended
+   */
+  async refresh(refreshToken: string): Promise<SessionTokens> {
+    const claims = this.verifyRefreshToken(refreshToken);
+
+    return this.sessionLocks.run(claims.sub, async () => {
+      const session = await this.getActiveSession(claims);
+      const device = session && findDevice(session, claims.did);
+      if (!session || !device) {
+        throw new AuthenticationError('SESSION_ENDED', 'Session has ended');
+      }
+      if (device.refreshTokenId !== claims.jti) {
+        throw new AuthenticationError('REFRESH_TOKEN_REUSED', 'Refresh token has already been used');
+      }
+
+      device.lastSeenAt = new Date().toISOString();
+      const tokens = this.issueTokens(session, device);
+      await this.sessionStore.set(session);
+      return tokens;
     });
+  }
+
+  /**
+   * End a session, or only one device's part of it; the tokens stop working immediately
+   */
+  async logout(identifier: string, deviceId?: string): Promise<void> {
+    if (deviceId) {
+      await this.deactivateDevice(identifier, deviceId);
+      return;
+    }
+    await this.sessionStore.delete(identifier);
+  }
+
+  /**
+   * Devices an identifier's activation is in use on, with its seat usage
+   */
+  async listDevices(identifier: string): Promise<{ devices: DeviceActivation[]; seats: SeatUsage } | null> {
+    const session = await this.sessionStore.get(identifier);
+    if (!session) return null;
 
-    return { ok: true, identifier, plan, expiry };
+    return { devices: toPublicSession(session).devices, seats: this.getSeatUsage(session) };
+  }
+
+  /**
+   * Unbind a device and free its seat; resolves with false when it was not bound
+   */
+  async deactivateDevice(identifier: string, deviceId: string): Promise<boolean> {
+    return this.sessionLocks.run(identifier, async () => {
+      const session = await this.sessionStore.get(identifier);
+      if (!session || !findDevice(session, deviceId)) return false;
+
+      session.devices = session.devices.filter((device) => device.deviceId !== deviceId);
+      if (session.devices.length === 0) {
+        await this.sessionStore.delete(identifier);
+      } else {
+        await this.sessionStore.set(session);
+      }
+      return true;
+    });
   }
 
   /**
    * Check if identifier has active session
    */
-  isActive(identifier: string): boolean {
-    const session = this.activeSessions.get(identifier);
+  async isActive(identifier: string): Promise<boolean> {
+    const session = await this.sessionStore.get(identifier);
     if (!session) return false;
 
     // Check if session is still valid
-    const now = new Date();
-    const expiryDate = new Date(session.expiry);
-    
-    if (expiryDate <= now) {
-      this.activeSessions.delete(identifier);
+    if (isSessionExpired(session) || (await this.isRevoked(session))) {
+      await this.sessionStore.delete(identifier);
       return false;
     }
 
@@ -60,22 +309,177 @@ class ActivationService {
   /**
    * Get session info
    */
-  getSession(identifier: string): ActivationSession | null {
-    return this.activeSessions.get(identifier) || null;
+  async getSession(identifier: string): Promise<ActivationSession | null> {
+    return this.sessionStore.get(identifier);
   }
 
   /**
-   * Clean expired sessions
+   * Revoke an identifier or a single key (by nonce). Matching sessions end now;
+   * later activations with the key, or for the identifier, are refused.
    */
-  cleanExpiredSessions(): void {
+  async revoke(
+    type: RevocationType,
+    value: string,
+    reason?: string
+  ): Promise<{ revocation: Revocation; sessionsEnded: number }> {
+    if (!this.revocationStore) {
+      throw new Error('No revocation store configured');
+    }
+
+    const revocation: Revocation = { type, value, reason, revokedAt: new Date().toISOString() };
+    await this.revocationStore.add(revocation);
+
+    const sessions =
+      type === 'identifier'
+        ? [await this.sessionStore.get(value)].filter((session): session is ActivationSession => session !== null)
+        : (await this.sessionStore.list()).filter((session) => session.nonce === value);
+
+    for (const session of sessions) {
+      await this.sessionStore.delete(session.identifier);
+    }
+
+    return { revocation, sessionsEnded: sessions.length };
+  }
+
+  /**
+   * Lift a revocation; resolves with false when there was none
+   */
+  async unrevoke(type: RevocationType, value: string): Promise<boolean> {
+    return this.revocationStore ? this.revocationStore.remove(type, value) : false;
+  }
+
+  async listRevocations(): Promise<Revocation[]> {
+    return this.revocationStore ? this.revocationStore.list() : [];
+  }
+
+  /**
+   * Mint a v2 key signed with the current key id
+   */
+  mintKey(params: { identifier: string; plan: string; expiry: string; claims?: KeyClaims }): MintedKey {
+    const signingKey = this.signingKey();
+    if (!signingKey) {
+      throw new Error('No v2 signing key configured');
+    }
+
+    const nonce = crypto.randomBytes(8).toString('hex');
+    const issuedAt = new Date().toISOString();
+    const key = createActivationKeyV2({ ...params, nonce, issuedAt }, signingKey.kid, signingKey.secret);
+    return { key, ...params, nonce, kid: signingKey.kid, issuedAt };
+  }
+
+  /**
+   * Every unexpired session, without token ids
+   */
+  async listSessions(): Promise<ActivationSession[]> {
     const now = new Date();
-    for (const [identifier, session] of this.activeSessions.entries()) {
-      const expiryDate = new Date(session.expiry);
-      if (expiryDate <= now) {
-        this.activeSessions.delete(identifier);
-      }
+    return (await this.sessionStore.list()).filter((session) => !isSessionExpired(session, now)).map(toPublicSession);
+  }
+
+  /**
+   * A session with its seat usage and revocation state, without token ids
+   */
+  async describeSession(
+    identifier: string
+  ): Promise<{ session: ActivationSession; seats: SeatUsage; revoked: boolean } | null> {
+    const session = await this.sessionStore.get(identifier);
+    if (!session) return null;
+
+    return {
+      session: toPublicSession(session),
+      seats: this.getSeatUsage(session),
+      revoked: await this.isRevoked(session)
+    };
+  }
+
+  /**
+   * Force a session, or one of its devices, to end now; resolves with false when
+   * there was nothing to end
+   */
+  async endSession(identifier: string, deviceId?: string): Promise<boolean> {
+    if (deviceId) return this.deactivateDevice(identifier, deviceId);
+
+    if (!(await this.sessionStore.get(identifier))) return false;
+    await this.sessionStore.delete(identifier);
+    return true;
+  }
+
+  /**
+   * Clean expired sessions; resolves with the number removed
+   */
+  async cleanExpiredSessions(): Promise<number> {
+    return this.sessionStore.deleteExpired(new Date());
+  }
+
+  /**
+   * The key id and secret new v2 keys are signed with
+   */
+  signingKey(): { kid: string; secret: string } | undefined {
+    const kid = this.keyring.currentKid || Object.keys(this.keyring.secrets)[0];
+    return kid && this.keyring.secrets[kid] ? { kid, secret: this.keyring.secrets[kid] } : undefined;
+  }
+
+  /**
+   * The session a token was issued for, if it is still active and was not replaced
+   * by a newer activation of the same identifier
+   */
+  private async getActiveSession(claims: TokenClaims): Promise<ActivationSession | null> {
+    const session = await this.sessionStore.get(claims.sub);
+    if (!session || session.nonce !== claims.nonce || !findDevice(session, claims.did)) return null;
+
+    if (isSessionExpired(session) || (await this.isRevoked(session))) {
+      await this.sessionStore.delete(session.identifier);
+      return null;
     }
+    return session;
+  }
+
+  private async isRevoked(session: ActivationSession): Promise<boolean> {
+    return Boolean(await this.revocationStore?.find(session.identifier, session.nonce));
+  }
+
+  /**
+   * Seats from the key claims, else from the plan
+   */
+  private getSeatUsage(session: ActivationSession): SeatUsage {
+    const claimed = session.claims?.seats;
+    const limit =
+      Number.isInteger(claimed) && (claimed as number) > 0
+        ? (claimed as number)
+        : (getPlan(session.plan)?.seats ?? null);
+    return { used: (session.devices || []).length, limit };
+  }
+
+  /**
+   * Sign a new access/refresh pair for a device and record the refresh token id on it.
+   * Neither token outlives the activation itself.
+   */
+  private issueTokens(session: ActivationSession, device: DeviceActivation): SessionTokens {
+    const now = Math.floor(Date.now() / 1000);
+    const sessionEnd = Math.floor(new Date(session.expiry).getTime() / 1000);
+    const base = {
+      sub: session.identifier,
+      plan: session.plan,
+      nonce: session.nonce || '',
+      did: device.deviceId,
+      iat: now
+    };
+
+    const accessExp = Math.min(now + this.accessTokenTtlSeconds, sessionEnd);
+    const refreshClaims: TokenClaims = {
+      ...base,
+      typ: 'refresh',
+      jti: crypto.randomUUID(),
+      exp: Math.min(now + this.refreshTokenTtlSeconds, sessionEnd)
+    };
+    device.refreshTokenId = refreshClaims.jti;
+
+    return {
+      tokenType: 'Bearer',
+      accessToken: signToken({ ...base, typ: 'access', jti: crypto.randomUUID(), exp: accessExp }, this.tokenSecret),
+      refreshToken: signToken(refreshClaims, this.tokenSecret),
+      expiresIn: accessExp - now
+    };
   }
 }
 
-export default ActivationService;
\ No newline at end of file
+export default ActivationService;
@@ -0,0 +1,69 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { startRespServer } from '../../../utils/__tests__/respServer';
+import { RespClient } from '../../../utils/respClient';
+import type { AuditEntry, AuditLog } from '../auditLog';
+import FileAuditLog from '../fileAuditLog';
+import MemoryAuditLog from '../memoryAuditLog';
+import RedisAuditLog from '../redisAuditLog';
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    action: 'keys.mint',
+    actor: 'ops',
+    method: 'POST',
+    path: '/admin/keys',
+    status: 201,
+    timestamp: '2025-03-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+const fixtures: [string, () => Promise<{ log: AuditLog; close(): Promise<void> }>][] = [
+  ['memory', async () => ({ log: new MemoryAuditLog(), close: async () => {} })],
+  [
+    'file',
+    async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+      return {
+        log: new FileAuditLog(path.join(dir, 'audit', 'audit.ndjson')),
+        close: async () => fs.rmSync(dir, { recursive: true, force: true })
+      };
+    }
+  ],
+  [
+    'redis',
+    async () => {
+      const server = await startRespServer();
+      const client = new RespClient(server.url);
+      return {
+        log: new RedisAuditLog(client),
+        close: async () => {
+          client.close();
+          await server.close();
+        }
+      };
+    }
+  ]
+];
+
+describe.each(fixtures)('%s audit log', (_name, createFixture) => {
+  it('filters entries by action, actor, target and time, oldest first', async () => {
+    const { log, close } = await createFixture();
+    await expect(log.query({})).resolves.toEqual([]);
+
+    await log.append(entry({ target: 'alice' }));
+    await log.append(entry({ action: 'sessions.end', target: 'alice', timestamp: '2025-03-02T00:00:00.000Z' }));
+    await log.append(entry({ actor: 'anonymous', status: 401, timestamp: '2025-03-03T00:00:00.000Z' }));
+
+    expect((await log.query({ target: 'alice' })).map((item) => item.action)).toEqual(['keys.mint', 'sessions.end']);
+    await expect(log.query({ actor: 'anonymous' })).resolves.toEqual([
+      entry({ actor: 'anonymous', status: 401, timestamp: '2025-03-03T00:00:00.000Z' })
+    ]);
+    await expect(
+      log.query({ action: 'keys.mint', from: '2025-03-01T00:00:00.000Z', to: '2025-03-03T00:00:00.000Z' })
+    ).resolves.toHaveLength(1);
+    await close();
+  });
+});
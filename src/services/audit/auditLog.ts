@@ -0,0 +1,53 @@
+// services/audit/auditLog.ts
+
+export interface AuditEntry {
+  /** What was done, e.g. "keys.mint" or "sessions.end" */
+  action: string;
+  /** Name of the admin credential used ("anonymous" when authentication failed) */
+  actor: string;
+  /** Identifier, nonce or other subject of the action */
+  target?: string;
+  details?: Record<string, unknown>;
+  method: string;
+  path: string;
+  /** Response status, so refused and failed attempts are on record too */
+  status: number;
+  ip?: string;
+  requestId?: string;
+  /** ISO timestamp */
+  timestamp: string;
+}
+
+export interface AuditQuery {
+  action?: string;
+  actor?: string;
+  target?: string;
+  /** Inclusive lower bound (ISO timestamp) */
+  from?: string;
+  /** Exclusive upper bound (ISO timestamp) */
+  to?: string;
+}
+
+/**
+ * Append-only trail of admin actions
+ */
+export interface AuditLog {
+  readonly name: string;
+
+  append(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Entries matching the query, oldest first
+   */
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  return (
+    (!query.action || entry.action === query.action) &&
+    (!query.actor || entry.actor === query.actor) &&
+    (!query.target || entry.target === query.target) &&
+    (!query.from || entry.timestamp >= query.from) &&
+    (!query.to || entry.timestamp < query.to)
+  );
+}
@@ -0,0 +1,41 @@
+// services/audit/fileAuditLog.ts
+import fs from 'node:fs';
+import path from 'node:path';
+import { type AuditEntry, type AuditLog, type AuditQuery, matchesAuditQuery } from './auditLog';
+
+/**
+ * Audit trail appended to a newline-delimited JSON file, one entry per line
+ */
+class FileAuditLog implements AuditLog {
+  public readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as AuditEntry;
+      if (matchesAuditQuery(entry, query)) entries.push(entry);
+    }
+    return entries;
+  }
+}
+
+export default FileAuditLog;
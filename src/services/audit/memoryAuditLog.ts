@@ -0,0 +1,20 @@
+// services/audit/memoryAuditLog.ts
+import { type AuditEntry, type AuditLog, type AuditQuery, matchesAuditQuery } from './auditLog';
+
+/**
+ * In-process audit trail. Entries are lost on restart; use the file or Redis log in production.
+ */
+class MemoryAuditLog implements AuditLog {
+  public readonly name = 'memory';
+  private entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.entries.filter((entry) => matchesAuditQuery(entry, query)).map((entry) => ({ ...entry }));
+  }
+}
+
+export default MemoryAuditLog;
@@ -0,0 +1,28 @@
+// services/audit/redisAuditLog.ts
+import type { RespClient } from '../../utils/respClient';
+import { type AuditEntry, type AuditLog, type AuditQuery, matchesAuditQuery } from './auditLog';
+
+/**
+ * Audit trail on a Redis-protocol server, as a single list of JSON entries
+ */
+class RedisAuditLog implements AuditLog {
+  public readonly name = 'redis';
+  private client: RespClient;
+  private key: string;
+
+  constructor(client: RespClient, key = 'traducteur:audit') {
+    this.client = client;
+    this.key = key;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.client.command('RPUSH', this.key, JSON.stringify(entry));
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const values = (await this.client.command('LRANGE', this.key, 0, -1)) as string[];
+    return values.map((value) => JSON.parse(value) as AuditEntry).filter((entry) => matchesAuditQuery(entry, query));
+  }
+}
+
+export default RedisAuditLog;
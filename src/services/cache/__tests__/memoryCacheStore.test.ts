@@ -0,0 +1,58 @@
+import MemoryCacheStore from '../memoryCacheStore';
+
+describe('MemoryCacheStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores values until their TTL runs out', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 10 });
+    await store.set('a', '1', 1000);
+
+    vi.advanceTimersByTime(999);
+    await expect(store.get('a')).resolves.toBe('1');
+
+    vi.advanceTimersByTime(1);
+    await expect(store.get('a')).resolves.toBeNull();
+    await expect(store.size()).resolves.toBe(0);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+    await store.get('a');
+
+    await store.set('c', '3', 1000);
+
+    await expect(store.get('a')).resolves.toBe('1');
+    await expect(store.get('b')).resolves.toBeNull();
+    await expect(store.get('c')).resolves.toBe('3');
+  });
+
+  it('drops expired entries on evictExpired()', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 10 });
+    await store.set('short', '1', 100);
+    await store.set('long', '2', 10000);
+
+    vi.advanceTimersByTime(100);
+
+    await expect(store.evictExpired()).resolves.toBe(1);
+    await expect(store.size()).resolves.toBe(1);
+  });
+
+  it('deletes single entries and clears everything', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 10 });
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+
+    await store.delete('a');
+    await expect(store.get('a')).resolves.toBeNull();
+    await expect(store.clear()).resolves.toBe(1);
+    await expect(store.size()).resolves.toBe(0);
+  });
+});
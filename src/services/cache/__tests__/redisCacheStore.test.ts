@@ -0,0 +1,46 @@
+import { type FakeRespServer, startRespServer } from '../../../utils/__tests__/respServer';
+import { RespClient } from '../../../utils/respClient';
+import RedisCacheStore from '../redisCacheStore';
+
+describe('RedisCacheStore', () => {
+  let server: FakeRespServer;
+  let client: RespClient;
+  let store: RedisCacheStore;
+
+  beforeEach(async () => {
+    server = await startRespServer();
+    client = new RespClient(server.url);
+    store = new RedisCacheStore(client, 'test:cache:');
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.close();
+  });
+
+  it('sets prefixed keys with a millisecond TTL', async () => {
+    await store.set('a', 'value', 1500.4);
+
+    expect(server.commands).toContainEqual(['SET', 'test:cache:a', 'value', 'PX', '1500']);
+    await expect(store.get('a')).resolves.toBe('value');
+    await expect(store.get('missing')).resolves.toBeNull();
+  });
+
+  it('counts and clears only its own keys', async () => {
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+    await client.command('SET', 'other:key', 'x');
+
+    await expect(store.size()).resolves.toBe(2);
+    await expect(store.clear()).resolves.toBe(2);
+    await expect(client.command('GET', 'other:key')).resolves.toBe('x');
+  });
+
+  it('deletes single entries', async () => {
+    await store.set('a', '1', 1000);
+
+    await store.delete('a');
+
+    await expect(store.get('a')).resolves.toBeNull();
+  });
+});
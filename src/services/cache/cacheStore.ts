@@ -0,0 +1,28 @@
+// services/cache/cacheStore.ts
+
+/**
+ * Key/value store with per-entry TTL. String values and millisecond TTLs
+ * keep it a direct fit for Redis-protocol servers (GET / SET PX / DEL).
+ */
+export interface CacheStore {
+  readonly name: string;
+
+  get(key: string): Promise<string | null>;
+
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove every entry owned by this store; resolves with the number removed
+   */
+  clear(): Promise<number>;
+
+  size(): Promise<number>;
+
+  /**
+   * Drop expired entries; resolves with the number removed. Only needed by
+   * stores without native expiry.
+   */
+  evictExpired?(): Promise<number>;
+}
@@ -0,0 +1,82 @@
+// services/cache/memoryCacheStore.ts
+import type { CacheStore } from './cacheStore';
+
+interface CacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+export interface MemoryCacheStoreOptions {
+  maxEntries: number;
+}
+
+/**
+ * In-process LRU cache with TTL. Map insertion order doubles as recency order:
+ * reads re-insert the entry, eviction drops the oldest key.
+ */
+class MemoryCacheStore implements CacheStore {
+  public readonly name = 'memory';
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(options: MemoryCacheStoreOptions) {
+    this.maxEntries = Math.max(1, options.maxEntries);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  /**
+   * Drop expired entries; resolves with the number removed
+   */
+  async evictExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+export default MemoryCacheStore;
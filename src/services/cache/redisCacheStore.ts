@@ -0,0 +1,60 @@
+// services/cache/redisCacheStore.ts
+import type { RespClient } from '../../utils/respClient';
+import type { CacheStore } from './cacheStore';
+
+/**
+ * Cache store backed by any Redis-protocol server. Size limits are left to the
+ * server's own eviction policy (maxmemory / allkeys-lru).
+ */
+class RedisCacheStore implements CacheStore {
+  public readonly name = 'redis';
+  private client: RespClient;
+  private prefix: string;
+
+  constructor(client: RespClient, prefix = 'traducteur:cache:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.client.command('GET', this.prefix + key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command('SET', this.prefix + key, value, 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + key);
+  }
+
+  async clear(): Promise<number> {
+    const keys = await this.scanKeys();
+    let removed = 0;
+    for (let i = 0; i < keys.length; i += 500) {
+      removed += Number(await this.client.command('DEL', ...keys.slice(i, i + 500)));
+    }
+    return removed;
+  }
+
+  async size(): Promise<number> {
+    return (await this.scanKeys()).length;
+  }
+
+  private async scanKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const reply = (await this.client.command('SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500)) as [
+        string,
+        string[]
+      ];
+      cursor = reply[0];
+      keys.push(...reply[1]);
+    } while (cursor !== '0');
+    return keys;
+  }
+}
+
+export default RedisCacheStore;
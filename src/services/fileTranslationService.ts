@@ -0,0 +1,112 @@
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { FileFormatHandler, TranslatableUnit } from '../utils/formats';
+import type { UsageAccount } from './ledger/usageLedger';
+import type TranslateService from './translationService';
+
+export interface FileTranslationOptions {
+  /** Plain-text units sent per provider call */
+  batchSize: number;
+  /** Parallel requests for units translated one by one (inline markup) */
+  concurrency: number;
+}
+
+interface FileTranslateParams {
+  content: string;
+  format: FileFormatHandler;
+  sourceLanguage: string;
+  targetLanguage: string;
+  account?: UsageAccount;
+}
+
+interface FileTranslateResult {
+  content: string;
+  units: number;
+  provider?: string;
+}
+
+/**
+ * Translate structured files unit by unit and rebuild them in their original format
+ */
+class FileTranslationService {
+  private translateService: TranslateService;
+  private options: FileTranslationOptions;
+
+  constructor(translateService: TranslateService, options: FileTranslationOptions) {
+    this.translateService = translateService;
+    this.options = options;
+  }
+
+  /**
+   * @throws FileFormatError when the file cannot be parsed, TranslationError when a unit fails
+   */
+  async translateFile(params: FileTranslateParams): Promise<FileTranslateResult> {
+    const { content, format, sourceLanguage, targetLanguage, account } = params;
+    const parsed = format.parse(content, { sourceLanguage, targetLanguage });
+    const translations: string[] = new Array(parsed.units.length);
+    let provider: string | undefined;
+
+    // Surrounding whitespace is layout, not text: translate the trimmed core only
+    const split = parsed.units.map((unit) => splitWhitespace(unit));
+    const plain: number[] = [];
+    const markup: number[] = [];
+
+    split.forEach((unit, index) => {
+      if (unit.core.length === 0) {
+        translations[index] = parsed.units[index].text;
+      } else {
+        (unit.format === 'html' ? markup : plain).push(index);
+      }
+    });
+
+    for (let start = 0; start < plain.length; start += this.options.batchSize) {
+      const slice = plain.slice(start, start + this.options.batchSize);
+      const result = await this.translateService.translateBatch({
+        texts: slice.map((index) => split[index].core),
+        sourceLanguage,
+        targetLanguage,
+        account
+      });
+
+      provider = result.provider || provider;
+      result.translations.forEach((translation, j) => {
+        const unit = split[slice[j]];
+        translations[slice[j]] = unit.leading + translation.translatedText + unit.trailing;
+      });
+    }
+
+    const results = await mapWithConcurrency(markup, this.options.concurrency, (index) =>
+      this.translateService.translation({
+        text: split[index].core,
+        sourceLanguage,
+        targetLanguage,
+        format: 'html',
+        account
+      })
+    );
+
+    for (let j = 0; j < markup.length; j++) {
+      const result = results[j];
+      const unit = split[markup[j]];
+      translations[markup[j]] = unit.leading + result.translatedText + unit.trailing;
+      provider = result.provider || provider;
+    }
+
+    return {
+      content: parsed.serialize(translations),
+      units: parsed.units.length,
+      provider
+    };
+  }
+}
+
+function splitWhitespace(unit: TranslatableUnit): {
+  leading: string;
+  core: string;
+  trailing: string;
+  format: TranslatableUnit['format'];
+} {
+  const [, leading, core, trailing] = unit.text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+  return { leading, core, trailing, format: unit.format };
+}
+
+export default FileTranslationService;
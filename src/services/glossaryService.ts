@@ -0,0 +1,183 @@
+import crypto from 'node:crypto';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import type { GlossaryEntries } from '../utils/glossary';
+import { readJsonFileSync, writeJsonFile } from '../utils/jsonFile';
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  /** Forced terms only apply when translating into this language (all targets if unset) */
+  targetLanguage?: string;
+  doNotTranslate: string[];
+  terms: GlossaryTerm[];
+  caseSensitive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GlossaryInput = Pick<Glossary, 'name'> &
+  Partial<Pick<Glossary, 'targetLanguage' | 'doNotTranslate' | 'terms' | 'caseSensitive'>>;
+
+const MAX_GLOSSARIES_PER_IDENTIFIER = 20;
+const MAX_ENTRIES_PER_GLOSSARY = 500;
+
+class GlossaryService {
+  // identifier -> glossary id -> glossary
+  private glossaries: Map<string, Map<string, Glossary>> = new Map();
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+
+    if (filePath) {
+      const saved = readJsonFileSync<Record<string, Glossary[]>>(filePath, {});
+      for (const [identifier, list] of Object.entries(saved)) {
+        this.glossaries.set(identifier, new Map(list.map((glossary) => [glossary.id, glossary])));
+      }
+    }
+  }
+
+  /**
+   * List glossaries owned by an identifier
+   */
+  list(identifier: string): Glossary[] {
+    return Array.from(this.glossaries.get(identifier)?.values() || []);
+  }
+
+  /**
+   * Get a single glossary, scoped to its owner
+   */
+  get(identifier: string, id: string): Glossary | null {
+    return this.glossaries.get(identifier)?.get(id) || null;
+  }
+
+  /**
+   * @throws ValidationError for invalid input or when the owner has too many glossaries
+   */
+  async create(identifier: string, input: GlossaryInput): Promise<Glossary> {
+    const owned = this.glossaries.get(identifier) || new Map<string, Glossary>();
+    if (owned.size >= MAX_GLOSSARIES_PER_IDENTIFIER) {
+      throw new ValidationError(`Glossary limit reached (${MAX_GLOSSARIES_PER_IDENTIFIER} per account)`);
+    }
+
+    this.validate(input);
+
+    const now = new Date().toISOString();
+    const glossary: Glossary = {
+      id: crypto.randomUUID(),
+      name: input.name.trim(),
+      targetLanguage: input.targetLanguage,
+      doNotTranslate: input.doNotTranslate || [],
+      terms: input.terms || [],
+      caseSensitive: input.caseSensitive === true,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    owned.set(glossary.id, glossary);
+    this.glossaries.set(identifier, owned);
+    await this.persist();
+
+    return glossary;
+  }
+
+  /**
+   * Replace the editable fields of a glossary
+   * @throws NotFoundError if the identifier owns no glossary with this id
+   * @throws ValidationError for invalid input
+   */
+  async update(identifier: string, id: string, input: GlossaryInput): Promise<Glossary> {
+    const existing = this.get(identifier, id);
+    if (!existing) {
+      throw new NotFoundError('Glossary not found');
+    }
+
+    this.validate(input);
+
+    const glossary: Glossary = {
+      ...existing,
+      name: input.name.trim(),
+      targetLanguage: input.targetLanguage,
+      doNotTranslate: input.doNotTranslate || [],
+      terms: input.terms || [],
+      caseSensitive: input.caseSensitive === true,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.glossaries.get(identifier)?.set(id, glossary);
+    await this.persist();
+
+    return glossary;
+  }
+
+  /**
+   * @throws NotFoundError if the identifier owns no glossary with this id
+   */
+  async delete(identifier: string, id: string): Promise<void> {
+    if (!this.glossaries.get(identifier)?.delete(id)) {
+      throw new NotFoundError('Glossary not found');
+    }
+    await this.persist();
+  }
+
+  /**
+   * Entries that apply when translating into the given language
+   */
+  entriesFor(glossary: Glossary, targetLanguage: string): GlossaryEntries {
+    const termsApply = !glossary.targetLanguage || glossary.targetLanguage === targetLanguage;
+    return {
+      doNotTranslate: glossary.doNotTranslate,
+      terms: termsApply ? glossary.terms : [],
+      caseSensitive: glossary.caseSensitive
+    };
+  }
+
+  /**
+   * @throws ValidationError describing the first problem found
+   */
+  private validate(input: GlossaryInput): void {
+    if (!input || typeof input.name !== 'string' || input.name.trim().length === 0) {
+      throw new ValidationError('Glossary name is required');
+    }
+
+    if (input.targetLanguage !== undefined && typeof input.targetLanguage !== 'string') {
+      throw new ValidationError('targetLanguage must be a language code');
+    }
+
+    const doNotTranslate = input.doNotTranslate || [];
+    if (!Array.isArray(doNotTranslate) || !doNotTranslate.every((term) => typeof term === 'string' && term.trim())) {
+      throw new ValidationError('doNotTranslate must be an array of non-empty strings');
+    }
+
+    const terms = input.terms || [];
+    if (
+      !Array.isArray(terms) ||
+      !terms.every(
+        (term) => term && typeof term.source === 'string' && term.source.trim() && typeof term.target === 'string'
+      )
+    ) {
+      throw new ValidationError('terms must be an array of { source, target } strings');
+    }
+
+    if (doNotTranslate.length + terms.length > MAX_ENTRIES_PER_GLOSSARY) {
+      throw new ValidationError(`Too many entries. Maximum is ${MAX_ENTRIES_PER_GLOSSARY} per glossary`);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    const data: Record<string, Glossary[]> = {};
+    for (const [identifier, owned] of this.glossaries.entries()) {
+      data[identifier] = Array.from(owned.values());
+    }
+    await writeJsonFile(this.filePath, data);
+  }
+}
+
+export default GlossaryService;
@@ -0,0 +1,392 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import https from 'node:https';
+import axios from 'axios';
+import { ApiError, TranslationError, ValidationError } from '../utils/errors';
+import { signWebhookPayload } from '../utils/hmac';
+import { logger } from '../utils/logger';
+import { assertPublicHttpUrl, createPublicLookup } from '../utils/outboundUrl';
+import { getRequestContext, newSpanId, outboundHeaders, runWithContext } from '../utils/requestContext';
+import { chunkText, type TextChunk } from '../utils/textChunker';
+import type { JobQueue, TranslationJob, TranslationJobRequest } from './jobs/jobQueue';
+import type { UsageAccount } from './ledger/usageLedger';
+import type TranslateService from './translationService';
+
+const log = logger.child({ module: 'jobs' });
+
+export interface JobServiceOptions {
+  /** Jobs processed in parallel */
+  concurrency: number;
+  /** Attempts per translation unit before the job fails */
+  maxAttempts: number;
+  /** First retry delay; doubles on every attempt */
+  backoffMs: number;
+  pollIntervalMs: number;
+  chunkChars: number;
+  /** Signs webhook deliveries; jobs with a callbackUrl are rejected without it */
+  webhookSecret?: string;
+  webhookTimeoutMs: number;
+  /** Callback hosts exempt from the private-address check (e.g. an internal receiver) */
+  webhookAllowedHosts: string[];
+  /** A running job without progress for this long is assumed to have lost its worker */
+  staleAfterMs: number;
+  /** How long completed and failed jobs are kept */
+  retentionMs: number;
+}
+
+export interface PublicJobSummary
+  extends Pick<
+    TranslationJob,
+    | 'id'
+    | 'status'
+    | 'progress'
+    | 'attempts'
+    | 'error'
+    | 'errorCode'
+    | 'createdAt'
+    | 'updatedAt'
+    | 'startedAt'
+    | 'completedAt'
+  > {
+  sourceLanguage: string;
+  targetLanguage: string;
+  webhook?: { delivered: boolean; attempts: number; deliveredAt?: string };
+}
+
+export interface PublicJob extends PublicJobSummary {
+  result?: TranslationJob['result'];
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class JobService {
+  private queue: JobQueue;
+  private translateService: TranslateService;
+  private options: JobServiceOptions;
+  private timer?: NodeJS.Timeout;
+  private running = 0;
+  /** Jobs this process is working on, which are never reaped */
+  private activeJobIds: Set<string> = new Set();
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+
+  constructor(queue: JobQueue, translateService: TranslateService, options: JobServiceOptions) {
+    this.queue = queue;
+    this.translateService = translateService;
+    this.options = options;
+
+    // Re-check the resolved address on every connection, not just at submit time
+    const lookup = createPublicLookup(options.webhookAllowedHosts);
+    this.httpAgent = new http.Agent({ lookup });
+    this.httpsAgent = new https.Agent({ lookup });
+  }
+
+  /**
+   * Create a queued job and return it immediately
+   */
+  async submit(account: UsageAccount, request: TranslationJobRequest, callbackUrl?: string): Promise<TranslationJob> {
+    if (callbackUrl !== undefined) {
+      await this.validateCallbackUrl(callbackUrl);
+    }
+
+    const now = new Date().toISOString();
+    const job: TranslationJob = {
+      id: crypto.randomUUID(),
+      identifier: account.identifier,
+      plan: account.plan,
+      status: 'queued',
+      request,
+      progress: { completed: 0, total: this.unitsFor(request).length },
+      attempts: 0,
+      callbackUrl,
+      trace: getRequestContext(),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.queue.enqueue(job);
+    this.poll();
+    return job;
+  }
+
+  /**
+   * Webhooks need a dedicated signing secret and a callback on a public address
+   */
+  private async validateCallbackUrl(callbackUrl: string): Promise<void> {
+    if (!this.options.webhookSecret) {
+      throw new ValidationError('callbackUrl is not supported: webhooks are disabled on this server');
+    }
+
+    try {
+      await assertPublicHttpUrl(callbackUrl, this.options.webhookAllowedHosts);
+    } catch (error) {
+      throw new ValidationError(`callbackUrl is not allowed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a job, scoped to its owner
+   */
+  async getJob(identifier: string, id: string): Promise<TranslationJob | null> {
+    const job = await this.queue.get(id);
+    return job && job.identifier === identifier ? job : null;
+  }
+
+  async listJobs(identifier: string): Promise<TranslationJob[]> {
+    return this.queue.list({ identifier });
+  }
+
+  /**
+   * Start polling the queue
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.poll();
+      this.timer = setTimeout(tick, this.options.pollIntervalMs);
+      this.timer.unref();
+    };
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Requeue running jobs whose worker stopped making progress (or fail them once
+   * they have been started maxAttempts times) and delete finished jobs past retention
+   */
+  async reap(now = Date.now()): Promise<{ requeued: number; failed: number; deleted: number }> {
+    let requeued = 0;
+    let failed = 0;
+    let deleted = 0;
+
+    for (const job of await this.queue.list({ status: 'running' })) {
+      if (this.activeJobIds.has(job.id) || now - new Date(job.updatedAt).getTime() < this.options.staleAfterMs)
+        continue;
+
+      if (job.attempts >= this.options.maxAttempts) {
+        job.status = 'failed';
+        job.error = 'Job worker stopped responding';
+        job.errorCode = 'INTERNAL_ERROR';
+        job.completedAt = new Date(now).toISOString();
+        await this.queue.update(job);
+        failed++;
+        log.warn({ jobId: job.id }, 'Job failed: worker stopped responding');
+
+        if (job.callbackUrl) {
+          await this.inJobContext(job, () => this.deliverWebhook(job));
+        }
+      } else {
+        job.status = 'queued';
+        await this.queue.update(job);
+        requeued++;
+        log.warn({ jobId: job.id }, 'Job requeued: worker stopped responding');
+      }
+    }
+
+    for (const job of await this.queue.list()) {
+      const finished = job.status === 'completed' || job.status === 'failed';
+      if (finished && job.completedAt && now - new Date(job.completedAt).getTime() >= this.options.retentionMs) {
+        await this.queue.delete(job.id);
+        deleted++;
+      }
+    }
+
+    if (requeued > 0) this.poll();
+    return { requeued, failed, deleted };
+  }
+
+  /**
+   * Start a worker if below the concurrency limit. A worker that finds a job
+   * calls poll() again, so a backlog fans out up to `concurrency` workers.
+   */
+  private poll(): void {
+    if (this.running >= this.options.concurrency) return;
+
+    this.running++;
+    this.runNext()
+      .catch((error) => log.error({ err: error }, 'Job worker error'))
+      .finally(() => {
+        this.running--;
+      });
+  }
+
+  private async runNext(): Promise<void> {
+    const job = await this.queue.dequeue();
+    if (!job) return;
+
+    this.poll();
+    await this.inJobContext(job, () => this.run(job));
+
+    // Keep draining while work remains (after this worker has been released)
+    setImmediate(() => this.poll());
+  }
+
+  /**
+   * Run `fn` in the context of the request that submitted the job, under a new span
+   */
+  private inJobContext<T>(job: TranslationJob, fn: () => Promise<T>): Promise<T> {
+    return job.trace ? runWithContext({ ...job.trace, spanId: newSpanId() }, fn) : fn();
+  }
+
+  private async run(job: TranslationJob): Promise<void> {
+    log.info({ jobId: job.id, units: job.progress.total }, 'Job started');
+    job.attempts++;
+    this.activeJobIds.add(job.id);
+
+    try {
+      const units = this.unitsFor(job.request);
+      const translations: string[] = [];
+
+      for (const unit of units) {
+        translations.push(unit.text ? await this.translateWithRetry(job, unit.text) : '');
+        job.progress = { completed: translations.length, total: units.length };
+        await this.queue.update(job);
+      }
+
+      job.result = job.request.texts
+        ? { translations }
+        : { translatedText: units.map((unit, index) => unit.leading + translations[index] + unit.trailing).join('') };
+      job.status = 'completed';
+      log.info({ jobId: job.id }, 'Job completed');
+    } catch (error) {
+      job.status = 'failed';
+      job.error = (error as Error).message || 'Translation failed';
+      job.errorCode = error instanceof ApiError ? error.code : 'INTERNAL_ERROR';
+      log.error({ jobId: job.id, code: job.errorCode, err: error }, 'Job failed');
+    }
+
+    job.completedAt = new Date().toISOString();
+    await this.queue.update(job);
+    this.activeJobIds.delete(job.id);
+
+    if (job.callbackUrl) {
+      await this.deliverWebhook(job);
+    }
+  }
+
+  /**
+   * Translate one unit, retrying transient failures with exponential backoff
+   */
+  private async translateWithRetry(job: TranslationJob, text: string): Promise<string> {
+    const { sourceLanguage, targetLanguage } = job.request;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.translateService.translation({
+          text,
+          sourceLanguage,
+          targetLanguage,
+          account: { identifier: job.identifier, plan: job.plan || 'unknown' }
+        });
+        return result.translatedText;
+      } catch (error) {
+        // Client errors will not succeed on retry
+        if (!(error instanceof TranslationError) || !error.retryable || attempt >= this.options.maxAttempts) {
+          throw error;
+        }
+
+        const delay = this.options.backoffMs * 2 ** (attempt - 1);
+        log.warn({ jobId: job.id, attempt, delay, code: error.code }, 'Job translation attempt failed, retrying');
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * POST the final job state to its callback URL, signed like activation keys (HMAC-SHA256)
+   */
+  private async deliverWebhook(job: TranslationJob): Promise<void> {
+    const body = JSON.stringify({
+      event: job.status === 'completed' ? 'job.completed' : 'job.failed',
+      job: this.toPublicJob(job)
+    });
+    const webhook = {
+      delivered: false,
+      attempts: 0,
+      lastError: undefined as string | undefined,
+      deliveredAt: undefined as string | undefined
+    };
+
+    while (!webhook.delivered && webhook.attempts < this.options.maxAttempts) {
+      webhook.attempts++;
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        await axios.post(job.callbackUrl as string, body, {
+          timeout: this.options.webhookTimeoutMs,
+          maxRedirects: 0,
+          httpAgent: this.httpAgent,
+          httpsAgent: this.httpsAgent,
+          headers: {
+            ...outboundHeaders(),
+            'Content-Type': 'application/json',
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhookPayload(body, timestamp, this.options.webhookSecret as string)
+          }
+        });
+        webhook.delivered = true;
+        webhook.deliveredAt = new Date().toISOString();
+      } catch (error) {
+        webhook.lastError = (error as Error).message;
+        if (webhook.attempts < this.options.maxAttempts) {
+          await sleep(this.options.backoffMs * 2 ** (webhook.attempts - 1));
+        }
+      }
+    }
+
+    if (!webhook.delivered) {
+      log.error({ jobId: job.id, attempts: webhook.attempts, error: webhook.lastError }, 'Webhook delivery failed');
+    }
+
+    job.webhook = webhook;
+    await this.queue.update(job);
+  }
+
+  /**
+   * Job as listed to API clients, without its result
+   */
+  toJobSummary(job: TranslationJob): PublicJobSummary {
+    return {
+      id: job.id,
+      status: job.status,
+      sourceLanguage: job.request.sourceLanguage,
+      targetLanguage: job.request.targetLanguage,
+      progress: job.progress,
+      attempts: job.attempts,
+      error: job.error,
+      errorCode: job.errorCode,
+      webhook: job.webhook && {
+        delivered: job.webhook.delivered,
+        attempts: job.webhook.attempts,
+        deliveredAt: job.webhook.deliveredAt
+      },
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt
+    };
+  }
+
+  /**
+   * Job as exposed to API clients and webhooks (owner, callback and delivery errors stay private)
+   */
+  toPublicJob(job: TranslationJob): PublicJob {
+    return { ...this.toJobSummary(job), result: job.result };
+  }
+
+  private unitsFor(request: TranslationJobRequest): TextChunk[] {
+    if (request.texts) {
+      return request.texts.map((text) => ({ leading: '', text, trailing: '' }));
+    }
+    return chunkText(request.text || '', this.options.chunkChars);
+  }
+}
+
+export default JobService;
@@ -0,0 +1,78 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import FileJobQueue from '../fileJobQueue';
+import type { TranslationJob } from '../jobQueue';
+
+function job(id: string): TranslationJob {
+  const now = new Date().toISOString();
+  return {
+    id,
+    identifier: 'alice',
+    status: 'queued',
+    request: { text: 'Hello', sourceLanguage: 'en', targetLanguage: 'fr' },
+    progress: { completed: 0, total: 1 },
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+describe('FileJobQueue', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    filePath = path.join(dir, 'jobs.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('dequeues the oldest queued job and persists every change', async () => {
+    const queue = new FileJobQueue(filePath);
+    await queue.enqueue(job('a'));
+    await queue.enqueue(job('b'));
+
+    const running = await queue.dequeue();
+
+    expect(running).toMatchObject({ id: 'a', status: 'running' });
+    expect(running?.startedAt).toBeDefined();
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TranslationJob[];
+    expect(saved.map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: 'a', status: 'running' },
+      { id: 'b', status: 'queued' }
+    ]);
+  });
+
+  it('requeues jobs that were running when the process stopped', async () => {
+    const queue = new FileJobQueue(filePath);
+    await queue.enqueue(job('a'));
+    await queue.enqueue(job('b'));
+    const first = (await queue.dequeue()) as TranslationJob;
+    await queue.update({ ...first, status: 'completed', result: { translatedText: 'Bonjour' } });
+    await queue.dequeue();
+
+    const restarted = new FileJobQueue(filePath);
+
+    await expect(restarted.get('a')).resolves.toMatchObject({
+      status: 'completed',
+      result: { translatedText: 'Bonjour' }
+    });
+    await expect(restarted.dequeue()).resolves.toMatchObject({ id: 'b', status: 'running' });
+  });
+
+  it('filters listed jobs and deletes them from the file', async () => {
+    const queue = new FileJobQueue(filePath);
+    await queue.enqueue(job('a'));
+    await queue.enqueue({ ...job('b'), identifier: 'bob' });
+
+    expect((await queue.list({ identifier: 'bob' })).map((item) => item.id)).toEqual(['b']);
+    expect(await queue.list({ status: 'running' })).toEqual([]);
+
+    await queue.delete('a');
+    await expect(new FileJobQueue(filePath).list()).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,29 @@
+// services/jobs/fileJobQueue.ts
+import { readJsonFileSync, writeJsonFile } from '../../utils/jsonFile';
+import type { TranslationJob } from './jobQueue';
+import MemoryJobQueue from './memoryJobQueue';
+
+/**
+ * Job queue persisted to a JSON file. Jobs that were running when the process
+ * stopped are put back in the queue on startup. Single-instance only: the file
+ * is written from this process's in-memory state.
+ */
+class FileJobQueue extends MemoryJobQueue {
+  public readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+
+    for (const job of readJsonFileSync<TranslationJob[]>(filePath, [])) {
+      this.jobs.set(job.id, job.status === 'running' ? { ...job, status: 'queued' } : job);
+    }
+  }
+
+  protected async changed(): Promise<void> {
+    await writeJsonFile(this.filePath, Array.from(this.jobs.values()));
+  }
+}
+
+export default FileJobQueue;
@@ -0,0 +1,60 @@
+// services/jobs/jobQueue.ts
+import type { ErrorCode } from '../../utils/errors';
+import type { RequestContext } from '../../utils/requestContext';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface TranslationJobRequest {
+  /** A single (possibly very large) document, split into chunks */
+  text?: string;
+  /** Or independent items, translated one by one */
+  texts?: string[];
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface TranslationJob {
+  id: string;
+  identifier: string;
+  /** Plan of the submitting account, for usage metering */
+  plan?: string;
+  status: JobStatus;
+  request: TranslationJobRequest;
+  progress: { completed: number; total: number };
+  attempts: number;
+  result?: { translatedText?: string; translations?: string[] };
+  error?: string;
+  /** Machine-readable reason for a failed job */
+  errorCode?: ErrorCode;
+  callbackUrl?: string;
+  /** Request context of the submission, continued by the worker and webhook deliveries */
+  trace?: RequestContext;
+  webhook?: { delivered: boolean; attempts: number; lastError?: string; deliveredAt?: string };
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Storage and ordering for translation jobs. Implementations decide where jobs
+ * live (memory, file, database); JobService only relies on this contract.
+ */
+export interface JobQueue {
+  readonly name: string;
+
+  enqueue(job: TranslationJob): Promise<void>;
+
+  /**
+   * Take the oldest queued job and mark it running, or resolve null when idle
+   */
+  dequeue(): Promise<TranslationJob | null>;
+
+  get(id: string): Promise<TranslationJob | null>;
+
+  update(job: TranslationJob): Promise<void>;
+
+  list(filter?: { identifier?: string; status?: JobStatus }): Promise<TranslationJob[]>;
+
+  delete(id: string): Promise<void>;
+}
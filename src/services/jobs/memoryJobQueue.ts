@@ -0,0 +1,59 @@
+// services/jobs/memoryJobQueue.ts
+import type { JobQueue, JobStatus, TranslationJob } from './jobQueue';
+
+/**
+ * In-process job queue. Jobs are lost on restart; see FileJobQueue for persistence.
+ */
+class MemoryJobQueue implements JobQueue {
+  public readonly name: string = 'memory';
+  protected jobs: Map<string, TranslationJob> = new Map();
+
+  async enqueue(job: TranslationJob): Promise<void> {
+    this.jobs.set(job.id, { ...job, status: 'queued' });
+    await this.changed();
+  }
+
+  async dequeue(): Promise<TranslationJob | null> {
+    // Map iteration follows insertion order, so the first queued job is the oldest
+    for (const job of this.jobs.values()) {
+      if (job.status === 'queued') {
+        const now = new Date().toISOString();
+        const running: TranslationJob = { ...job, status: 'running', startedAt: job.startedAt || now, updatedAt: now };
+        this.jobs.set(job.id, running);
+        await this.changed();
+        return { ...running };
+      }
+    }
+    return null;
+  }
+
+  async get(id: string): Promise<TranslationJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(job: TranslationJob): Promise<void> {
+    this.jobs.set(job.id, { ...job, updatedAt: new Date().toISOString() });
+    await this.changed();
+  }
+
+  async list(filter: { identifier?: string; status?: JobStatus } = {}): Promise<TranslationJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => !filter.identifier || job.identifier === filter.identifier)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .map((job) => ({ ...job }));
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.jobs.delete(id)) {
+      await this.changed();
+    }
+  }
+
+  /**
+   * Hook for persistent subclasses, called after every mutation
+   */
+  protected async changed(): Promise<void> {}
+}
+
+export default MemoryJobQueue;
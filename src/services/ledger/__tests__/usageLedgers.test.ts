@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { type FakeRespServer, startRespServer } from '../../../utils/__tests__/respServer';
+import { RespClient } from '../../../utils/respClient';
+import FileUsageLedger from '../fileUsageLedger';
+import MemoryUsageLedger from '../memoryUsageLedger';
+import RedisUsageLedger from '../redisUsageLedger';
+import type { UsageLedger, UsageRecord } from '../usageLedger';
+
+function record(identifier: string, timestamp: string, characters = 10): UsageRecord {
+  return {
+    identifier,
+    plan: 'premium',
+    operation: 'translate',
+    provider: 'libretranslate',
+    sourceLanguage: 'en',
+    targetLanguage: 'fr',
+    characters,
+    cached: false,
+    timestamp
+  };
+}
+
+interface LedgerFixture {
+  ledger: UsageLedger;
+  close(): Promise<void>;
+}
+
+const fixtures: [string, () => Promise<LedgerFixture>][] = [
+  ['memory', async () => ({ ledger: new MemoryUsageLedger(), close: async () => {} })],
+  [
+    'file',
+    async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+      return {
+        ledger: new FileUsageLedger(path.join(dir, 'usage', 'ledger.ndjson')),
+        close: async () => fs.rmSync(dir, { recursive: true, force: true })
+      };
+    }
+  ],
+  [
+    'redis',
+    async () => {
+      const server: FakeRespServer = await startRespServer();
+      const client = new RespClient(server.url);
+      return {
+        ledger: new RedisUsageLedger(client),
+        close: async () => {
+          client.close();
+          await server.close();
+        }
+      };
+    }
+  ]
+];
+
+describe.each(fixtures)('%s usage ledger', (_name, createFixture) => {
+  let fixture: LedgerFixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture();
+  });
+
+  afterEach(async () => {
+    await fixture.close();
+  });
+
+  it('returns nothing before the first record', async () => {
+    await expect(fixture.ledger.query({})).resolves.toEqual([]);
+  });
+
+  it('queries records by identifier and time range, oldest first', async () => {
+    const { ledger } = fixture;
+    await ledger.append(record('alice', '2025-03-01T00:00:00.000Z'));
+    await ledger.append(record('bob', '2025-03-02T00:00:00.000Z'));
+    await ledger.append(record('alice', '2025-03-03T00:00:00.000Z', 5));
+    await ledger.append(record('alice', '2025-04-01T00:00:00.000Z'));
+
+    const march = await ledger.query({
+      identifier: 'alice',
+      from: '2025-03-01T00:00:00.000Z',
+      to: '2025-04-01T00:00:00.000Z'
+    });
+    const everyone = await ledger.query({ to: '2025-03-03T00:00:00.000Z' });
+
+    expect(march).toEqual([
+      record('alice', '2025-03-01T00:00:00.000Z'),
+      record('alice', '2025-03-03T00:00:00.000Z', 5)
+    ]);
+    expect(everyone.map((item) => item.identifier)).toEqual(['alice', 'bob']);
+  });
+});
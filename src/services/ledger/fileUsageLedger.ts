@@ -0,0 +1,42 @@
+// services/ledger/fileUsageLedger.ts
+import fs from 'node:fs';
+import path from 'node:path';
+import { matchesQuery, type UsageLedger, type UsageQuery, type UsageRecord } from './usageLedger';
+
+/**
+ * Ledger appended to a newline-delimited JSON file, one record per line. Appends
+ * are atomic for lines this short, so several processes may share the file.
+ */
+class FileUsageLedger implements UsageLedger {
+  public readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async append(record: UsageRecord): Promise<void> {
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+  }
+
+  async query(query: UsageQuery): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      const record = JSON.parse(line) as UsageRecord;
+      if (matchesQuery(record, query)) records.push(record);
+    }
+    return records;
+  }
+}
+
+export default FileUsageLedger;
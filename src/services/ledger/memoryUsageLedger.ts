@@ -0,0 +1,20 @@
+// services/ledger/memoryUsageLedger.ts
+import { matchesQuery, type UsageLedger, type UsageQuery, type UsageRecord } from './usageLedger';
+
+/**
+ * In-process ledger. Records are lost on restart; use the file or Redis ledger for billing.
+ */
+class MemoryUsageLedger implements UsageLedger {
+  public readonly name = 'memory';
+  private records: UsageRecord[] = [];
+
+  async append(record: UsageRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  async query(query: UsageQuery): Promise<UsageRecord[]> {
+    return this.records.filter((record) => matchesQuery(record, query)).map((record) => ({ ...record }));
+  }
+}
+
+export default MemoryUsageLedger;
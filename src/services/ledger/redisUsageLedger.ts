@@ -0,0 +1,41 @@
+// services/ledger/redisUsageLedger.ts
+import type { RespClient } from '../../utils/respClient';
+import { matchesQuery, type UsageLedger, type UsageQuery, type UsageRecord } from './usageLedger';
+
+/**
+ * Ledger on a Redis-protocol server: one list of JSON records per identifier,
+ * plus a set of every identifier for exports across accounts
+ */
+class RedisUsageLedger implements UsageLedger {
+  public readonly name = 'redis';
+  private client: RespClient;
+  private prefix: string;
+
+  constructor(client: RespClient, prefix = 'traducteur:usage:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async append(record: UsageRecord): Promise<void> {
+    await this.client.command('RPUSH', `${this.prefix}records:${record.identifier}`, JSON.stringify(record));
+    await this.client.command('SADD', `${this.prefix}identifiers`, record.identifier);
+  }
+
+  async query(query: UsageQuery): Promise<UsageRecord[]> {
+    const identifiers = query.identifier
+      ? [query.identifier]
+      : ((await this.client.command('SMEMBERS', `${this.prefix}identifiers`)) as string[]);
+
+    const records: UsageRecord[] = [];
+    for (const identifier of identifiers) {
+      const values = (await this.client.command('LRANGE', `${this.prefix}records:${identifier}`, 0, -1)) as string[];
+      for (const value of values) {
+        const record = JSON.parse(value) as UsageRecord;
+        if (matchesQuery(record, query)) records.push(record);
+      }
+    }
+    return records.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+}
+
+export default RedisUsageLedger;
@@ -0,0 +1,51 @@
+// services/ledger/usageLedger.ts
+
+/**
+ * The account a billable call is made for
+ */
+export interface UsageAccount {
+  identifier: string;
+  plan: string;
+}
+
+export interface UsageRecord extends UsageAccount {
+  operation: 'translate' | 'detect';
+  /** Provider that served the call ("cache" is never used: see `cached`) */
+  provider?: string;
+  sourceLanguage: string;
+  targetLanguage?: string;
+  characters: number;
+  cached: boolean;
+  /** ISO timestamp */
+  timestamp: string;
+}
+
+export interface UsageQuery {
+  identifier?: string;
+  /** Inclusive lower bound (ISO timestamp) */
+  from?: string;
+  /** Exclusive upper bound (ISO timestamp) */
+  to?: string;
+}
+
+/**
+ * Append-only store of billable usage records
+ */
+export interface UsageLedger {
+  readonly name: string;
+
+  append(record: UsageRecord): Promise<void>;
+
+  /**
+   * Records matching the query, oldest first
+   */
+  query(query: UsageQuery): Promise<UsageRecord[]>;
+}
+
+export function matchesQuery(record: UsageRecord, query: UsageQuery): boolean {
+  return (
+    (!query.identifier || record.identifier === query.identifier) &&
+    (!query.from || record.timestamp >= query.from) &&
+    (!query.to || record.timestamp < query.to)
+  );
+}
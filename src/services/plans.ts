@@ -0,0 +1,55 @@
+// services/plans.ts
+
+/** Endpoint groups a plan can be granted */
+export type PlanEndpoint = 'translate' | 'detect' | 'batch' | 'document' | 'file' | 'jobs' | 'glossaries';
+
+export interface PlanDefinition {
+  name: string;
+  /** Characters per calendar month (UTC); null for unlimited */
+  monthlyCharacters: number | null;
+  requestsPerMinute: number;
+  /** Longest text accepted by /translate and per /translate/batch item */
+  maxTextLength: number;
+  endpoints: PlanEndpoint[];
+  /** Allowed target languages (ISO 639-1); null for every language */
+  targetLanguages: string[] | null;
+  /** Devices one activation can be bound to (v2 key claims may override); null for unlimited */
+  seats: number | null;
+}
+
+/**
+ * Entitlements for the plans issued by tools/generateKey.ts
+ */
+export const PLANS: Record<string, PlanDefinition> = {
+  basic: {
+    name: 'basic',
+    monthlyCharacters: 100_000,
+    requestsPerMinute: 10,
+    maxTextLength: 1000,
+    endpoints: ['translate', 'detect'],
+    targetLanguages: ['en', 'fr', 'es', 'de', 'it', 'pt', 'nl'],
+    seats: 1
+  },
+  premium: {
+    name: 'premium',
+    monthlyCharacters: 2_000_000,
+    requestsPerMinute: 60,
+    maxTextLength: 5000,
+    endpoints: ['translate', 'detect', 'batch', 'document', 'file', 'glossaries'],
+    targetLanguages: null,
+    seats: 3
+  },
+  enterprise: {
+    name: 'enterprise',
+    monthlyCharacters: null,
+    requestsPerMinute: 300,
+    maxTextLength: 5000,
+    endpoints: ['translate', 'detect', 'batch', 'document', 'file', 'glossaries', 'jobs'],
+    targetLanguages: null,
+    seats: 10
+  }
+};
+
+export function getPlan(name: string): PlanDefinition | undefined {
+  return PLANS[name.toLowerCase()];
+}
@@ -0,0 +1,40 @@
+import type { Translate } from '@google-cloud/translate/build/src/v2';
+import { runWithContext } from '../../../utils/requestContext';
+import GoogleTranslateProvider from '../googleProvider';
+
+type Interceptor = Translate['interceptors'][number];
+
+const CONTEXT = {
+  requestId: 'req-1',
+  traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+  spanId: '00f067aa0ba902b7',
+  traceFlags: '01'
+};
+
+/** Run the client's request interceptor on an outgoing request, within a request context */
+function intercept(provider: GoogleTranslateProvider) {
+  const client: Translate = Reflect.get(provider, 'client');
+  const interceptor = client.interceptors.at(-1) as Interceptor;
+  return runWithContext(CONTEXT, () =>
+    interceptor.request({ uri: '/language/translate/v2', headers: { 'User-Agent': 'test' } })
+  );
+}
+
+describe('GoogleTranslateProvider', () => {
+  it('bounds each request and sends the request id and trace', () => {
+    const request = intercept(new GoogleTranslateProvider({ apiKey: 'key', timeoutMs: 500 }));
+
+    expect(request.timeout).toBe(500);
+    expect(request.headers).toEqual({
+      'User-Agent': 'test',
+      'X-Request-Id': 'req-1',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+    });
+  });
+
+  it('sends no trace headers when propagateTrace is off', () => {
+    const request = intercept(new GoogleTranslateProvider({ apiKey: 'key', propagateTrace: false }));
+
+    expect(request.headers).toEqual({ 'User-Agent': 'test' });
+  });
+});
@@ -0,0 +1,134 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { runWithContext } from '../../../utils/requestContext';
+import LibreTranslateProvider from '../libreTranslateProvider';
+import { ProviderError } from '../translationProvider';
+
+interface Upstream {
+  url: string;
+  requests: { path?: string; headers: http.IncomingHttpHeaders; body: Record<string, unknown> }[];
+  respond: (path: string | undefined, body: Record<string, unknown>) => { status?: number; body: unknown };
+  close: () => Promise<void>;
+}
+
+async function startUpstream(): Promise<Upstream> {
+  const upstream = {
+    requests: [],
+    respond: () => ({ body: {} })
+  } as unknown as Upstream;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+      upstream.requests.push({ path: req.url, headers: req.headers, body });
+      const reply = upstream.respond(req.url, body);
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  upstream.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  upstream.close = () => new Promise((resolve) => server.close(() => resolve()));
+  return upstream;
+}
+
+describe('LibreTranslateProvider', () => {
+  let upstream: Upstream;
+
+  beforeEach(async () => {
+    upstream = await startUpstream();
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+  });
+
+  it('translates several texts in one request, in input order', async () => {
+    upstream.respond = (_path, body) => ({
+      body: {
+        translatedText: (body.q as string[]).map((text) => `${text}-fr`),
+        detectedLanguage: [
+          { language: 'en', confidence: 90 },
+          { language: 'de', confidence: 80 }
+        ]
+      }
+    });
+    const provider = new LibreTranslateProvider({ url: upstream.url, apiKey: 'secret' });
+
+    const result = await provider.translate(['one', 'two'], { to: 'fr' });
+
+    expect(result).toEqual([
+      { translatedText: 'one-fr', detectedLanguage: 'en' },
+      { translatedText: 'two-fr', detectedLanguage: 'de' }
+    ]);
+    expect(upstream.requests).toHaveLength(1);
+    expect(upstream.requests[0].body).toEqual({
+      q: ['one', 'two'],
+      source: 'auto',
+      target: 'fr',
+      format: 'text',
+      api_key: 'secret'
+    });
+  });
+
+  it('accepts the full /translate endpoint as its URL', async () => {
+    upstream.respond = () => ({ body: { translatedText: 'Bonjour' } });
+    const provider = new LibreTranslateProvider({ url: `${upstream.url}/translate/` });
+
+    const [result] = await provider.translate(['Hello'], { from: 'en', to: 'fr' });
+
+    expect(result.translatedText).toBe('Bonjour');
+    expect(upstream.requests[0].path).toBe('/translate');
+  });
+
+  it('reports detection confidence as a fraction', async () => {
+    upstream.respond = () => ({ body: [{ language: 'fr', confidence: 87 }] });
+    const provider = new LibreTranslateProvider({ url: upstream.url });
+
+    await expect(provider.detectLanguage('Bonjour')).resolves.toEqual({ language: 'fr', confidence: 0.87 });
+  });
+
+  it('lists supported languages', async () => {
+    upstream.respond = () => ({ body: [{ code: 'en', name: 'English', targets: ['fr'] }] });
+    const provider = new LibreTranslateProvider({ url: upstream.url });
+
+    await expect(provider.getSupportedLanguages()).resolves.toEqual([{ code: 'en', name: 'English' }]);
+  });
+
+  it('turns upstream failures into ProviderErrors with the status and message', async () => {
+    upstream.respond = () => ({ status: 429, body: { error: 'Slow down' } });
+    const provider = new LibreTranslateProvider({ url: upstream.url });
+
+    const error = await provider.translate(['Hello'], { to: 'fr' }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ provider: 'libretranslate', status: 429, message: 'Slow down', retryable: true });
+  });
+
+  it('sends the request id and trace upstream unless propagateTrace is off', async () => {
+    upstream.respond = () => ({ body: { translatedText: ['Bonjour'] } });
+    const context = {
+      requestId: 'req-1',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: '01'
+    };
+
+    await runWithContext(context, async () => {
+      await new LibreTranslateProvider({ url: upstream.url, propagateTrace: false }).translate(['Hello'], { to: 'fr' });
+      await new LibreTranslateProvider({ url: upstream.url }).translate(['Hello'], { to: 'fr' });
+    });
+
+    expect(upstream.requests[0].headers).not.toHaveProperty('x-request-id');
+    expect(upstream.requests[0].headers).not.toHaveProperty('traceparent');
+    expect(upstream.requests[1].headers).toMatchObject({
+      'x-request-id': 'req-1',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// services/providers/googleProvider.ts
+import { Translate } from '@google-cloud/translate/build/src/v2';
+import { outboundHeaders } from '../../utils/requestContext';
+import {
+  type LanguageDetection,
+  ProviderError,
+  type ProviderTranslateOptions,
+  type ProviderTranslation,
+  type SupportedLanguage,
+  type TranslationProvider
+} from './translationProvider';
+
+export interface GoogleProviderConfig {
+  projectId?: string;
+  keyFilename?: string;
+  apiKey?: string;
+  /** Per-request timeout; the client library cannot be aborted, so it is enforced here */
+  timeoutMs?: number;
+  /** Send X-Request-Id and traceparent with each request (default true) */
+  propagateTrace?: boolean;
+}
+
+class GoogleTranslateProvider implements TranslationProvider {
+  public readonly name = 'google';
+  public readonly supportsHtml = true;
+  private client: Translate;
+
+  constructor(config: GoogleProviderConfig) {
+    // Initialize Google Cloud Translate client
+    const options: { projectId?: string; keyFilename?: string; key?: string } = {};
+
+    if (config.projectId) {
+      options.projectId = config.projectId;
+    }
+
+    if (config.keyFilename) {
+      options.keyFilename = config.keyFilename;
+    } else if (config.apiKey) {
+      options.key = config.apiKey;
+    }
+
+    this.client = new Translate(options);
+    // Bound each request and carry the caller's request id and trace
+    this.client.interceptors.push({
+      request: (request) => {
+        if (config.timeoutMs) request.timeout = config.timeoutMs;
+        if (config.propagateTrace !== false) request.headers = { ...request.headers, ...outboundHeaders() };
+        return request as ReturnType<Translate['interceptors'][number]['request']>;
+      }
+    });
+  }
+
+  async translate(texts: string[], options: ProviderTranslateOptions): Promise<ProviderTranslation[]> {
+    try {
+      const [translations, metadata] = await this.client.translate(texts, {
+        from: options.from,
+        to: options.to,
+        format: options.format || 'text'
+      });
+
+      const details: { detectedSourceLanguage?: string }[] = metadata?.data?.translations || [];
+
+      return translations.map((translatedText, index) => ({
+        translatedText,
+        detectedLanguage: details[index]?.detectedSourceLanguage
+      }));
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async detectLanguage(text: string): Promise<LanguageDetection> {
+    try {
+      const [detections] = await this.client.detect(text);
+      const detection = Array.isArray(detections) ? detections[0] : detections;
+
+      return {
+        language: detection.language,
+        confidence: detection.confidence
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async getSupportedLanguages(): Promise<SupportedLanguage[]> {
+    try {
+      const [languages] = await this.client.getLanguages();
+      return languages.map((language) => ({ code: language.code, name: language.name }));
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private toProviderError(error: unknown): ProviderError {
+    const err = error as { code?: unknown; message?: string };
+    const status = typeof err.code === 'number' ? err.code : undefined;
+    return new ProviderError(this.name, err.message || 'Google Translate request failed', status);
+  }
+}
+
+export default GoogleTranslateProvider;
@@ -0,0 +1,129 @@
+// services/providers/libreTranslateProvider.ts
+import axios, { type AxiosInstance } from 'axios';
+import { outboundHeaders } from '../../utils/requestContext';
+import {
+  type LanguageDetection,
+  type ProviderCallOptions,
+  ProviderError,
+  type ProviderTranslateOptions,
+  type ProviderTranslation,
+  type SupportedLanguage,
+  type TranslationProvider
+} from './translationProvider';
+
+export interface LibreTranslateProviderConfig {
+  url: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  /** Send X-Request-Id and traceparent upstream (default true) */
+  propagateTrace?: boolean;
+}
+
+interface LibreTranslateResponse {
+  translatedText: string | string[];
+  detectedLanguage?: { language: string; confidence: number } | { language: string; confidence: number }[];
+}
+
+class LibreTranslateProvider implements TranslationProvider {
+  public readonly name = 'libretranslate';
+  public readonly supportsHtml = true;
+  private http: AxiosInstance;
+  private apiKey?: string;
+
+  constructor(config: LibreTranslateProviderConfig) {
+    // Accept both the instance root and the full /translate endpoint URL
+    const baseURL = config.url.replace(/\/+$/, '').replace(/\/translate$/, '');
+
+    this.apiKey = config.apiKey || undefined;
+    this.http = axios.create({
+      baseURL,
+      timeout: config.timeoutMs ?? 15000,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    // Carry the caller's request id and trace upstream
+    if (config.propagateTrace !== false) {
+      this.http.interceptors.request.use((request) => {
+        for (const [name, value] of Object.entries(outboundHeaders())) {
+          request.headers.set(name, value);
+        }
+        return request;
+      });
+    }
+  }
+
+  async translate(texts: string[], options: ProviderTranslateOptions): Promise<ProviderTranslation[]> {
+    try {
+      const { data } = await this.http.post<LibreTranslateResponse>(
+        '/translate',
+        {
+          q: texts,
+          source: options.from || 'auto',
+          target: options.to,
+          format: options.format || 'text',
+          api_key: this.apiKey
+        },
+        { signal: options.signal }
+      );
+
+      const translated = Array.isArray(data.translatedText) ? data.translatedText : [data.translatedText];
+      const detected = Array.isArray(data.detectedLanguage) ? data.detectedLanguage : [data.detectedLanguage];
+
+      return translated.map((translatedText, index) => ({
+        translatedText,
+        detectedLanguage: detected[index]?.language
+      }));
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async detectLanguage(text: string, options: ProviderCallOptions = {}): Promise<LanguageDetection> {
+    try {
+      const { data } = await this.http.post<{ language: string; confidence: number }[]>(
+        '/detect',
+        {
+          q: text,
+          api_key: this.apiKey
+        },
+        { signal: options.signal }
+      );
+
+      const [detection] = data;
+      if (!detection) {
+        throw new ProviderError(this.name, 'No language detected');
+      }
+
+      // LibreTranslate reports confidence as a percentage
+      return {
+        language: detection.language,
+        confidence: detection.confidence / 100
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async getSupportedLanguages(options: ProviderCallOptions = {}): Promise<SupportedLanguage[]> {
+    try {
+      const { data } = await this.http.get<{ code: string; name: string }[]>('/languages', { signal: options.signal });
+      return data.map((language) => ({ code: language.code, name: language.name }));
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private toProviderError(error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      const upstreamMessage = (error.response?.data as { error?: string } | undefined)?.error;
+      return new ProviderError(this.name, upstreamMessage || error.message, error.response?.status);
+    }
+
+    return new ProviderError(this.name, (error as Error)?.message || 'LibreTranslate request failed');
+  }
+}
+
+export default LibreTranslateProvider;
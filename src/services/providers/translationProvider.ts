@@ -0,0 +1,73 @@
+// services/providers/translationProvider.ts
+
+export type TextFormat = 'text' | 'html';
+
+export interface ProviderCallOptions {
+  /** Aborted when the caller gives up (e.g. on timeout) */
+  signal?: AbortSignal;
+}
+
+export interface ProviderTranslateOptions extends ProviderCallOptions {
+  /** Source language code, or undefined to let the provider detect it */
+  from?: string;
+  to: string;
+  /** Only sent as 'html' to providers that declare supportsHtml */
+  format?: TextFormat;
+}
+
+export interface ProviderTranslation {
+  translatedText: string;
+  detectedLanguage?: string;
+}
+
+export interface LanguageDetection {
+  language: string;
+  confidence?: number;
+}
+
+export interface SupportedLanguage {
+  code: string;
+  name?: string;
+}
+
+/**
+ * Common contract for translation backends (Google, LibreTranslate, ...)
+ */
+export interface TranslationProvider {
+  readonly name: string;
+
+  /** Whether the backend translates HTML natively (format: 'html') */
+  readonly supportsHtml: boolean;
+
+  /**
+   * Translate one or more texts. Results are returned in input order.
+   */
+  translate(texts: string[], options: ProviderTranslateOptions): Promise<ProviderTranslation[]>;
+
+  detectLanguage(text: string, options?: ProviderCallOptions): Promise<LanguageDetection>;
+
+  getSupportedLanguages(options?: ProviderCallOptions): Promise<SupportedLanguage[]>;
+}
+
+/**
+ * Error raised by providers, carrying the upstream HTTP status when known
+ */
+export class ProviderError extends Error {
+  public readonly provider: string;
+  public readonly status?: number;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+
+  /**
+   * Whether another provider may succeed where this one failed
+   * (timeouts and network errors have no status)
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
@@ -0,0 +1,93 @@
+import { type FakeRespServer, startRespServer } from '../../../utils/__tests__/respServer';
+import { RespClient } from '../../../utils/respClient';
+import MemoryRateLimitStore from '../memoryRateLimitStore';
+import RedisRateLimitStore from '../redisRateLimitStore';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts hits per prefixed key in fixed windows', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore(1000, 'ip:');
+
+    await store.increment('a');
+    const second = await store.increment('a');
+    expect(second.totalHits).toBe(2);
+    expect(second.resetTime?.getTime()).toBe(Date.now() + 1000);
+    await expect(store.increment('b')).resolves.toMatchObject({ totalHits: 1 });
+
+    vi.advanceTimersByTime(1000);
+    await expect(store.get('a')).resolves.toBeUndefined();
+    await expect(store.increment('a')).resolves.toMatchObject({ totalHits: 1 });
+  });
+
+  it('decrements and resets keys', async () => {
+    const store = new MemoryRateLimitStore(1000);
+    await store.increment('a');
+    await store.increment('a');
+
+    await store.decrement('a');
+    await expect(store.get('a')).resolves.toMatchObject({ totalHits: 1 });
+    await store.resetKey('a');
+    await expect(store.get('a')).resolves.toBeUndefined();
+  });
+
+  it('evicts counters whose window has ended', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore(1000);
+    await store.increment('a');
+    vi.advanceTimersByTime(500);
+    await store.increment('b');
+
+    expect(store.evictExpired(Date.now() + 600)).toBe(1);
+    await expect(store.get('b')).resolves.toMatchObject({ totalHits: 1 });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  let server: FakeRespServer;
+  let client: RespClient;
+  let store: RedisRateLimitStore;
+
+  beforeEach(async () => {
+    server = await startRespServer();
+    client = new RespClient(server.url);
+    store = new RedisRateLimitStore(client, 60_000, 'test:rl:');
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.close();
+  });
+
+  it('opens a window on the first hit and shares counts between instances', async () => {
+    const first = await store.increment('alice');
+    const other = new RedisRateLimitStore(client, 60_000, 'test:rl:');
+    const second = await other.increment('alice');
+
+    expect(first.totalHits).toBe(1);
+    expect(second.totalHits).toBe(2);
+    expect(server.commands).toContainEqual(['PEXPIRE', 'test:rl:alice', '60000']);
+    expect(second.resetTime?.getTime()).toBeGreaterThan(Date.now() + 59_000);
+    await expect(store.get('alice')).resolves.toMatchObject({ totalHits: 2 });
+  });
+
+  it('sets a missing expiry again instead of counting forever', async () => {
+    await client.command('SET', 'test:rl:alice', '5');
+
+    await expect(store.increment('alice')).resolves.toMatchObject({ totalHits: 6 });
+    expect(server.data.get('test:rl:alice')?.expiresAt).toBeDefined();
+  });
+
+  it('decrements and resets keys', async () => {
+    await store.increment('alice');
+    await store.increment('alice');
+
+    await store.decrement('alice');
+    await expect(store.get('alice')).resolves.toMatchObject({ totalHits: 1 });
+    await store.resetKey('alice');
+    await expect(store.get('alice')).resolves.toBeUndefined();
+  });
+});
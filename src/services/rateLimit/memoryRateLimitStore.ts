@@ -0,0 +1,76 @@
+// services/rateLimit/memoryRateLimitStore.ts
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+
+/**
+ * Fixed-window hit counters in process memory. Limits are per instance; use
+ * RedisRateLimitStore to share them.
+ */
+class MemoryRateLimitStore implements Store {
+  public readonly localKeys = true;
+  public readonly prefix: string;
+  private windowMs: number;
+  private clients: Map<string, ClientRateLimitInfo & { resetTime: Date }> = new Map();
+  private lastSweep = Date.now();
+
+  constructor(windowMs: number, prefix = '') {
+    this.windowMs = windowMs;
+    this.prefix = prefix;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const client = this.clients.get(this.prefix + key);
+    return client && client.resetTime.getTime() > Date.now() ? { ...client } : undefined;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const now = Date.now();
+    if (now - this.lastSweep >= this.windowMs) {
+      this.evictExpired(now);
+    }
+
+    let client = this.clients.get(this.prefix + key);
+    if (!client || client.resetTime.getTime() <= now) {
+      client = { totalHits: 0, resetTime: new Date(now + this.windowMs) };
+      this.clients.set(this.prefix + key, client);
+    }
+
+    client.totalHits++;
+    return { ...client };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const client = this.clients.get(this.prefix + key);
+    if (client && client.totalHits > 0) {
+      client.totalHits--;
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    this.clients.delete(this.prefix + key);
+  }
+
+  async resetAll(): Promise<void> {
+    this.clients.clear();
+  }
+
+  /**
+   * Drop counters whose window has ended; returns the number removed
+   */
+  evictExpired(now = Date.now()): number {
+    let removed = 0;
+    for (const [key, client] of this.clients.entries()) {
+      if (client.resetTime.getTime() <= now) {
+        this.clients.delete(key);
+        removed++;
+      }
+    }
+    this.lastSweep = now;
+    return removed;
+  }
+}
+
+export default MemoryRateLimitStore;
@@ -0,0 +1,60 @@
+// services/rateLimit/redisRateLimitStore.ts
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+import type { RespClient } from '../../utils/respClient';
+
+/**
+ * Fixed-window hit counters on a Redis-protocol server, shared by every
+ * instance. Each counter key expires with its window.
+ */
+class RedisRateLimitStore implements Store {
+  public readonly localKeys = false;
+  public readonly prefix: string;
+  private client: RespClient;
+  private windowMs: number;
+
+  constructor(client: RespClient, windowMs: number, prefix = 'traducteur:ratelimit:') {
+    this.client = client;
+    this.windowMs = windowMs;
+    this.prefix = prefix;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const hits = await this.client.command('GET', this.prefix + key);
+    if (typeof hits !== 'string') return undefined;
+
+    return { totalHits: Number(hits), resetTime: await this.resetTime(this.prefix + key) };
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const redisKey = this.prefix + key;
+    const totalHits = Number(await this.client.command('INCR', redisKey));
+
+    // The first hit opens the window; a missing TTL means an earlier PEXPIRE never ran
+    let ttl = totalHits === 1 ? -1 : Number(await this.client.command('PTTL', redisKey));
+    if (ttl < 0) {
+      await this.client.command('PEXPIRE', redisKey, this.windowMs);
+      ttl = this.windowMs;
+    }
+
+    return { totalHits, resetTime: new Date(Date.now() + ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.client.command('DECR', this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + key);
+  }
+
+  private async resetTime(redisKey: string): Promise<Date | undefined> {
+    const ttl = Number(await this.client.command('PTTL', redisKey));
+    return ttl > 0 ? new Date(Date.now() + ttl) : undefined;
+  }
+}
+
+export default RedisRateLimitStore;
@@ -0,0 +1,92 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { type FakeRespServer, startRespServer } from '../../../utils/__tests__/respServer';
+import { RespClient } from '../../../utils/respClient';
+import FileRevocationStore from '../fileRevocationStore';
+import RedisRevocationStore from '../redisRevocationStore';
+import type { Revocation, RevocationStore } from '../revocationStore';
+
+const revokedAt = '2025-03-01T00:00:00.000Z';
+
+interface StoreFixture {
+  store: RevocationStore;
+  /** Another process's view of the same list */
+  reopen(): RevocationStore;
+  close(): Promise<void>;
+}
+
+const fixtures: [string, () => Promise<StoreFixture>][] = [
+  [
+    'file',
+    async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'revocations-'));
+      const filePath = path.join(dir, 'revocations.json');
+      return {
+        store: new FileRevocationStore(filePath),
+        reopen: () => new FileRevocationStore(filePath),
+        close: async () => fs.rmSync(dir, { recursive: true, force: true })
+      };
+    }
+  ],
+  [
+    'redis',
+    async () => {
+      const server: FakeRespServer = await startRespServer();
+      const client = new RespClient(server.url);
+      return {
+        store: new RedisRevocationStore(client),
+        reopen: () => new RedisRevocationStore(client),
+        close: async () => {
+          client.close();
+          await server.close();
+        }
+      };
+    }
+  ]
+];
+
+describe.each(fixtures)('%s revocation store', (_name, createFixture) => {
+  let fixture: StoreFixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture();
+  });
+
+  afterEach(async () => {
+    await fixture.close();
+  });
+
+  it('finds revocations by identifier or key nonce', async () => {
+    const { store } = fixture;
+    const byIdentifier: Revocation = { type: 'identifier', value: 'alice', reason: 'chargeback', revokedAt };
+    const byNonce: Revocation = { type: 'nonce', value: 'nonce-2', revokedAt };
+    await store.add(byIdentifier);
+    await store.add(byNonce);
+
+    await expect(store.find('alice', 'nonce-1')).resolves.toEqual(byIdentifier);
+    await expect(store.find('bob', 'nonce-2')).resolves.toEqual(byNonce);
+    await expect(store.find('bob', 'nonce-1')).resolves.toBeNull();
+    await expect(store.find('bob')).resolves.toBeNull();
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('lifts revocations', async () => {
+    const { store } = fixture;
+    await store.add({ type: 'identifier', value: 'alice', revokedAt });
+
+    await expect(store.remove('identifier', 'alice')).resolves.toBe(true);
+    await expect(store.remove('identifier', 'alice')).resolves.toBe(false);
+    await expect(store.find('alice')).resolves.toBeNull();
+  });
+
+  it('shares revocations with other instances', async () => {
+    const other = fixture.reopen();
+    await other.find('alice');
+
+    await fixture.store.add({ type: 'identifier', value: 'alice', revokedAt });
+
+    await expect(other.find('alice')).resolves.toMatchObject({ value: 'alice' });
+    await expect(fixture.reopen().list()).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,85 @@
+// services/revocation/fileRevocationStore.ts
+import fs from 'node:fs';
+import { readJsonFile, readJsonFileSync, updateJsonFile } from '../../utils/jsonFile';
+import { type Revocation, type RevocationStore, type RevocationType, revocationKey } from './revocationStore';
+
+type RevocationFile = Record<string, Revocation>;
+
+/**
+ * Revocation list persisted to a JSON file. The list is kept in memory and
+ * reloaded whenever the file changes, so processes reading it stay in sync.
+ * Revoke from a single instance (writes are serialized per process); use the
+ * Redis store when several instances manage revocations.
+ */
+class FileRevocationStore implements RevocationStore {
+  public readonly name = 'file';
+  private filePath: string;
+  private revocations: RevocationFile = {};
+  private loadedMtimeMs = -1;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.revocations = readJsonFileSync<RevocationFile>(filePath, {});
+  }
+
+  async add(revocation: Revocation): Promise<void> {
+    await this.update((revocations) => {
+      revocations[revocationKey(revocation.type, revocation.value)] = revocation;
+    });
+  }
+
+  async remove(type: RevocationType, value: string): Promise<boolean> {
+    const key = revocationKey(type, value);
+    return this.update((revocations) => {
+      if (!revocations[key]) return false;
+      delete revocations[key];
+      return true;
+    });
+  }
+
+  async find(identifier: string, nonce?: string): Promise<Revocation | null> {
+    await this.reload();
+    return (
+      this.revocations[revocationKey('identifier', identifier)] ||
+      (nonce ? this.revocations[revocationKey('nonce', nonce)] : undefined) ||
+      null
+    );
+  }
+
+  async list(): Promise<Revocation[]> {
+    await this.reload();
+    return Object.values(this.revocations);
+  }
+
+  private async reload(): Promise<void> {
+    const mtimeMs = await this.mtime();
+    if (mtimeMs !== this.loadedMtimeMs) {
+      this.revocations = await readJsonFile<RevocationFile>(this.filePath, {});
+      this.loadedMtimeMs = mtimeMs;
+    }
+  }
+
+  /**
+   * Apply a change to the file's current contents and keep the result in memory
+   */
+  private async update<R>(change: (revocations: RevocationFile) => R): Promise<R> {
+    let latest: RevocationFile = {};
+    const result = await updateJsonFile<RevocationFile, R>(this.filePath, {}, (revocations) => {
+      latest = revocations;
+      return change(revocations);
+    });
+    this.revocations = latest;
+    this.loadedMtimeMs = await this.mtime();
+    return result;
+  }
+
+  private async mtime(): Promise<number> {
+    try {
+      return (await fs.promises.stat(this.filePath)).mtimeMs;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+export default FileRevocationStore;
@@ -0,0 +1,52 @@
+// services/revocation/redisRevocationStore.ts
+import type { RespClient } from '../../utils/respClient';
+import { type Revocation, type RevocationStore, type RevocationType, revocationKey } from './revocationStore';
+
+/**
+ * Revocation list in a single hash on a Redis-protocol server, shared by every instance
+ */
+class RedisRevocationStore implements RevocationStore {
+  public readonly name = 'redis';
+  private client: RespClient;
+  private key: string;
+
+  constructor(client: RespClient, key = 'traducteur:revocations') {
+    this.client = client;
+    this.key = key;
+  }
+
+  async add(revocation: Revocation): Promise<void> {
+    await this.client.command(
+      'HSET',
+      this.key,
+      revocationKey(revocation.type, revocation.value),
+      JSON.stringify(revocation)
+    );
+  }
+
+  async remove(type: RevocationType, value: string): Promise<boolean> {
+    return Number(await this.client.command('HDEL', this.key, revocationKey(type, value))) > 0;
+  }
+
+  async find(identifier: string, nonce?: string): Promise<Revocation | null> {
+    const fields = [revocationKey('identifier', identifier), ...(nonce ? [revocationKey('nonce', nonce)] : [])];
+    for (const field of fields) {
+      const value = await this.client.command('HGET', this.key, field);
+      if (typeof value === 'string') {
+        return JSON.parse(value) as Revocation;
+      }
+    }
+    return null;
+  }
+
+  async list(): Promise<Revocation[]> {
+    const reply = (await this.client.command('HGETALL', this.key)) as string[];
+    const revocations: Revocation[] = [];
+    for (let i = 1; i < reply.length; i += 2) {
+      revocations.push(JSON.parse(reply[i]) as Revocation);
+    }
+    return revocations;
+  }
+}
+
+export default RedisRevocationStore;
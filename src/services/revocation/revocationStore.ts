@@ -0,0 +1,37 @@
+// services/revocation/revocationStore.ts
+
+/** What a revocation targets: a whole identifier, or one key by its nonce */
+export type RevocationType = 'identifier' | 'nonce';
+
+export interface Revocation {
+  type: RevocationType;
+  value: string;
+  reason?: string;
+  /** ISO timestamp */
+  revokedAt: string;
+}
+
+/**
+ * Persistent revocation list, checked on every activation and authenticated request
+ */
+export interface RevocationStore {
+  readonly name: string;
+
+  add(revocation: Revocation): Promise<void>;
+
+  /**
+   * Resolves with false when nothing was revoked under that type and value
+   */
+  remove(type: RevocationType, value: string): Promise<boolean>;
+
+  /**
+   * The first matching revocation among the given identifier and nonce
+   */
+  find(identifier: string, nonce?: string): Promise<Revocation | null>;
+
+  list(): Promise<Revocation[]>;
+}
+
+export function revocationKey(type: RevocationType, value: string): string {
+  return `${type}:${value}`;
+}
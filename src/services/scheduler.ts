@@ -0,0 +1,141 @@
+// services/scheduler.ts
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'scheduler' });
+
+export interface ScheduledTask {
+  name: string;
+  /** Milliseconds between runs; 0 leaves the task to be triggered over HTTP only */
+  intervalMs: number;
+  /** Resolves with a short summary for the log (e.g. `{ removed: 3 }`) */
+  run(): Promise<Record<string, unknown>>;
+}
+
+export interface TaskRun {
+  task: string;
+  startedAt: string;
+  durationMs: number;
+  ok: boolean;
+  /** Set when the task was still running from an earlier trigger */
+  skipped?: boolean;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Runs maintenance tasks on timers. Timers are unref'd so they never keep the
+ * process alive, and a task never overlaps with itself; where timers do not
+ * survive between requests (serverless), call run()/runAll() from a trigger instead.
+ */
+class Scheduler {
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private running: Set<string> = new Set();
+  private lastRuns: Map<string, TaskRun> = new Map();
+
+  register(task: ScheduledTask): void {
+    if (this.tasks.has(task.name)) {
+      throw new Error(`Task "${task.name}" is already registered`);
+    }
+    this.tasks.set(task.name, task);
+  }
+
+  /**
+   * Start a timer for every task with an interval
+   */
+  start(): void {
+    for (const task of this.tasks.values()) {
+      if (task.intervalMs <= 0 || this.timers.has(task.name)) continue;
+
+      const tick = () => {
+        this.run(task.name).finally(() => {
+          if (!this.timers.has(task.name)) return;
+          this.schedule(task, tick);
+        });
+      };
+      this.schedule(task, tick);
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  has(name: string): boolean {
+    return this.tasks.has(name);
+  }
+
+  /**
+   * Run one task now and log the outcome; failures are reported, never thrown
+   */
+  async run(name: string): Promise<TaskRun> {
+    const task = this.tasks.get(name);
+    if (!task) {
+      throw new Error(`Unknown task "${name}"`);
+    }
+
+    const startedAt = new Date();
+    if (this.running.has(name)) {
+      return { task: name, startedAt: startedAt.toISOString(), durationMs: 0, ok: true, skipped: true };
+    }
+
+    this.running.add(name);
+    let run: TaskRun;
+    try {
+      const result = await task.run();
+      run = {
+        task: name,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ok: true,
+        result
+      };
+      log.info({ task: name, durationMs: run.durationMs, result }, 'Task completed');
+    } catch (error) {
+      run = {
+        task: name,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ok: false,
+        error: (error as Error).message
+      };
+      log.error({ task: name, durationMs: run.durationMs, err: error }, 'Task failed');
+    } finally {
+      this.running.delete(name);
+    }
+
+    this.lastRuns.set(name, run);
+    return run;
+  }
+
+  /**
+   * Run every task in turn
+   */
+  async runAll(): Promise<TaskRun[]> {
+    const runs: TaskRun[] = [];
+    for (const name of this.tasks.keys()) {
+      runs.push(await this.run(name));
+    }
+    return runs;
+  }
+
+  list(): { name: string; intervalMs: number; running: boolean; lastRun?: TaskRun }[] {
+    return Array.from(this.tasks.values()).map((task) => ({
+      name: task.name,
+      intervalMs: task.intervalMs,
+      running: this.running.has(task.name),
+      lastRun: this.lastRuns.get(task.name)
+    }));
+  }
+
+  private schedule(task: ScheduledTask, tick: () => void): void {
+    const timer = setTimeout(tick, task.intervalMs);
+    timer.unref();
+    this.timers.set(task.name, timer);
+  }
+}
+
+export default Scheduler;
@@ -0,0 +1,146 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { type FakeRespServer, startRespServer } from '../../../utils/__tests__/respServer';
+import { RespClient } from '../../../utils/respClient';
+import FileSessionStore from '../fileSessionStore';
+import MemorySessionStore from '../memorySessionStore';
+import RedisSessionStore from '../redisSessionStore';
+import type { ActivationSession, SessionStore } from '../sessionStore';
+
+const HOUR = 60 * 60 * 1000;
+
+function session(identifier: string, expiresInMs = HOUR): ActivationSession {
+  const now = new Date().toISOString();
+  return {
+    identifier,
+    plan: 'premium',
+    expiry: new Date(Date.now() + expiresInMs).toISOString(),
+    activatedAt: now,
+    devices: [{ deviceId: 'device-1', activatedAt: now, lastSeenAt: now }]
+  };
+}
+
+interface StoreFixture {
+  store: SessionStore;
+  /** A second store over the same backing storage, as another instance or a restart would see it */
+  reopen(): SessionStore;
+  close(): Promise<void>;
+}
+
+const fixtures: [string, () => Promise<StoreFixture>][] = [
+  [
+    'memory',
+    async () => {
+      const store = new MemorySessionStore();
+      return { store, reopen: () => store, close: async () => {} };
+    }
+  ],
+  [
+    'file',
+    async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+      const filePath = path.join(dir, 'sessions.json');
+      return {
+        store: new FileSessionStore(filePath),
+        reopen: () => new FileSessionStore(filePath),
+        close: async () => fs.rmSync(dir, { recursive: true, force: true })
+      };
+    }
+  ],
+  [
+    'redis',
+    async () => {
+      const server: FakeRespServer = await startRespServer();
+      const clients = [new RespClient(server.url)];
+      return {
+        store: new RedisSessionStore(clients[0]),
+        reopen: () => {
+          clients.push(new RespClient(server.url));
+          return new RedisSessionStore(clients[clients.length - 1]);
+        },
+        close: async () => {
+          for (const client of clients) client.close();
+          await server.close();
+        }
+      };
+    }
+  ]
+];
+
+describe.each(fixtures)('%s session store', (_name, createFixture) => {
+  let fixture: StoreFixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture();
+  });
+
+  afterEach(async () => {
+    await fixture.close();
+  });
+
+  it('stores, replaces and deletes sessions by identifier', async () => {
+    const { store } = fixture;
+    await store.set(session('alice'));
+    await store.set({ ...session('alice'), plan: 'enterprise' });
+    await store.set(session('bob'));
+
+    await expect(store.get('alice')).resolves.toMatchObject({ identifier: 'alice', plan: 'enterprise' });
+    expect((await store.list()).map((item) => item.identifier).sort()).toEqual(['alice', 'bob']);
+
+    await store.delete('alice');
+    await expect(store.get('alice')).resolves.toBeNull();
+    await store.delete('missing');
+  });
+
+  it('shares sessions with other store instances', async () => {
+    const saved = session('alice');
+    await fixture.store.set(saved);
+
+    await expect(fixture.reopen().get('alice')).resolves.toEqual(saved);
+  });
+
+  it('does not let callers mutate stored sessions', async () => {
+    const { store } = fixture;
+    await store.set(session('alice'));
+
+    const loaded = (await store.get('alice')) as ActivationSession;
+    loaded.plan = 'changed';
+
+    await expect(store.get('alice')).resolves.toMatchObject({ plan: 'premium' });
+  });
+});
+
+describe.each(fixtures.filter(([name]) => name !== 'redis'))('%s session store expiry', (_name, createFixture) => {
+  it('removes expired sessions and reports how many', async () => {
+    const { store, close } = await createFixture();
+    await store.set(session('expired', -1000));
+    await store.set(session('active'));
+
+    await expect(store.deleteExpired(new Date())).resolves.toBe(1);
+    expect((await store.list()).map((item) => item.identifier)).toEqual(['active']);
+    await expect(store.deleteExpired(new Date())).resolves.toBe(0);
+    await close();
+  });
+});
+
+describe('RedisSessionStore', () => {
+  it('lets each session key expire with its activation', async () => {
+    const server = await startRespServer();
+    const client = new RespClient(server.url);
+    const store = new RedisSessionStore(client, 'test:session:');
+
+    await store.set(session('alice'));
+    await store.set(session('expired', -1000));
+
+    const set = server.commands.find(([command]) => command === 'SET') as string[];
+    expect(set.slice(0, 2)).toEqual(['SET', 'test:session:alice']);
+    expect(set[3]).toBe('PX');
+    expect(Number(set[4])).toBeGreaterThan(HOUR - 5000);
+    expect(server.commands).toContainEqual(['DEL', 'test:session:expired']);
+    await expect(store.deleteExpired()).resolves.toBe(0);
+
+    client.close();
+    await server.close();
+  });
+});
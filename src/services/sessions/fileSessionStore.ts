@@ -0,0 +1,61 @@
+// services/sessions/fileSessionStore.ts
+import { readJsonFile, updateJsonFile } from '../../utils/jsonFile';
+import { type ActivationSession, isSessionExpired, type SessionStore } from './sessionStore';
+
+type SessionFile = Record<string, ActivationSession>;
+
+/**
+ * Session store persisted to a JSON file, for single-instance deployments. Updates
+ * are serialized within this process only; instances that share sessions should
+ * use the Redis store instead.
+ */
+class FileSessionStore implements SessionStore {
+  public readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(identifier: string): Promise<ActivationSession | null> {
+    return (await this.read())[identifier] || null;
+  }
+
+  async set(session: ActivationSession): Promise<void> {
+    await updateJsonFile<SessionFile, void>(this.filePath, {}, (sessions) => {
+      sessions[session.identifier] = session;
+    });
+  }
+
+  async delete(identifier: string): Promise<void> {
+    await updateJsonFile<SessionFile, boolean>(this.filePath, {}, (sessions) => {
+      if (!sessions[identifier]) return false;
+      delete sessions[identifier];
+      return true;
+    });
+  }
+
+  async list(): Promise<ActivationSession[]> {
+    return Object.values(await this.read());
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    let removed = 0;
+    await updateJsonFile<SessionFile, boolean>(this.filePath, {}, (sessions) => {
+      for (const session of Object.values(sessions)) {
+        if (isSessionExpired(session, now)) {
+          delete sessions[session.identifier];
+          removed++;
+        }
+      }
+      return removed > 0;
+    });
+    return removed;
+  }
+
+  private read(): Promise<SessionFile> {
+    return readJsonFile<SessionFile>(this.filePath, {});
+  }
+}
+
+export default FileSessionStore;
@@ -0,0 +1,40 @@
+// services/sessions/memorySessionStore.ts
+import { type ActivationSession, isSessionExpired, type SessionStore } from './sessionStore';
+
+/**
+ * In-process session store. Sessions are lost on restart and not shared between instances.
+ */
+class MemorySessionStore implements SessionStore {
+  public readonly name = 'memory';
+  private sessions: Map<string, ActivationSession> = new Map();
+
+  async get(identifier: string): Promise<ActivationSession | null> {
+    const session = this.sessions.get(identifier);
+    return session ? { ...session } : null;
+  }
+
+  async set(session: ActivationSession): Promise<void> {
+    this.sessions.set(session.identifier, { ...session });
+  }
+
+  async delete(identifier: string): Promise<void> {
+    this.sessions.delete(identifier);
+  }
+
+  async list(): Promise<ActivationSession[]> {
+    return Array.from(this.sessions.values(), (session) => ({ ...session }));
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    let removed = 0;
+    for (const [identifier, session] of this.sessions.entries()) {
+      if (isSessionExpired(session, now)) {
+        this.sessions.delete(identifier);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+export default MemorySessionStore;
@@ -0,0 +1,74 @@
+// services/sessions/redisSessionStore.ts
+import type { RespClient } from '../../utils/respClient';
+import type { ActivationSession, SessionStore } from './sessionStore';
+
+/**
+ * Session store backed by any Redis-protocol server. Each session key expires
+ * with its activation, so the server drops expired sessions by itself.
+ */
+class RedisSessionStore implements SessionStore {
+  public readonly name = 'redis';
+  private client: RespClient;
+  private prefix: string;
+
+  constructor(client: RespClient, prefix = 'traducteur:session:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get(identifier: string): Promise<ActivationSession | null> {
+    const value = await this.client.command('GET', this.prefix + identifier);
+    return typeof value === 'string' ? (JSON.parse(value) as ActivationSession) : null;
+  }
+
+  async set(session: ActivationSession): Promise<void> {
+    const ttlMs = new Date(session.expiry).getTime() - Date.now();
+    if (!(ttlMs > 0)) {
+      await this.delete(session.identifier);
+      return;
+    }
+    await this.client.command(
+      'SET',
+      this.prefix + session.identifier,
+      JSON.stringify(session),
+      'PX',
+      Math.round(ttlMs)
+    );
+  }
+
+  async delete(identifier: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + identifier);
+  }
+
+  async list(): Promise<ActivationSession[]> {
+    const sessions: ActivationSession[] = [];
+    for (const key of await this.scanKeys()) {
+      const value = await this.client.command('GET', key);
+      if (typeof value === 'string') {
+        sessions.push(JSON.parse(value) as ActivationSession);
+      }
+    }
+    return sessions;
+  }
+
+  async deleteExpired(): Promise<number> {
+    // Keys carry their own TTL
+    return 0;
+  }
+
+  private async scanKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const reply = (await this.client.command('SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500)) as [
+        string,
+        string[]
+      ];
+      cursor = reply[0];
+      keys.push(...reply[1]);
+    } while (cursor !== '0');
+    return keys;
+  }
+}
+
+export default RedisSessionStore;
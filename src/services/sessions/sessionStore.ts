@@ -0,0 +1,55 @@
+// services/sessions/sessionStore.ts
+import type { KeyClaims } from '../../utils/hmac';
+
+/**
+ * A device an activation is bound to; each one holds a seat
+ */
+export interface DeviceActivation {
+  /** Hash of the fingerprint the client sent (random when it sent none) */
+  deviceId: string;
+  name?: string;
+  activatedAt: string;
+  /** Last activation or token refresh from the device */
+  lastSeenAt: string;
+  /** Id of the only refresh token that may still be used (rotated on every refresh) */
+  refreshTokenId?: string;
+}
+
+export interface ActivationSession {
+  identifier: string;
+  plan: string;
+  expiry: string;
+  /** ISO timestamp, so sessions survive JSON round-trips through persistent stores */
+  activatedAt: string;
+  /** Nonce of the activation key; tokens from an older activation stop working */
+  nonce?: string;
+  /** Devices the activation key is in use on */
+  devices: DeviceActivation[];
+  /** Claims from a v2 activation key (seats, feature flags) */
+  claims?: KeyClaims;
+}
+
+/**
+ * Storage for activation sessions, keyed by identifier. Shared implementations
+ * (file, Redis) let every instance see sessions activated on any other.
+ */
+export interface SessionStore {
+  readonly name: string;
+
+  get(identifier: string): Promise<ActivationSession | null>;
+
+  set(session: ActivationSession): Promise<void>;
+
+  delete(identifier: string): Promise<void>;
+
+  list(): Promise<ActivationSession[]>;
+
+  /**
+   * Remove sessions whose expiry has passed; resolves with the number removed
+   */
+  deleteExpired(now: Date): Promise<number>;
+}
+
+export function isSessionExpired(session: ActivationSession, now = new Date()): boolean {
+  return new Date(session.expiry) <= now;
+}
@@ -0,0 +1,82 @@
+import { getRequestContext, runWithContext } from '../../../utils/requestContext';
+import MemoryTracer from '../memoryTracer';
+import NoopTracer from '../noopTracer';
+import { withSpan } from '../tracer';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+describe('MemoryTracer', () => {
+  it('records finished spans with their attributes and errors', () => {
+    const tracer = new MemoryTracer();
+
+    const span = tracer.startSpan('work', { traceId: TRACE_ID, attributes: { a: 1 } });
+    span.setAttribute('b', 'two');
+    span.recordError(Object.assign(new Error('Boom'), { code: 'PROVIDER_ERROR' }));
+    span.end();
+    span.end();
+
+    expect(tracer.getFinishedSpans()).toEqual([
+      expect.objectContaining({
+        name: 'work',
+        traceId: TRACE_ID,
+        spanId: span.spanId,
+        attributes: { a: 1, b: 'two', 'error.code': 'PROVIDER_ERROR' },
+        status: 'error',
+        error: 'Boom'
+      })
+    ]);
+    tracer.reset();
+    expect(tracer.getFinishedSpans()).toEqual([]);
+  });
+
+  it('keeps only the newest spans', () => {
+    const tracer = new MemoryTracer({ maxSpans: 2 });
+
+    for (const name of ['a', 'b', 'c']) tracer.startSpan(name, { traceId: TRACE_ID }).end();
+
+    expect(tracer.getFinishedSpans().map((span) => span.name)).toEqual(['b', 'c']);
+  });
+});
+
+describe('withSpan', () => {
+  it('runs the callback in a child of the current span', async () => {
+    const tracer = new MemoryTracer();
+    const context = { requestId: 'req-1', traceId: TRACE_ID, spanId: '00f067aa0ba902b7', traceFlags: '01' };
+
+    const inner = await runWithContext(context, () =>
+      withSpan(tracer, 'child', { provider: 'fake' }, async (span) => {
+        expect(getRequestContext()).toEqual({ ...context, spanId: span.spanId });
+        return span.spanId;
+      })
+    );
+
+    expect(tracer.getFinishedSpans()).toEqual([
+      expect.objectContaining({
+        name: 'child',
+        traceId: TRACE_ID,
+        spanId: inner,
+        parentSpanId: context.spanId,
+        status: 'ok'
+      })
+    ]);
+  });
+
+  it('starts a trace outside a request and records failures', async () => {
+    const tracer = new MemoryTracer();
+
+    await expect(
+      withSpan(tracer, 'job', {}, async () => {
+        throw new Error('Failed');
+      })
+    ).rejects.toThrow('Failed');
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span).toMatchObject({ name: 'job', status: 'error', error: 'Failed' });
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.parentSpanId).toBeUndefined();
+  });
+
+  it('works with the no-op tracer', async () => {
+    await expect(withSpan(new NoopTracer(), 'noop', {}, async () => 'done')).resolves.toBe('done');
+  });
+});
@@ -0,0 +1,100 @@
+// services/tracing/memoryTracer.ts
+import { newSpanId } from '../../utils/requestContext';
+import type { Span, SpanAttributes, SpanAttributeValue, SpanOptions, Tracer } from './tracer';
+
+export interface FinishedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTime: string;
+  durationMs: number;
+  attributes: SpanAttributes;
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+export interface MemoryTracerOptions {
+  /** Finished spans kept; the oldest are dropped first */
+  maxSpans?: number;
+}
+
+class RecordingSpan implements Span {
+  public readonly name: string;
+  public readonly traceId: string;
+  public readonly spanId = newSpanId();
+  private parentSpanId?: string;
+  private attributes: SpanAttributes;
+  private startedAt = Date.now();
+  private error?: string;
+  private ended = false;
+  private onEnd: (span: FinishedSpan) => void;
+
+  constructor(name: string, options: SpanOptions, onEnd: (span: FinishedSpan) => void) {
+    this.name = name;
+    this.traceId = options.traceId;
+    this.parentSpanId = options.parentSpanId;
+    this.attributes = { ...options.attributes };
+    this.onEnd = onEnd;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): void {
+    this.attributes[key] = value;
+  }
+
+  recordError(error: unknown): void {
+    this.error = (error as Error)?.message || String(error);
+    const code = (error as { code?: unknown })?.code;
+    if (typeof code === 'string') this.attributes['error.code'] = code;
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.onEnd({
+      name: this.name,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      startTime: new Date(this.startedAt).toISOString(),
+      durationMs: Date.now() - this.startedAt,
+      attributes: this.attributes,
+      status: this.error === undefined ? 'ok' : 'error',
+      error: this.error
+    });
+  }
+}
+
+/**
+ * Keeps finished spans in process, for tests and local debugging
+ */
+class MemoryTracer implements Tracer {
+  public readonly name = 'memory';
+  private spans: FinishedSpan[] = [];
+  private maxSpans: number;
+
+  constructor(options: MemoryTracerOptions = {}) {
+    this.maxSpans = Math.max(1, options.maxSpans ?? 10000);
+  }
+
+  startSpan(name: string, options: SpanOptions): Span {
+    return new RecordingSpan(name, options, (span) => {
+      this.spans.push(span);
+      if (this.spans.length > this.maxSpans) this.spans.shift();
+    });
+  }
+
+  /**
+   * Finished spans in the order they ended
+   */
+  getFinishedSpans(): FinishedSpan[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+export default MemoryTracer;
@@ -0,0 +1,33 @@
+// services/tracing/noopTracer.ts
+import { newSpanId } from '../../utils/requestContext';
+import type { Span, SpanAttributeValue, SpanOptions, Tracer } from './tracer';
+
+class NoopSpan implements Span {
+  public readonly name: string;
+  public readonly traceId: string;
+  public readonly spanId = newSpanId();
+
+  constructor(name: string, traceId: string) {
+    this.name = name;
+    this.traceId = traceId;
+  }
+
+  setAttribute(_key: string, _value: SpanAttributeValue): void {}
+
+  recordError(_error: unknown): void {}
+
+  end(): void {}
+}
+
+/**
+ * Default tracer: spans only carry ids for propagation and are dropped
+ */
+class NoopTracer implements Tracer {
+  public readonly name = 'noop';
+
+  startSpan(name: string, options: SpanOptions): Span {
+    return new NoopSpan(name, options.traceId);
+  }
+}
+
+export default NoopTracer;
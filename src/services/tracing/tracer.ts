@@ -0,0 +1,69 @@
+// services/tracing/tracer.ts
+import { getRequestContext, newTraceId, runWithContext } from '../../utils/requestContext';
+
+export type SpanAttributeValue = string | number | boolean | undefined;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export interface Span {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+
+  setAttribute(key: string, value: SpanAttributeValue): void;
+
+  /**
+   * Mark the span as failed
+   */
+  recordError(error: unknown): void;
+
+  end(): void;
+}
+
+export interface SpanOptions {
+  traceId: string;
+  parentSpanId?: string;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Creates spans and decides what happens to them once ended (dropped,
+ * kept in memory, exported...)
+ */
+export interface Tracer {
+  readonly name: string;
+
+  startSpan(name: string, options: SpanOptions): Span;
+}
+
+/**
+ * Run `fn` in a span that is a child of the current one. Inside it the span is
+ * the active one, so outbound calls name it as their parent.
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const context = getRequestContext();
+  const traceId = context?.traceId ?? newTraceId();
+  const span = tracer.startSpan(name, { traceId, parentSpanId: context?.spanId, attributes });
+
+  try {
+    // Work outside a request (e.g. job workers) starts a trace of its own
+    return await runWithContext(
+      {
+        requestId: context?.requestId ?? traceId,
+        traceFlags: context?.traceFlags ?? '01',
+        traceId,
+        spanId: span.spanId
+      },
+      () => fn(span)
+    );
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -0,0 +1,105 @@
+// services/translationCache.ts
+import crypto from 'node:crypto';
+import { logger } from '../utils/logger';
+import type { CacheStore } from './cache/cacheStore';
+
+const log = logger.child({ module: 'cache' });
+
+export interface CachedTranslation {
+  translatedText: string;
+  detectedLanguage?: string;
+  provider?: string;
+}
+
+interface TranslationCacheKey {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  format?: string;
+  translateAttributes?: boolean;
+}
+
+/**
+ * Caches translation results keyed on a hash of the normalized request
+ */
+class TranslationCache {
+  private store: CacheStore;
+  private ttlMs: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(store: CacheStore, ttlMs: number) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  async get(params: TranslationCacheKey): Promise<CachedTranslation | null> {
+    try {
+      const raw = await this.store.get(this.keyFor(params));
+      if (!raw) {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return JSON.parse(raw) as CachedTranslation;
+    } catch (error) {
+      // A broken cache must never break translation
+      log.error({ store: this.store.name, err: error }, 'Translation cache read error');
+      return null;
+    }
+  }
+
+  async set(params: TranslationCacheKey, value: CachedTranslation): Promise<void> {
+    try {
+      await this.store.set(this.keyFor(params), JSON.stringify(value), this.ttlMs);
+    } catch (error) {
+      log.error({ store: this.store.name, err: error }, 'Translation cache write error');
+    }
+  }
+
+  /**
+   * Remove every cached translation; resolves with the number of entries removed
+   */
+  async purge(): Promise<number> {
+    const removed = await this.store.clear();
+    this.hits = 0;
+    this.misses = 0;
+    return removed;
+  }
+
+  /**
+   * Drop expired entries from stores that do not expire them on their own
+   */
+  async evictExpired(): Promise<number> {
+    return this.store.evictExpired ? this.store.evictExpired() : 0;
+  }
+
+  async getStats(): Promise<{ store: string; entries: number; hits: number; misses: number; ttlMs: number }> {
+    return {
+      store: this.store.name,
+      entries: await this.store.size(),
+      hits: this.hits,
+      misses: this.misses,
+      ttlMs: this.ttlMs
+    };
+  }
+
+  private keyFor({ text, sourceLanguage, targetLanguage, format, translateAttributes }: TranslationCacheKey): string {
+    const parts = [
+      sourceLanguage.trim().toLowerCase(),
+      targetLanguage.trim().toLowerCase(),
+      text.normalize('NFC').trim()
+    ];
+
+    // Markup results differ from plain text ones for the same input
+    if (format && format !== 'text') {
+      parts.push(format, translateAttributes ? 'attributes' : '');
+    }
+
+    const normalized = parts.join('\u0000');
+
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
+
+export default TranslationCache;
@@ -1,146 +1,512 @@
 // services/translationService.ts
-import { Translate } from '@google-cloud/translate/build/src/v2';
+import { CircuitBreaker, type CircuitState } from '../utils/circuitBreaker';
+import { TranslationError } from '../utils/errors';
+import { type GlossaryEntries, protectGlossaryTerms } from '../utils/glossary';
+import { logger } from '../utils/logger';
+import { extractSegments, type MarkupSegments, protectElements } from '../utils/markup';
+import type { UsageAccount, UsageLedger, UsageRecord } from './ledger/usageLedger';
+import {
+  ProviderError,
+  type ProviderTranslateOptions,
+  type ProviderTranslation,
+  type SupportedLanguage,
+  type TextFormat,
+  type TranslationProvider
+} from './providers/translationProvider';
+import NoopTracer from './tracing/noopTracer';
+import { type Tracer, withSpan } from './tracing/tracer';
+import type TranslationCache from './translationCache';
+
+const log = logger.child({ module: 'translation' });
+
+/** Connection-level failures raised by HTTP clients that do not wrap them */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EPIPE'
+]);
+
+/**
+ * The error as a ProviderError when the provider is to blame (its own errors,
+ * network failures, aborted requests), undefined for anything else
+ */
+function asProviderError(providerName: string, error: unknown): ProviderError | undefined {
+  if (error instanceof ProviderError) return error;
+
+  const err = error as NodeJS.ErrnoException | undefined;
+  const networkFailure =
+    (err?.code !== undefined && NETWORK_ERROR_CODES.has(err.code)) ||
+    err?.name === 'AbortError' ||
+    err?.name === 'TimeoutError';
+  return networkFailure ? new ProviderError(providerName, err?.message || 'Provider request failed') : undefined;
+}
 
 interface TranslateParams {
   text: string;
   sourceLanguage: string;
   targetLanguage: string;
+  format?: TextFormat;
+  /** With format 'html': also translate alt, title, placeholder and aria-label values */
+  translateAttributes?: boolean;
+  /** Do-not-translate terms and forced mappings applied around the provider call */
+  glossary?: GlossaryEntries;
+  /** Account billed for the call; omitted for internal calls */
+  account?: UsageAccount;
+}
+
+interface BatchTranslateParams {
+  texts: string[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  account?: UsageAccount;
 }
 
 interface TranslateResult {
-  ok: boolean;
-  translatedText?: string;
-  error?: string;
+  translatedText: string;
   detectedLanguage?: string;
+  provider?: string;
+  cached: boolean;
+}
+
+interface BatchTranslateResult {
+  translations: { translatedText: string; detectedLanguage?: string; cached: boolean }[];
+  provider?: string;
+}
+
+export interface TranslateServiceOptions {
+  /** Per-call timeout applied to every provider request */
+  timeoutMs?: number;
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+  cache?: TranslationCache;
+  /** Receives a usage record for every successful call made for an account */
+  ledger?: UsageLedger;
+  /** Records a `provider.<operation>` span per provider call */
+  tracer?: Tracer;
+}
+
+// Attribute values translated when translateAttributes is requested
+const TRANSLATABLE_ATTRIBUTES = ['alt', 'title', 'placeholder', 'aria-label'];
+
+interface ProviderEntry {
+  provider: TranslationProvider;
+  breaker: CircuitBreaker;
+}
+
+/** An HTML/XML text parsed for translateMarkup, the same for every provider */
+interface PreparedMarkup {
+  source: string;
+  /** For HTML-capable providers; absent when attributes must be translated */
+  protectedMarkup?: ReturnType<typeof protectElements>;
+  /** Text nodes (and attribute values) for everyone else */
+  segments: MarkupSegments;
+}
+
+function prepareMarkup(source: string, translateAttributes: boolean): PreparedMarkup {
+  return {
+    source,
+    protectedMarkup: translateAttributes ? undefined : protectElements(source),
+    segments: extractSegments(source, { attributes: translateAttributes ? TRANSLATABLE_ATTRIBUTES : [] })
+  };
 }
 
 class TranslateService {
-  private translate: Translate;
-
-  constructor(projectId?: string, keyFilename?: string, apiKey?: string) {
-    // Initialize Google Cloud Translate client
-    const options: any = {};
-    
-    if (projectId) {
-      options.projectId = projectId;
-    }
-    
-    if (keyFilename) {
-      options.keyFilename = keyFilename;
-    } else if (apiKey) {
-      options.key = apiKey;
+  private providers: ProviderEntry[];
+  private timeoutMs: number;
+  private cache?: TranslationCache;
+  private ledger?: UsageLedger;
+  private tracer: Tracer;
+
+  constructor(providers: TranslationProvider | TranslationProvider[], options: TranslateServiceOptions = {}) {
+    const list = Array.isArray(providers) ? providers : [providers];
+    if (list.length === 0) {
+      throw new Error('TranslateService requires at least one translation provider');
     }
 
-    this.translate = new Translate(options);
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.cache = options.cache;
+    this.ledger = options.ledger;
+    this.tracer = options.tracer ?? new NoopTracer();
+    this.providers = list.map((provider) => ({
+      provider,
+      breaker: new CircuitBreaker({
+        failureThreshold: options.failureThreshold ?? 5,
+        resetTimeoutMs: options.resetTimeoutMs ?? 30000
+      })
+    }));
   }
 
+  /**
+   * @throws TranslationError (INVALID_LANGUAGE or PROVIDER_*)
+   */
   public async translation(params: TranslateParams): Promise<TranslateResult> {
+    const { text, sourceLanguage, targetLanguage, format = 'text', translateAttributes = false } = params;
+    this.assertLanguageCodes(sourceLanguage, targetLanguage);
+
     try {
-      const { text, sourceLanguage, targetLanguage } = params;
+      // Auto-detect source language if set to 'auto'
+      const source = sourceLanguage === 'auto' ? undefined : sourceLanguage;
+
+      // Glossary terms become placeholders; cache entries hold the placeholder form
+      const glossary = params.glossary ? protectGlossaryTerms(text, params.glossary, format === 'html') : null;
+      const providerText = glossary ? glossary.text : text;
 
-      // Validate language codes
-      if (!this.isValidLanguageCode(sourceLanguage) || !this.isValidLanguageCode(targetLanguage)) {
+      const cacheKey = { text: providerText, sourceLanguage, targetLanguage, format, translateAttributes };
+      const cached = await this.cache?.get(cacheKey);
+      if (cached) {
+        await this.recordUsage(params.account, {
+          operation: 'translate',
+          provider: cached.provider,
+          sourceLanguage: cached.detectedLanguage || sourceLanguage,
+          targetLanguage,
+          characters: text.length,
+          cached: true
+        });
         return {
-          ok: false,
-          error: 'Invalid language code. Please use ISO 639-1 language codes (e.g., en, fr, es, de)'
+          ...cached,
+          translatedText: glossary ? glossary.restore(cached.translatedText) : cached.translatedText,
+          cached: true
         };
       }
 
-      // Auto-detect source language if set to 'auto'
-      const source = sourceLanguage === 'auto' ? undefined : sourceLanguage;
+      // Parse markup once, up front: a malformed document is not a provider failure
+      const markup = format === 'html' ? prepareMarkup(providerText, translateAttributes) : undefined;
 
-      // Perform translation
-      const [translation, metadata] = await this.translate.translate(text, {
-        from: source,
-        to: targetLanguage,
+      // Perform translation, failing over between providers
+      const { value: translation, provider } = await this.withFailover('translate', async (p, signal) => {
+        const options = { from: source, to: targetLanguage, signal };
+        if (markup) {
+          return this.translateMarkup(p, markup, options);
+        }
+        const [single] = await p.translate([providerText], options);
+        return single;
+      });
+
+      const result = {
+        translatedText: translation.translatedText,
+        detectedLanguage: translation.detectedLanguage,
+        provider
+      };
+      await this.cache?.set(cacheKey, result);
+      await this.recordUsage(params.account, {
+        operation: 'translate',
+        provider,
+        sourceLanguage: result.detectedLanguage || sourceLanguage,
+        targetLanguage,
+        characters: text.length,
+        cached: false
       });
 
-      // Handle both single string and array responses
-      const translatedText = Array.isArray(translation) ? translation[0] : translation;
-      
       return {
-        ok: true,
-        translatedText,
-        detectedLanguage: metadata?.data?.detectedSourceLanguage
+        ...result,
+        translatedText: glossary ? glossary.restore(result.translatedText) : result.translatedText,
+        cached: false
       };
+    } catch (error) {
+      log.error({ err: error }, 'Translation error');
+      throw this.toTranslationError(error);
+    }
+  }
 
-    } catch (error: any) {
-      console.error('Google Translate API error:', error);
-      
-      // Handle specific Google Cloud errors
-      if (error.code === 400) {
-        return {
-          ok: false,
-          error: 'Invalid request parameters or unsupported language'
-        };
-      } else if (error.code === 403) {
-        return {
-          ok: false,
-          error: 'Access denied. Check your API key or service account permissions'
-        };
-      } else if (error.code === 429) {
-        return {
-          ok: false,
-          error: 'Rate limit exceeded. Please try again later'
-        };
-      } else if (error.code === 413) {
-        return {
-          ok: false,
-          error: 'Text too long. Please try with shorter text'
-        };
+  /**
+   * Translate several texts with one provider call (cache hits are skipped).
+   * Results are returned in input order.
+   * @throws TranslationError (INVALID_LANGUAGE or PROVIDER_*)
+   */
+  public async translateBatch(params: BatchTranslateParams): Promise<BatchTranslateResult> {
+    const { texts, sourceLanguage, targetLanguage } = params;
+    this.assertLanguageCodes(sourceLanguage, targetLanguage);
+
+    try {
+      const source = sourceLanguage === 'auto' ? undefined : sourceLanguage;
+
+      const translations: BatchTranslateResult['translations'] = new Array(texts.length);
+      const missing: number[] = [];
+
+      for (let i = 0; i < texts.length; i++) {
+        const cached = await this.cache?.get({ text: texts[i], sourceLanguage, targetLanguage });
+        if (cached) {
+          translations[i] = {
+            translatedText: cached.translatedText,
+            detectedLanguage: cached.detectedLanguage,
+            cached: true
+          };
+        } else {
+          missing.push(i);
+        }
       }
 
-      return {
-        ok: false,
-        error: error.message || 'Translation service unavailable'
-      };
+      const cachedCharacters = texts.reduce((sum, text, i) => (translations[i] ? sum + text.length : sum), 0);
+      if (cachedCharacters > 0) {
+        await this.recordUsage(params.account, {
+          operation: 'translate',
+          sourceLanguage,
+          targetLanguage,
+          characters: cachedCharacters,
+          cached: true
+        });
+      }
+
+      if (missing.length === 0) {
+        return { translations };
+      }
+
+      // Array form: a single upstream request for every cache miss
+      const { value: results, provider } = await this.withFailover('translate', (p, signal) =>
+        p.translate(
+          missing.map((index) => texts[index]),
+          {
+            from: source,
+            to: targetLanguage,
+            signal
+          }
+        )
+      );
+
+      for (let j = 0; j < missing.length; j++) {
+        const index = missing[j];
+        const { translatedText, detectedLanguage } = results[j];
+        translations[index] = { translatedText, detectedLanguage, cached: false };
+        await this.cache?.set(
+          { text: texts[index], sourceLanguage, targetLanguage },
+          { translatedText, detectedLanguage, provider }
+        );
+      }
+
+      await this.recordUsage(params.account, {
+        operation: 'translate',
+        provider,
+        sourceLanguage,
+        targetLanguage,
+        characters: missing.reduce((sum, index) => sum + texts[index].length, 0),
+        cached: false
+      });
+
+      return { translations, provider };
+    } catch (error) {
+      log.error({ err: error }, 'Batch translation error');
+      throw this.toTranslationError(error);
     }
   }
 
   // Get list of supported languages
-  async getSupportedLanguages(): Promise<{ ok: boolean; languages?: any[]; error?: string }> {
+  async getSupportedLanguages(): Promise<{ languages: SupportedLanguage[]; provider: string }> {
     try {
-      const [languages] = await this.translate.getLanguages();
-      return {
-        ok: true,
-        languages
-      };
-    } catch (error: any) {
-      console.error('Error fetching supported languages:', error);
-      return {
-        ok: false,
-        error: 'Failed to fetch supported languages'
-      };
+      const { value: languages, provider } = await this.withFailover('languages', (p, signal) =>
+        p.getSupportedLanguages({ signal })
+      );
+      return { languages, provider };
+    } catch (error) {
+      log.error({ err: error }, 'Error fetching supported languages');
+      throw this.toTranslationError(error, 'Failed to fetch supported languages');
     }
   }
 
   // Detect language of given text
-  async detectLanguage(text: string): Promise<{ ok: boolean; detectedLanguage?: string; confidence?: number; error?: string }> {
+  async detectLanguage(
+    text: string,
+    account?: UsageAccount
+  ): Promise<{ detectedLanguage: string; confidence?: number; provider: string }> {
     try {
-      const [detections] = await this.translate.detect(text);
-      const detection = Array.isArray(detections) ? detections[0] : detections;
-      
+      const { value: detection, provider } = await this.withFailover('detect', (p, signal) =>
+        p.detectLanguage(text, { signal })
+      );
+      await this.recordUsage(account, {
+        operation: 'detect',
+        provider,
+        sourceLanguage: detection.language,
+        characters: text.length,
+        cached: false
+      });
+
       return {
-        ok: true,
         detectedLanguage: detection.language,
-        confidence: detection.confidence
-      };
-    } catch (error: any) {
-      console.error('Language detection error:', error);
-      return {
-        ok: false,
-        error: 'Failed to detect language'
+        confidence: detection.confidence,
+        provider
       };
+    } catch (error) {
+      log.error({ err: error }, 'Language detection error');
+      throw this.toTranslationError(error, 'Failed to detect language');
     }
   }
 
-  private isValidLanguageCode(code: string): boolean {
-    // Allow 'auto' for source language detection
-    if (code === 'auto') return true;
-    
-    // Basic validation for ISO 639-1 codes (2 characters) or some extended codes
-    return /^[a-z]{2,3}(-[A-Z]{2})?$/.test(code);
+  /**
+   * Circuit state of every configured provider, in failover order
+   */
+  getProviderStatus(): { name: string; state: CircuitState }[] {
+    return this.providers.map(({ provider, breaker }) => ({ name: provider.name, state: breaker.getState() }));
+  }
+
+  /**
+   * Write a ledger record for a successful call. Metering must never fail the
+   * translation itself, so ledger errors are only logged.
+   */
+  private async recordUsage(
+    account: UsageAccount | undefined,
+    record: Omit<UsageRecord, 'identifier' | 'plan' | 'timestamp'>
+  ): Promise<void> {
+    if (!account || !this.ledger) return;
+
+    try {
+      await this.ledger.append({ ...account, ...record, timestamp: new Date().toISOString() });
+    } catch (error) {
+      log.error({ err: error }, 'Usage ledger error');
+    }
+  }
+
+  /**
+   * Translate HTML/XML. HTML-capable providers get the markup with protected
+   * elements (<code>, <pre>, translate="no") swapped for placeholders; otherwise,
+   * or when attributes must be translated, only text nodes are sent as plain text.
+   */
+  private async translateMarkup(
+    provider: TranslationProvider,
+    markup: PreparedMarkup,
+    options: ProviderTranslateOptions
+  ): Promise<ProviderTranslation> {
+    if (provider.supportsHtml && markup.protectedMarkup) {
+      const { protectedMarkup } = markup;
+      const [translation] = await provider.translate([protectedMarkup.markup], { ...options, format: 'html' });
+      const restored = protectedMarkup.restore(translation.translatedText);
+      if (restored !== null) {
+        return { ...translation, translatedText: restored };
+      }
+      log.warn({ provider: provider.name }, 'Provider dropped protected placeholders, retrying text nodes only');
+    }
+
+    const { segments, rebuild } = markup.segments;
+    if (segments.length === 0) {
+      return { translatedText: markup.source };
+    }
+
+    const translations = await provider.translate(segments, { ...options, format: 'text' });
+    return {
+      translatedText: rebuild(translations.map((translation) => translation.translatedText)),
+      detectedLanguage: translations[0]?.detectedLanguage
+    };
   }
+
+  /**
+   * Run an operation against providers in order. Moves on to the next provider
+   * on 5xx, 429 or timeout; client errors (4xx) are returned as-is. Each provider
+   * call runs in a `provider.<operationName>` span and is aborted when it times out.
+   */
+  private async withFailover<T>(
+    operationName: string,
+    operation: (provider: TranslationProvider, signal: AbortSignal) => Promise<T>
+  ): Promise<{ value: T; provider: string }> {
+    let lastError: ProviderError | undefined;
+
+    for (const { provider, breaker } of this.providers) {
+      if (!breaker.canRequest()) {
+        log.warn({ provider: provider.name }, 'Skipping provider: circuit open');
+        continue;
+      }
+
+      try {
+        const value = await withSpan(this.tracer, `provider.${operationName}`, { provider: provider.name }, () =>
+          this.withTimeout(provider, (signal) => operation(provider, signal))
+        );
+        breaker.recordSuccess();
+        return { value, provider: provider.name };
+      } catch (error) {
+        const providerError = asProviderError(provider.name, error);
+        // A bug on our side: another provider would fail the same way
+        if (!providerError) {
+          breaker.cancelRequest();
+          throw error;
+        }
+
+        // The provider answered; the request itself was at fault
+        if (!providerError.retryable) {
+          breaker.recordSuccess();
+          throw providerError;
+        }
+
+        breaker.recordFailure();
+        lastError = providerError;
+        log.warn({ provider: provider.name, status: providerError.status }, 'Provider failed, trying next provider');
+      }
+    }
+
+    throw lastError || new ProviderError('none', 'All translation providers are unavailable', 503);
+  }
+
+  private withTimeout<T>(provider: TranslationProvider, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Stop the upstream request instead of leaving it running in the background
+        controller.abort();
+        reject(new ProviderError(provider.name, `Provider timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    });
+
+    return Promise.race([call(controller.signal), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Map a provider failure to the error clients see, by upstream status.
+   * Other errors (ours, not the provider's) are returned unchanged.
+   */
+  private toTranslationError(error: unknown, fallbackMessage?: string): unknown {
+    if (!(error instanceof ProviderError)) return error;
+
+    const providerError = error;
+    const status = providerError.status;
+    const details = { provider: providerError.provider };
+
+    if (status === 400) {
+      return new TranslationError('PROVIDER_REJECTED', 'Invalid request parameters or unsupported language', details);
+    } else if (status === 401 || status === 403) {
+      return new TranslationError(
+        'PROVIDER_AUTH_FAILED',
+        'Access denied. Check your API key or service account permissions',
+        details
+      );
+    } else if (status === 429) {
+      return new TranslationError('PROVIDER_RATE_LIMITED', 'Rate limit exceeded. Please try again later', details);
+    } else if (status === 413) {
+      return new TranslationError('TEXT_TOO_LONG', 'Text too long. Please try with shorter text', details);
+    }
+
+    // Timeouts, network errors and open circuits carry no status (or 503)
+    const unavailable = status === undefined || status === 503;
+    return new TranslationError(
+      unavailable ? 'PROVIDER_UNAVAILABLE' : 'PROVIDER_ERROR',
+      fallbackMessage || (error as Error)?.message || 'Translation service unavailable',
+      details
+    );
+  }
+
+  /**
+   * @throws TranslationError (INVALID_LANGUAGE)
+   */
+  private assertLanguageCodes(sourceLanguage: string, targetLanguage: string): void {
+    if (!isValidLanguageCode(sourceLanguage) || !isValidLanguageCode(targetLanguage)) {
+      throw new TranslationError(
+        'INVALID_LANGUAGE',
+        'Invalid language code. Please use ISO 639-1 language codes (e.g., en, fr, es, de)'
+      );
+    }
+  }
+}
+
+/**
+ * Language codes the service accepts: ISO 639 codes with an optional region
+ * (e.g. en, pt-BR), or 'auto' for source language detection
+ */
+export function isValidLanguageCode(code: string): boolean {
+  if (code === 'auto') return true;
+
+  return /^[a-z]{2,3}(-[A-Z]{2})?$/.test(code);
 }
 
-export default TranslateService;
\ No newline at end of file
+export default TranslateService;
@@ -0,0 +1,235 @@
+// services/usageService.ts
+import type { Store } from 'express-rate-limit';
+import type { UsageLedger, UsageQuery, UsageRecord } from './ledger/usageLedger';
+
+export interface UsagePeriod {
+  /** Calendar month, e.g. "2025-01" (UTC) */
+  period: string;
+  start: string;
+  end: string;
+  characters: number;
+  requests: number;
+}
+
+export type UsageGroupBy = 'day' | 'language';
+
+export interface UsageGroup {
+  /** Day (YYYY-MM-DD) or target language ("detect" for language detection) */
+  key: string;
+  characters: number;
+  cachedCharacters: number;
+  requests: number;
+}
+
+/**
+ * Month-to-date totals per identifier for ledger records before `through`
+ */
+interface UsageRollup {
+  period: string;
+  through: string;
+  totals: Map<string, { characters: number; requests: number }>;
+}
+
+/**
+ * Running month totals for one identifier: seeded once from the rollup and the
+ * ledger records after it, then kept current as this process appends records
+ */
+interface UsageCounter {
+  period: string;
+  characters: number;
+  requests: number;
+  /** Records appended while the seed is being read, reconciled with it once read */
+  pending?: UsageRecord[];
+  seeded: Promise<void>;
+}
+
+/** Records written this close to a rollup are left to live queries, in case of clock skew between instances */
+const ROLLUP_LAG_MS = 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: Date;
+}
+
+/**
+ * Per-identifier consumption: monthly totals and reports read from the usage
+ * ledger, plus the per-minute request counters behind plan rate limits
+ */
+class UsageService {
+  private ledger: UsageLedger;
+  private rateLimitStore: Store;
+  private currentRollup?: UsageRollup;
+  private counters: Map<string, UsageCounter> = new Map();
+  /** The ledger for writers: appends through it also update the running month totals */
+  public readonly meteredLedger: UsageLedger;
+
+  /**
+   * @param rateLimitStore One-minute window counters; a shared store keeps limits across instances
+   */
+  constructor(ledger: UsageLedger, rateLimitStore: Store) {
+    this.ledger = ledger;
+    this.rateLimitStore = rateLimitStore;
+    this.meteredLedger = {
+      name: ledger.name,
+      append: async (record) => {
+        await ledger.append(record);
+        this.count(record);
+      },
+      query: (query) => ledger.query(query)
+    };
+  }
+
+  /**
+   * Count a request against the identifier's per-minute limit
+   */
+  async hitRateLimit(identifier: string, limit: number): Promise<RateLimitResult> {
+    const { totalHits, resetTime } = await this.rateLimitStore.increment(identifier);
+
+    return {
+      allowed: totalHits <= limit,
+      limit,
+      remaining: Math.max(0, limit - totalHits),
+      resetTime: resetTime || new Date(Date.now() + 60 * 1000)
+    };
+  }
+
+  /**
+   * Totals for the calendar month (UTC) containing `now`. The ledger is read once per
+   * identifier and rollup; records appended by other instances since then show up
+   * after the next rollup.
+   */
+  async getUsage(identifier: string, now = new Date()): Promise<UsagePeriod> {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const period = periodOf(now);
+
+    let counter = this.counters.get(identifier);
+    if (!counter || counter.period !== period) {
+      counter = this.seedCounter(identifier, period, start, end);
+    }
+    await counter.seeded;
+
+    return {
+      period,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      characters: counter.characters,
+      requests: counter.requests
+    };
+  }
+
+  /**
+   * Start a counter from the rollup plus the ledger records written after it. The
+   * counter is registered before the read, so records appended meanwhile are kept.
+   */
+  private seedCounter(identifier: string, period: string, start: Date, end: Date): UsageCounter {
+    const rollup = this.currentRollup?.period === period ? this.currentRollup : undefined;
+    const rolledUp = rollup?.totals.get(identifier) || { characters: 0, requests: 0 };
+
+    const counter: UsageCounter = { period, characters: 0, requests: 0, pending: [], seeded: Promise.resolve() };
+    counter.seeded = this.ledger
+      .query({ identifier, from: rollup ? rollup.through : start.toISOString(), to: end.toISOString() })
+      .then((records) => {
+        // Pending records the read already returned must not be counted twice
+        const read = new Map<string, number>();
+        for (const record of records) {
+          const key = JSON.stringify(record);
+          read.set(key, (read.get(key) || 0) + 1);
+        }
+        const unseen = (counter.pending || []).filter((record) => {
+          const key = JSON.stringify(record);
+          const remaining = read.get(key) || 0;
+          if (remaining > 0) read.set(key, remaining - 1);
+          return remaining === 0;
+        });
+
+        counter.characters =
+          rolledUp.characters + [...records, ...unseen].reduce((sum, record) => sum + record.characters, 0);
+        counter.requests = rolledUp.requests + records.length + unseen.length;
+        counter.pending = undefined;
+      })
+      .catch((error) => {
+        if (this.counters.get(identifier) === counter) this.counters.delete(identifier);
+        throw error;
+      });
+
+    this.counters.set(identifier, counter);
+    return counter;
+  }
+
+  private count(record: UsageRecord): void {
+    const counter = this.counters.get(record.identifier);
+    if (!counter || counter.period !== periodOf(new Date(record.timestamp))) return;
+
+    if (counter.pending) {
+      counter.pending.push(record);
+    } else {
+      counter.characters += record.characters;
+      counter.requests++;
+    }
+  }
+
+  /**
+   * Fold this month's ledger records into per-identifier totals and reseed the
+   * running totals from them, picking up usage recorded by other instances.
+   * Resolves with the number of identifiers.
+   */
+  async rollup(now = new Date()): Promise<number> {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const through = new Date(Math.max(start.getTime(), now.getTime() - ROLLUP_LAG_MS));
+    const records = await this.ledger.query({ from: start.toISOString(), to: through.toISOString() });
+
+    const totals: UsageRollup['totals'] = new Map();
+    for (const record of records) {
+      const total = totals.get(record.identifier) || { characters: 0, requests: 0 };
+      total.characters += record.characters;
+      total.requests++;
+      totals.set(record.identifier, total);
+    }
+
+    this.currentRollup = { period: periodOf(now), through: through.toISOString(), totals };
+    this.counters.clear();
+    return totals.size;
+  }
+
+  /**
+   * Usage between two instants, grouped by day or by target language
+   */
+  async getReport(identifier: string, from: string, to: string, groupBy: UsageGroupBy): Promise<UsageGroup[]> {
+    const records = await this.ledger.query({ identifier, from, to });
+    const groups: Map<string, UsageGroup> = new Map();
+
+    for (const record of records) {
+      const key = groupKey(record, groupBy);
+      const group = groups.get(key) || { key, characters: 0, cachedCharacters: 0, requests: 0 };
+      group.characters += record.characters;
+      group.cachedCharacters += record.cached ? record.characters : 0;
+      group.requests++;
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Raw ledger records, for billing exports
+   */
+  async exportRecords(query: UsageQuery): Promise<UsageRecord[]> {
+    return this.ledger.query(query);
+  }
+}
+
+function groupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+  if (groupBy === 'day') {
+    return record.timestamp.slice(0, 10);
+  }
+  return record.operation === 'detect' ? 'detect' : record.targetLanguage || 'unknown';
+}
+
+function periodOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export default UsageService;
@@ -0,0 +1,97 @@
+import { CircuitBreaker } from '../circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const open = () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    return breaker;
+  };
+
+  it('opens after the configured number of consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('turns half-open once the reset timeout has passed', () => {
+    const breaker = open();
+
+    vi.advanceTimersByTime(999);
+    expect(breaker.getState()).toBe('open');
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('lets a single probe through while half-open', () => {
+    const breaker = open();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('stays half-open when the probe is cancelled and lets the next one through', () => {
+    const breaker = open();
+    vi.advanceTimersByTime(1000);
+
+    breaker.canRequest();
+    breaker.cancelRequest();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('closes when the probe succeeds', () => {
+    const breaker = open();
+    vi.advanceTimersByTime(1000);
+
+    breaker.canRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('reopens for another full timeout when the probe fails', () => {
+    const breaker = open();
+    vi.advanceTimersByTime(1000);
+
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    vi.advanceTimersByTime(999);
+    expect(breaker.canRequest()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
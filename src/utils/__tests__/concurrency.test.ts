@@ -0,0 +1,101 @@
+import { KeyedMutex, mapWithConcurrency } from '../concurrency';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (value) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, value));
+      inFlight--;
+      return value * 10;
+    });
+
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(peak).toBe(2);
+  });
+
+  it.each([Number.NaN, 0, -2])('still runs every item, one at a time, with a limit of %s', async (limit) => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3], limit, async (value) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await tick();
+      inFlight--;
+      return value * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30]);
+    expect(peak).toBe(1);
+  });
+
+  it('rejects with the first error and starts no further items', async () => {
+    const started: number[] = [];
+
+    const result = mapWithConcurrency([0, 1, 2, 3, 4], 2, async (value) => {
+      started.push(value);
+      await tick();
+      if (value === 1) throw new Error('boom');
+      return value;
+    });
+
+    await expect(result).rejects.toThrow('boom');
+    await tick();
+    expect(started).not.toContain(4);
+  });
+
+  it('handles empty input', async () => {
+    await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+});
+
+describe('KeyedMutex', () => {
+  it('runs calls with the same key one at a time, in order', async () => {
+    const mutex = new KeyedMutex();
+    const events: string[] = [];
+    const step = (name: string, delay: number) => async () => {
+      events.push(`${name}:start`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      events.push(`${name}:end`);
+      return name;
+    };
+
+    const results = await Promise.all([mutex.run('a', step('first', 5)), mutex.run('a', step('second', 1))]);
+
+    expect(results).toEqual(['first', 'second']);
+    expect(events).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+  });
+
+  it('does not hold up other keys', async () => {
+    const mutex = new KeyedMutex();
+    const events: string[] = [];
+
+    const slow = mutex.run('a', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      events.push('a');
+    });
+    await mutex.run('b', async () => {
+      events.push('b');
+    });
+    await slow;
+
+    expect(events).toEqual(['b', 'a']);
+  });
+
+  it('keeps going after a failed call', async () => {
+    const mutex = new KeyedMutex();
+
+    const failed = mutex.run('a', async () => {
+      throw new Error('boom');
+    });
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(mutex.run('a', async () => 'next')).resolves.toBe('next');
+  });
+});
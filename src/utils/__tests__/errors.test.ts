@@ -0,0 +1,60 @@
+import {
+  ActivationKeyError,
+  ApiError,
+  NotFoundError,
+  statusForCode,
+  TranslationError,
+  toApiError,
+  ValidationError
+} from '../errors';
+
+describe('errors', () => {
+  it('derives the HTTP status from the error code', () => {
+    expect(statusForCode('KEY_EXPIRED')).toBe(400);
+    expect(new ActivationKeyError('KEY_REVOKED', 'Revoked').status).toBe(403);
+    expect(new ActivationKeyError('SEAT_LIMIT_REACHED', 'Full', { seats: { used: 1, limit: 1 } })).toMatchObject({
+      status: 409,
+      details: { seats: { used: 1, limit: 1 } }
+    });
+    expect(new NotFoundError('Gone').status).toBe(404);
+    expect(new TranslationError('PROVIDER_UNAVAILABLE', 'Down').status).toBe(503);
+  });
+
+  it('only retries provider failures that may go away', () => {
+    expect(new TranslationError('PROVIDER_RATE_LIMITED', 'Slow down').retryable).toBe(true);
+    expect(new TranslationError('PROVIDER_ERROR', 'Boom').retryable).toBe(true);
+    expect(new TranslationError('PROVIDER_REJECTED', 'Bad input').retryable).toBe(false);
+    expect(new TranslationError('TEXT_TOO_LONG', 'Too long').retryable).toBe(false);
+  });
+
+  describe('toApiError', () => {
+    it('passes typed errors through', () => {
+      const error = new ValidationError('Bad', 'INVALID_LANGUAGE');
+
+      expect(toApiError(error)).toBe(error);
+    });
+
+    it('maps body parser errors to client errors', () => {
+      expect(toApiError({ type: 'entity.too.large', status: 413 })).toMatchObject({
+        code: 'PAYLOAD_TOO_LARGE',
+        status: 413
+      });
+      expect(toApiError({ type: 'entity.parse.failed', status: 400 })).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        message: 'Request body is not valid JSON'
+      });
+      expect(toApiError(Object.assign(new Error('Unsupported charset'), { status: 415, expose: true }))).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        message: 'Unsupported charset'
+      });
+    });
+
+    it('hides everything else behind an internal error', () => {
+      const error = toApiError(new Error('connection string with a password'));
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ code: 'INTERNAL_ERROR', status: 500, message: 'Internal server error' });
+      expect(toApiError(undefined).code).toBe('INTERNAL_ERROR');
+    });
+  });
+});
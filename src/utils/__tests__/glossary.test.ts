@@ -0,0 +1,54 @@
+import { protectGlossaryTerms } from '../glossary';
+
+describe('protectGlossaryTerms', () => {
+  it('swaps terms for placeholders and restores them after translation', () => {
+    const result = protectGlossaryTerms('Open Traducteur settings', {
+      doNotTranslate: ['Traducteur'],
+      terms: [{ source: 'settings', target: 'paramètres' }]
+    });
+
+    expect(result.text).toBe('Open __G0__ __G1__');
+    expect(result.restore('Ouvrir les __G1__ de __G0__')).toBe('Ouvrir les paramètres de Traducteur');
+  });
+
+  it('keeps the input spelling of do-not-translate terms', () => {
+    const result = protectGlossaryTerms('visit GITHUB', { doNotTranslate: ['GitHub'], terms: [] });
+
+    expect(result.restore(result.text)).toBe('visit GITHUB');
+  });
+
+  it('prefers longer terms and respects word boundaries', () => {
+    const result = protectGlossaryTerms('Cloud Run runs in the cloud; cloudy', {
+      doNotTranslate: ['Cloud', 'Cloud Run'],
+      terms: []
+    });
+
+    expect(result.text).toBe('__G0__ runs in the __G1__; cloudy');
+    expect(result.restore('__G0__ / __G1__')).toBe('Cloud Run / cloud');
+  });
+
+  it('matches case-sensitively when asked to', () => {
+    const result = protectGlossaryTerms('Apple apple', { doNotTranslate: ['Apple'], terms: [], caseSensitive: true });
+
+    expect(result.text).toBe('__G0__ apple');
+  });
+
+  it('tolerates providers that add spaces inside placeholders', () => {
+    const result = protectGlossaryTerms('Hello World', { doNotTranslate: ['World'], terms: [] });
+
+    expect(result.restore('Bonjour _ _G0_ _')).toBe('Bonjour World');
+  });
+
+  it('leaves tags alone in markup mode', () => {
+    const result = protectGlossaryTerms('<a title="Docs">Docs</a>', { doNotTranslate: ['Docs'], terms: [] }, true);
+
+    expect(result.text).toBe('<a title="Docs">__G0__</a>');
+  });
+
+  it('returns the text unchanged without entries', () => {
+    const result = protectGlossaryTerms('Hello', { doNotTranslate: [' '], terms: [] });
+
+    expect(result.text).toBe('Hello');
+    expect(result.restore('Bonjour')).toBe('Bonjour');
+  });
+});
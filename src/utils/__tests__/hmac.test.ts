@@ -0,0 +1,178 @@
+import crypto from 'node:crypto';
+import {
+  type ActivationKeyring,
+  createActivationKey,
+  createActivationKeyV2,
+  deriveKey,
+  parseKeySecrets,
+  signToken,
+  signWebhookPayload,
+  type TokenClaims,
+  verifyActivationKey,
+  verifyToken
+} from '../hmac';
+
+const SECRET = 'token-secret';
+
+function claims(overrides: Partial<TokenClaims> = {}): TokenClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    typ: 'access',
+    sub: 'alice',
+    plan: 'premium',
+    nonce: 'n1',
+    did: 'd1',
+    jti: 'j1',
+    iat: now,
+    exp: now + 60,
+    ...overrides
+  };
+}
+
+describe('session tokens', () => {
+  it('round-trips signed claims', () => {
+    const token = signToken(claims(), SECRET);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[0-9a-f]{64}$/);
+    expect(verifyToken(token, SECRET)).toEqual(claims());
+  });
+
+  it('rejects tokens signed with another secret or with altered claims', () => {
+    const token = signToken(claims(), SECRET);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify(claims({ plan: 'enterprise' }))).toString('base64url')}.${signature}`;
+
+    expect(() => verifyToken(token, 'other-secret')).toThrow('Invalid token signature');
+    expect(() => verifyToken(forged, SECRET)).toThrow(expect.objectContaining({ code: 'TOKEN_INVALID' }));
+  });
+
+  it('rejects expired tokens', () => {
+    const token = signToken(claims({ exp: Math.floor(Date.now() / 1000) - 1 }), SECRET);
+
+    expect(() => verifyToken(token, SECRET)).toThrow(expect.objectContaining({ code: 'TOKEN_EXPIRED', status: 401 }));
+  });
+
+  it.each(['', 'abc', 'a.b.c', '.sig'])('rejects the malformed token %j', (token) => {
+    expect(() => verifyToken(token, SECRET)).toThrow(expect.objectContaining({ code: 'TOKEN_INVALID' }));
+  });
+
+  it('rejects a validly signed payload that is not JSON', () => {
+    const payload = Buffer.from('not json').toString('base64url');
+    const signature = crypto.createHmac('sha256', SECRET).update(payload).digest('hex');
+
+    expect(() => verifyToken(`${payload}.${signature}`, SECRET)).toThrow('Malformed token');
+  });
+});
+
+describe('deriveKey', () => {
+  it('derives a stable, purpose-specific key', () => {
+    const key = deriveKey('master', 'session-tokens');
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(deriveKey('master', 'session-tokens')).toBe(key);
+    expect(deriveKey('master', 'webhooks')).not.toBe(key);
+    expect(deriveKey('other', 'session-tokens')).not.toBe(key);
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('signs the timestamp together with the body', () => {
+    const expected = crypto.createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('{"a":1}', 1700000000, 'secret')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe('activation keys', () => {
+  const expiry = new Date(Date.now() + 86400000).toISOString();
+  const payload = { identifier: 'alice', expiry, plan: 'premium', nonce: 'n1' };
+  const keyring: ActivationKeyring = { secrets: { k1: 'old-secret', k2: 'new-secret' }, currentKid: 'k2' };
+
+  it('round-trips v2 keys with their key id and claims', () => {
+    const key = createActivationKeyV2(
+      { ...payload, issuedAt: '2025-01-01T00:00:00.000Z', claims: { seats: 2, features: ['beta'] } },
+      'k2',
+      'new-secret'
+    );
+
+    expect(key).toMatch(/^v2\.k2\.[A-Za-z0-9_-]+\.[0-9a-f]{64}$/);
+    expect(verifyActivationKey(key, keyring)).toEqual({
+      ...payload,
+      version: 2,
+      kid: 'k2',
+      issuedAt: '2025-01-01T00:00:00.000Z',
+      claims: { seats: 2, features: ['beta'] }
+    });
+  });
+
+  it('keeps verifying keys signed with a retired secret while its key id is listed', () => {
+    const oldKey = createActivationKeyV2(payload, 'k1', 'old-secret');
+
+    expect(verifyActivationKey(oldKey, keyring).kid).toBe('k1');
+    expect(() => verifyActivationKey(oldKey, { secrets: { k2: 'new-secret' } })).toThrow(
+      expect.objectContaining({ code: 'KEY_UNKNOWN_KID' })
+    );
+  });
+
+  it('rejects forged, tampered and malformed v2 keys', () => {
+    const key = createActivationKeyV2(payload, 'k1', 'old-secret');
+    const [version, kid, body, signature] = key.split('.');
+    const tampered = Buffer.from(JSON.stringify({ ...payload, plan: 'enterprise' })).toString('base64url');
+
+    expect(() => verifyActivationKey(createActivationKeyV2(payload, 'k1', 'guess'), keyring)).toThrow(
+      expect.objectContaining({ code: 'KEY_INVALID_SIGNATURE' })
+    );
+    expect(() => verifyActivationKey([version, kid, tampered, signature].join('.'), keyring)).toThrow(
+      expect.objectContaining({ code: 'KEY_INVALID_SIGNATURE' })
+    );
+    expect(() => verifyActivationKey([version, kid, body].join('.'), keyring)).toThrow(
+      expect.objectContaining({ code: 'KEY_MALFORMED' })
+    );
+    expect(() => verifyActivationKey('v2.__proto__.e30.abc', keyring)).toThrow(
+      expect.objectContaining({ code: 'KEY_UNKNOWN_KID' })
+    );
+  });
+
+  it('rejects expired keys and invalid key ids', () => {
+    const expired = createActivationKeyV2({ ...payload, expiry: '2020-01-01T00:00:00.000Z' }, 'k1', 'old-secret');
+
+    expect(() => verifyActivationKey(expired, keyring)).toThrow(expect.objectContaining({ code: 'KEY_EXPIRED' }));
+    expect(() => createActivationKeyV2(payload, 'bad.kid', 'secret')).toThrow('Invalid key id');
+  });
+
+  it('accepts v1 keys only during the migration window', () => {
+    const v1 = createActivationKey('alice', expiry, 'basic', 'n1', 'legacy-secret');
+    const legacy: ActivationKeyring = { ...keyring, legacySecret: 'legacy-secret' };
+
+    expect(verifyActivationKey(v1, legacy)).toEqual({
+      identifier: 'alice',
+      expiry,
+      plan: 'basic',
+      nonce: 'n1',
+      version: 1
+    });
+    expect(verifyActivationKey(v1, 'legacy-secret').version).toBe(1);
+    expect(() => verifyActivationKey(v1, keyring)).toThrow(expect.objectContaining({ code: 'KEY_VERSION_REJECTED' }));
+    expect(() => verifyActivationKey(v1, { ...legacy, legacyUntil: new Date(Date.now() - 1000) })).toThrow(
+      expect.objectContaining({ code: 'KEY_VERSION_REJECTED' })
+    );
+    expect(() => verifyActivationKey(v1, { ...legacy, legacySecret: 'other' })).toThrow(
+      expect.objectContaining({ code: 'KEY_INVALID_SIGNATURE' })
+    );
+  });
+});
+
+describe('parseKeySecrets', () => {
+  it('parses named secrets, ignoring blanks and whitespace', () => {
+    expect(parseKeySecrets(' k1:secret-one , ,k2:se:cret ')).toEqual({ k1: 'secret-one', k2: 'se:cret' });
+    expect(parseKeySecrets(undefined)).toEqual({});
+  });
+
+  it.each(['secret-only', 'bad kid:secret', 'k1:'])('rejects the entry %j', (value) => {
+    expect(() => parseKeySecrets(value)).toThrow(/^Invalid secret entry/);
+  });
+
+  it('does not echo the secret of a rejected entry', () => {
+    expect(() => parseKeySecrets('bad kid:hunter2')).toThrow('Invalid secret entry "bad kid". Use "name:secret"');
+  });
+});
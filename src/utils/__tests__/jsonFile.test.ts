@@ -0,0 +1,57 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { readJsonFile, readJsonFileSync, updateJsonFile, writeJsonFile } from '../jsonFile';
+
+describe('jsonFile', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-file-'));
+    filePath = path.join(dir, 'nested', 'data.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns the fallback for missing files', async () => {
+    expect(readJsonFileSync(filePath, { empty: true })).toEqual({ empty: true });
+    await expect(readJsonFile(filePath, [])).resolves.toEqual([]);
+  });
+
+  it('creates parent directories and leaves no temp file behind', async () => {
+    await writeJsonFile(filePath, { a: 1 });
+
+    expect(readJsonFileSync(filePath, null)).toEqual({ a: 1 });
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['data.json']);
+  });
+
+  it('serializes concurrent read-modify-write updates', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, index) =>
+        updateJsonFile<Record<string, number>, void>(filePath, {}, (data) => {
+          data[`key${index}`] = index;
+        })
+      )
+    );
+
+    expect(Object.keys(await readJsonFile(filePath, {}))).toHaveLength(20);
+  });
+
+  it('skips the write when the update returns false', async () => {
+    const result = await updateJsonFile(filePath, { a: 1 }, () => false);
+
+    expect(result).toBe(false);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('does not hide corrupt files', async () => {
+    fs.mkdirSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, '{not json');
+
+    expect(() => readJsonFileSync(filePath, {})).toThrow(SyntaxError);
+    await expect(readJsonFile(filePath, {})).rejects.toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,81 @@
+import { createLogger, type LoggerConfig, loggerConfigFromEnv } from '../logger';
+import { runWithContext } from '../requestContext';
+
+function capture(config: LoggerConfig = {}) {
+  const lines: Record<string, unknown>[] = [];
+  const log = createLogger(config, { write: (line: string) => lines.push(JSON.parse(line)) });
+  return { log, lines };
+}
+
+describe('logger', () => {
+  it('redacts credentials in headers, bodies and logged objects', () => {
+    const { log, lines } = capture();
+
+    log.info(
+      {
+        req: { headers: { authorization: 'Bearer abc', 'x-admin-key': 'admin', accept: 'application/json' } },
+        body: { key: 'v2.k1.payload.sig', refreshToken: 'rt', deviceName: 'laptop' },
+        keyring: { secret: 'shh' }
+      },
+      'Activation'
+    );
+
+    expect(lines[0]).toMatchObject({
+      msg: 'Activation',
+      req: { headers: { authorization: '[REDACTED]', 'x-admin-key': '[REDACTED]', accept: 'application/json' } },
+      body: { key: '[REDACTED]', refreshToken: '[REDACTED]', deviceName: 'laptop' },
+      keyring: { secret: '[REDACTED]' }
+    });
+  });
+
+  it('redacts user text unless told not to', () => {
+    const redacted = capture();
+    const plain = capture({ redactText: false });
+
+    for (const { log } of [redacted, plain]) {
+      log.info({ body: { text: 'Hello', targetLanguage: 'fr' }, translatedText: 'Bonjour' });
+      log.info({ body: 'raw document' });
+    }
+
+    expect(redacted.lines).toMatchObject([
+      { body: { text: '[REDACTED]', targetLanguage: 'fr' }, translatedText: '[REDACTED]' },
+      { body: '[REDACTED]' }
+    ]);
+    expect(plain.lines).toMatchObject([
+      { body: { text: 'Hello' }, translatedText: 'Bonjour' },
+      { body: 'raw document' }
+    ]);
+  });
+
+  it('redacts additional configured paths', () => {
+    const { log, lines } = capture({ redactPaths: ['customer.email'] });
+
+    log.info({ customer: { email: 'a@example.com', country: 'FR' } });
+
+    expect(lines[0]).toMatchObject({ customer: { email: '[REDACTED]', country: 'FR' } });
+  });
+
+  it('adds the request and trace ids inside a request context', () => {
+    const { log, lines } = capture();
+    const context = { requestId: 'req-1', traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: '01' };
+
+    runWithContext(context, () => log.info('inside'));
+    log.info('outside');
+
+    expect(lines[0]).toMatchObject({ requestId: 'req-1', traceId: context.traceId });
+    expect(lines[1]).not.toHaveProperty('requestId');
+  });
+
+  it('reads its configuration from the environment', () => {
+    expect(loggerConfigFromEnv({})).toEqual({ level: 'info', pretty: false, redactText: true, redactPaths: [] });
+    expect(
+      loggerConfigFromEnv({
+        NODE_ENV: 'development',
+        LOG_LEVEL: 'debug',
+        LOG_REDACT_TEXT: 'false',
+        LOG_REDACT_PATHS: 'a.b, c ,'
+      })
+    ).toEqual({ level: 'debug', pretty: true, redactText: false, redactPaths: ['a.b', 'c'] });
+    expect(loggerConfigFromEnv({ NODE_ENV: 'development', LOG_PRETTY: 'false' }).pretty).toBe(false);
+  });
+});
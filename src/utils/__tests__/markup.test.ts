@@ -0,0 +1,113 @@
+import { decodeEntities, encodeAttribute, extractSegments, protectElements, tokenizeMarkup } from '../markup';
+
+const upper = (segments: string[]) => segments.map((segment) => segment.toUpperCase());
+
+describe('tokenizeMarkup', () => {
+  it('splits text, tags and raw nodes and reassembles byte for byte', () => {
+    const markup = '<!DOCTYPE html><p class="a">Hi <b>there</b><br/></p><!-- note -->';
+
+    const tokens = tokenizeMarkup(markup);
+
+    expect(tokens.map((token) => token.type)).toEqual([
+      'raw',
+      'tag',
+      'text',
+      'tag',
+      'text',
+      'tag',
+      'tag',
+      'tag',
+      'raw'
+    ]);
+    expect(tokens[6]).toMatchObject({ name: 'br', selfClosing: true });
+    expect(tokens.map((token) => token.value).join('')).toBe(markup);
+  });
+
+  it('keeps ">" inside quoted attribute values within the tag', () => {
+    const tokens = tokenizeMarkup('<a title="a > b">link</a>');
+
+    expect(tokens[0].value).toBe('<a title="a > b">');
+    expect(tokens[1]).toEqual({ type: 'text', value: 'link' });
+  });
+});
+
+describe('entities', () => {
+  it('decodes named and numeric entities', () => {
+    expect(decodeEntities('&lt;a&gt; &amp; &#233;&#x263A; &quot;&apos;&nbsp;&unknown;')).toBe('<a> & é☺ "\' &unknown;');
+  });
+
+  it('leaves numeric references outside Unicode or naming a surrogate undecoded', () => {
+    expect(decodeEntities('&#x110000; &#1114112; &#xD800; &#x10FFFF;')).toBe(
+      '&#x110000; &#1114112; &#xD800; \u{10FFFF}'
+    );
+  });
+
+  it('escapes attribute values for their quote style', () => {
+    expect(encodeAttribute(`"it's" <b>`, '"')).toBe("&quot;it's&quot; &lt;b&gt;");
+    expect(encodeAttribute(`"it's"`, "'")).toBe('"it&#39;s"');
+  });
+});
+
+describe('extractSegments', () => {
+  it('extracts trimmed, decoded text nodes and rebuilds around their whitespace', () => {
+    const { segments, rebuild } = extractSegments('<p> Fish &amp; chips </p>\n<p>Tea</p>');
+
+    expect(segments).toEqual(['Fish & chips', 'Tea']);
+    expect(rebuild(upper(segments))).toBe('<p> FISH &amp; CHIPS </p>\n<p>TEA</p>');
+  });
+
+  it('leaves code, pre, script and translate="no" regions untouched', () => {
+    const markup = '<p>Run <code>npm <b>install</b></code></p><div translate="no">Brand</div><pre>x</pre>';
+
+    const { segments, rebuild } = extractSegments(markup);
+
+    expect(segments).toEqual(['Run']);
+    expect(rebuild(['Lancez'])).toBe(
+      '<p>Lancez <code>npm <b>install</b></code></p><div translate="no">Brand</div><pre>x</pre>'
+    );
+  });
+
+  it('handles nested protected elements of the same name', () => {
+    const { segments } = extractSegments('<div class="notranslate"><div>a</div>b</div>c');
+
+    expect(segments).toEqual(['c']);
+  });
+
+  it('translates the requested attributes only', () => {
+    const markup = `<img alt="A cat" src="cat.png"><a title='Say "hi"' href="#">Link</a>`;
+
+    const { segments, rebuild } = extractSegments(markup, { attributes: ['alt', 'title'] });
+
+    expect(segments).toEqual(['A cat', 'Say "hi"', 'Link']);
+    expect(rebuild(['Un <chat>', `Dis "l'ami"`, 'Lien'])).toBe(
+      `<img alt="Un &lt;chat&gt;" src="cat.png"><a title='Dis "l&#39;ami"' href="#">Lien</a>`
+    );
+  });
+
+  it('escapes translated text so it cannot inject markup', () => {
+    const { segments, rebuild } = extractSegments('<p>Hello</p>');
+
+    expect(rebuild(segments.map(() => '<script>alert(1)</script>'))).toBe(
+      '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>'
+    );
+  });
+});
+
+describe('protectElements', () => {
+  it('swaps protected regions for placeholders and restores them', () => {
+    const markup = '<p>Use <code>git <i>push</i></code> now</p>';
+
+    const { markup: protectedMarkup, restore } = protectElements(markup);
+
+    expect(protectedMarkup).toBe('<p>Use <span translate="no" class="notranslate" data-tr-ph="0"></span> now</p>');
+    expect(restore(protectedMarkup.replace('Use', 'Utilisez'))).toBe(
+      '<p>Utilisez <code>git <i>push</i></code> now</p>'
+    );
+  });
+
+  it('returns null when the provider dropped a placeholder', () => {
+    const { restore } = protectElements('<p>a <code>b</code></p>');
+
+    expect(restore('<p>a</p>')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  formatTraceparent,
+  getRequestContext,
+  outboundHeaders,
+  parseRequestId,
+  parseTraceparent,
+  runWithContext
+} from '../requestContext';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('request context', () => {
+  it('parses W3C traceparent headers', () => {
+    expect(parseTraceparent(` 00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01 `)).toEqual({
+      traceId: TRACE_ID,
+      parentSpanId: SPAN_ID,
+      traceFlags: '01'
+    });
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}`)).toBeNull();
+  });
+
+  it('only accepts request ids that are safe to log and echo', () => {
+    expect(parseRequestId(' order-42:retry.1 ')).toBe('order-42:retry.1');
+    expect(parseRequestId('has spaces')).toBeNull();
+    expect(parseRequestId('line\nbreak')).toBeNull();
+    expect(parseRequestId('x'.repeat(129))).toBeNull();
+    expect(parseRequestId(undefined)).toBeNull();
+  });
+
+  it('carries the context across awaits and into outbound headers', async () => {
+    const context = { requestId: 'req-1', traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: '01' };
+
+    expect(outboundHeaders()).toEqual({});
+    await runWithContext(context, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(getRequestContext()).toBe(context);
+      expect(outboundHeaders()).toEqual({ 'X-Request-Id': 'req-1', traceparent: formatTraceparent(context) });
+    });
+    expect(formatTraceparent(context)).toBe(`00-${TRACE_ID}-${SPAN_ID}-01`);
+    expect(getRequestContext()).toBeUndefined();
+  });
+});
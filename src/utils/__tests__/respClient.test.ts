@@ -0,0 +1,110 @@
+import { RespClient, RespError } from '../respClient';
+import { type FakeRespServer, startRespServer } from './respServer';
+
+describe('RespClient', () => {
+  let server: FakeRespServer;
+  let client: RespClient;
+
+  beforeEach(async () => {
+    server = await startRespServer();
+  });
+
+  afterEach(async () => {
+    client?.close();
+    await server.close();
+  });
+
+  it('sends commands and decodes simple, bulk, null and integer replies', async () => {
+    client = new RespClient(server.url);
+
+    await expect(client.command('SET', 'greeting', 'héllo wörld')).resolves.toBe('OK');
+    await expect(client.command('GET', 'greeting')).resolves.toBe('héllo wörld');
+    await expect(client.command('GET', 'missing')).resolves.toBeNull();
+    await expect(client.command('DEL', 'greeting', 'missing')).resolves.toBe(1);
+  });
+
+  it('decodes nested arrays', async () => {
+    client = new RespClient(server.url);
+    await client.command('SET', 'k:1', 'a');
+    await client.command('SET', 'k:2', 'b');
+
+    const [cursor, keys] = (await client.command('SCAN', '0', 'MATCH', 'k:*')) as [string, string[]];
+
+    expect(cursor).toBe('0');
+    expect(keys.sort()).toEqual(['k:1', 'k:2']);
+  });
+
+  it('matches pipelined replies to their commands in order', async () => {
+    client = new RespClient(server.url);
+
+    const replies = await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        client.command('SET', `key${i}`, `value${i}`).then(() => client.command('GET', `key${i}`))
+      )
+    );
+
+    expect(replies).toEqual(Array.from({ length: 20 }, (_, i) => `value${i}`));
+  });
+
+  it('rejects error replies with RespError and keeps the connection', async () => {
+    client = new RespClient(server.url);
+
+    await expect(client.command('NOPE')).rejects.toBeInstanceOf(RespError);
+    await expect(client.command('PING')).resolves.toBe('OK');
+    expect(server.connections).toBe(1);
+  });
+
+  it('authenticates and selects the database from the URL before any command', async () => {
+    client = new RespClient(server.url.replace('redis://', 'redis://user:p%40ss@') + '/2');
+
+    await client.command('PING');
+
+    expect(server.commands).toEqual([['AUTH', 'user', 'p@ss'], ['SELECT', '2'], ['PING']]);
+  });
+
+  it('handles replies split across several packets', async () => {
+    const value = 'x'.repeat(200000);
+    client = new RespClient(server.url);
+
+    await client.command('SET', 'large', value);
+
+    await expect(client.command('GET', 'large')).resolves.toBe(value);
+  });
+
+  it('fails pending commands on timeout and reconnects for the next one', async () => {
+    server.reply = ([name]) => (name === 'GET' ? null : undefined);
+    client = new RespClient(server.url, { commandTimeoutMs: 50 });
+
+    const first = client.command('GET', 'a');
+    const second = client.command('GET', 'b');
+
+    await expect(first).rejects.toThrow('Redis command timed out after 50ms');
+    await expect(second).rejects.toThrow('Redis command timed out after 50ms');
+
+    server.reply = undefined;
+    await expect(client.command('PING')).resolves.toBe('OK');
+    expect(server.connections).toBe(2);
+  });
+
+  it('drops the connection on an unparsable reply instead of misrouting later replies', async () => {
+    server.reply = ([name]) => (name === 'GET' ? '?garbage\r\n' : undefined);
+    client = new RespClient(server.url);
+
+    await expect(client.command('GET', 'a')).rejects.toThrow('Unexpected RESP type byte');
+
+    server.reply = undefined;
+    await client.command('SET', 'a', '1');
+    await expect(client.command('GET', 'a')).resolves.toBe('1');
+    expect(server.connections).toBe(2);
+  });
+
+  it('rejects pending commands when closed', async () => {
+    server.reply = () => null;
+    client = new RespClient(server.url);
+
+    const pending = client.command('PING');
+    client.close();
+
+    await expect(pending).rejects.toThrow('Redis connection closed');
+  });
+});
@@ -0,0 +1,184 @@
+import net from 'node:net';
+
+/**
+ * Minimal in-memory Redis-protocol server for tests: strings with PX expiry,
+ * INCR/DECR counters with PEXPIRE/PTTL, RPUSH/LRANGE lists, SADD/SMEMBERS sets,
+ * HSET/HGET/HDEL/HGETALL hashes, DEL, SCAN (one page) and AUTH/SELECT/PING.
+ * `reply` overrides the answer to a command with raw RESP, or null to never answer.
+ */
+export interface FakeRespServer {
+  url: string;
+  /** Every command received, in order */
+  commands: string[][];
+  data: Map<string, { value: string; expiresAt?: number }>;
+  reply?: (args: string[]) => string | null | undefined;
+  connections: number;
+  close(): Promise<void>;
+}
+
+function bulk(value: string | null): string {
+  return value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/**
+ * Split complete commands (arrays of bulk strings) off the front of the buffer.
+ * The buffer is latin1 so that string offsets are byte offsets.
+ */
+function parseCommands(buffer: string): { commands: string[][]; rest: string } {
+  const commands: string[][] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const headerEnd = buffer.indexOf('\r\n', offset);
+    if (headerEnd === -1) break;
+    const count = parseInt(buffer.slice(offset + 1, headerEnd), 10);
+
+    const args: string[] = [];
+    let cursor = headerEnd + 2;
+    for (let i = 0; i < count; i++) {
+      const lengthEnd = buffer.indexOf('\r\n', cursor);
+      if (lengthEnd === -1) break;
+      const length = parseInt(buffer.slice(cursor + 1, lengthEnd), 10);
+      if (buffer.length < lengthEnd + 2 + length + 2) break;
+      args.push(Buffer.from(buffer.slice(lengthEnd + 2, lengthEnd + 2 + length), 'latin1').toString('utf-8'));
+      cursor = lengthEnd + 2 + length + 2;
+    }
+    if (args.length < count) break;
+
+    commands.push(args);
+    offset = cursor;
+  }
+
+  return { commands, rest: buffer.slice(offset) };
+}
+
+export async function startRespServer(): Promise<FakeRespServer> {
+  const sockets = new Set<net.Socket>();
+  const fake = { commands: [], data: new Map(), connections: 0 } as unknown as FakeRespServer;
+
+  const lists = new Map<string, string[]>();
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, string>>();
+
+  const live = (key: string) => {
+    const entry = fake.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      fake.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = ([name, ...args]: string[]): string => {
+    switch (name.toUpperCase()) {
+      case 'PING':
+      case 'AUTH':
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET':
+        return bulk(live(args[0])?.value ?? null);
+      case 'SET': {
+        const px = args.findIndex((arg) => arg.toUpperCase() === 'PX');
+        fake.data.set(args[0], {
+          value: args[1],
+          expiresAt: px === -1 ? undefined : Date.now() + Number(args[px + 1])
+        });
+        return '+OK\r\n';
+      }
+      case 'INCR':
+      case 'DECR': {
+        const entry = live(args[0]);
+        const value = Number(entry?.value ?? 0) + (name.toUpperCase() === 'INCR' ? 1 : -1);
+        fake.data.set(args[0], { value: String(value), expiresAt: entry?.expiresAt });
+        return `:${value}\r\n`;
+      }
+      case 'PEXPIRE': {
+        const entry = live(args[0]);
+        if (entry) entry.expiresAt = Date.now() + Number(args[1]);
+        return `:${entry ? 1 : 0}\r\n`;
+      }
+      case 'PTTL': {
+        const entry = live(args[0]);
+        if (!entry) return ':-2\r\n';
+        return `:${entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now()}\r\n`;
+      }
+      case 'RPUSH': {
+        const list = lists.get(args[0]) || [];
+        list.push(...args.slice(1));
+        lists.set(args[0], list);
+        return `:${list.length}\r\n`;
+      }
+      case 'LRANGE': {
+        const list = lists.get(args[0]) || [];
+        const stop = Number(args[2]) < 0 ? list.length + Number(args[2]) + 1 : Number(args[2]) + 1;
+        const items = list.slice(Number(args[1]), stop);
+        return `*${items.length}\r\n${items.map(bulk).join('')}`;
+      }
+      case 'SADD': {
+        const set = sets.get(args[0]) || new Set<string>();
+        const before = set.size;
+        for (const member of args.slice(1)) set.add(member);
+        sets.set(args[0], set);
+        return `:${set.size - before}\r\n`;
+      }
+      case 'SMEMBERS': {
+        const members = [...(sets.get(args[0]) || [])];
+        return `*${members.length}\r\n${members.map(bulk).join('')}`;
+      }
+      case 'HSET': {
+        const hash = hashes.get(args[0]) || new Map<string, string>();
+        const before = hash.size;
+        for (let i = 1; i + 1 < args.length; i += 2) hash.set(args[i], args[i + 1]);
+        hashes.set(args[0], hash);
+        return `:${hash.size - before}\r\n`;
+      }
+      case 'HGET':
+        return bulk(hashes.get(args[0])?.get(args[1]) ?? null);
+      case 'HDEL': {
+        const hash = hashes.get(args[0]);
+        return `:${args.slice(1).filter((field) => hash?.delete(field)).length}\r\n`;
+      }
+      case 'HGETALL': {
+        const entries = [...(hashes.get(args[0]) || [])].flat();
+        return `*${entries.length}\r\n${entries.map(bulk).join('')}`;
+      }
+      case 'DEL':
+        return `:${args.filter((key) => live(key) && fake.data.delete(key)).length}\r\n`;
+      case 'SCAN': {
+        const pattern = args[args.findIndex((arg) => arg.toUpperCase() === 'MATCH') + 1] || '*';
+        const prefix = pattern.replace(/\*$/, '');
+        const keys = [...fake.data.keys()].filter((key) => key.startsWith(prefix) && live(key));
+        return `*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    fake.connections++;
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      const parsed = parseCommands(buffer + chunk.toString('latin1'));
+      buffer = parsed.rest;
+      for (const command of parsed.commands) {
+        fake.commands.push(command);
+        const custom = fake.reply?.(command);
+        if (custom === null) continue;
+        socket.write(custom ?? execute(command));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  fake.url = `redis://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  fake.close = () =>
+    new Promise((resolve) => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    });
+  return fake;
+}
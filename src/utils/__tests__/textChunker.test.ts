@@ -0,0 +1,55 @@
+import { chunkText, type TextChunk } from '../textChunker';
+
+const reassemble = (chunks: TextChunk[], translate = (text: string) => text) =>
+  chunks.map((chunk) => chunk.leading + translate(chunk.text) + chunk.trailing).join('');
+
+describe('chunkText', () => {
+  it('keeps short documents in one chunk with their surrounding whitespace', () => {
+    expect(chunkText('  Hello there.\n', 100)).toEqual([{ leading: '  ', text: 'Hello there.', trailing: '\n' }]);
+  });
+
+  it('splits on paragraphs and keeps blank lines outside the chunks', () => {
+    const document = 'First paragraph.\n\nSecond paragraph.\n\n\nThird.';
+
+    const chunks = chunkText(document, 20);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(['First paragraph.', 'Second paragraph.', 'Third.']);
+    expect(reassemble(chunks)).toBe(document);
+  });
+
+  it('packs whole sentences up to the limit', () => {
+    const chunks = chunkText('One. Two. Three. Four.', 10);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(['One. Two.', 'Three.', 'Four.']);
+  });
+
+  it('splits sentences longer than the limit at word boundaries', () => {
+    const sentence = 'alpha beta gamma delta epsilon zeta eta theta';
+
+    const chunks = chunkText(sentence, 12);
+
+    expect(chunks.every((chunk) => chunk.leading.length + chunk.text.length + chunk.trailing.length <= 12)).toBe(true);
+    expect(chunks.every((chunk) => !/^\S+$/.test(chunk.text) || sentence.split(' ').includes(chunk.text))).toBe(true);
+    expect(reassemble(chunks)).toBe(sentence);
+  });
+
+  it('reproduces the layout of a long document around translated text', () => {
+    const paragraph = 'The quick brown fox jumps over the lazy dog. '.repeat(40).trim();
+    const document = `\n${paragraph}\n\n  ${paragraph}\n`;
+
+    const chunks = chunkText(document, 300);
+
+    expect(chunks.every((chunk) => chunk.text.length <= 300)).toBe(true);
+    expect(reassemble(chunks)).toBe(document);
+    expect(reassemble(chunks, (text) => text.toUpperCase())).toBe(
+      document.replace(/[^\s]+/g, (word) => word.toUpperCase())
+    );
+  });
+
+  it('keeps blank documents as whitespace with nothing to translate', () => {
+    const chunks = chunkText('\n\n', 10);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(['']);
+    expect(reassemble(chunks)).toBe('\n\n');
+  });
+});
@@ -0,0 +1,72 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Minimal consecutive-failure circuit breaker. Half-open lets a single trial
+ * request through; other callers fail fast until it reports back.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private options: CircuitBreakerOptions;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Whether a request may be attempted right now. In half-open this claims the
+   * trial; the caller must report it with recordSuccess() or recordFailure().
+   */
+  canRequest(): boolean {
+    this.refreshState();
+    if (this.state === 'open') return false;
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.probeInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Hand back a trial claimed by canRequest() without a verdict, when the
+   * request failed for reasons that say nothing about the provider
+   */
+  cancelRequest(): void {
+    this.probeInFlight = false;
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Map over items with at most `limit` calls in flight (at least one, whatever
+ * `limit` is). Results keep input order. The first rejection is returned and no
+ * further items are started.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Number.isNaN(limit) ? 1 : Math.max(1, Math.floor(limit));
+  const workers = Array.from({ length: Math.min(workerCount, items.length) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Serializes async work per key within this process: run() waits for every
+ * earlier call with the same key to settle before starting `fn`
+ */
+export class KeyedMutex {
+  private tails: Map<string, Promise<void>> = new Map();
+
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(fn);
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+
+    this.tails.set(key, tail);
+    tail.then(() => {
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+    return result;
+  }
+}
@@ -0,0 +1,230 @@
+// utils/errors.ts
+
+/**
+ * Machine-readable error codes returned as `code` in every API error response
+ */
+export type ErrorCode =
+  // Request validation
+  | 'VALIDATION_FAILED'
+  | 'INVALID_LANGUAGE'
+  | 'TEXT_TOO_LONG'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'NOT_FOUND'
+  // Activation keys
+  | 'KEY_MALFORMED'
+  | 'KEY_INVALID_SIGNATURE'
+  | 'KEY_UNKNOWN_KID'
+  | 'KEY_VERSION_REJECTED'
+  | 'KEY_EXPIRED'
+  | 'KEY_REVOKED'
+  | 'SEAT_LIMIT_REACHED'
+  // Bearer tokens and sessions
+  | 'AUTH_REQUIRED'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'SESSION_ENDED'
+  | 'REFRESH_TOKEN_REUSED'
+  // Plans
+  | 'PLAN_UNKNOWN'
+  | 'ENDPOINT_NOT_IN_PLAN'
+  | 'LANGUAGE_NOT_IN_PLAN'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  // Translation providers
+  | 'PROVIDER_REJECTED'
+  | 'PROVIDER_AUTH_FAILED'
+  | 'PROVIDER_RATE_LIMITED'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'PROVIDER_ERROR'
+  // Server
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+/**
+ * HTTP status for each code, applied by the global error handler
+ */
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  INVALID_LANGUAGE: 400,
+  TEXT_TOO_LONG: 400,
+  PAYLOAD_TOO_LARGE: 413,
+  NOT_FOUND: 404,
+  KEY_MALFORMED: 400,
+  KEY_INVALID_SIGNATURE: 400,
+  KEY_UNKNOWN_KID: 400,
+  KEY_VERSION_REJECTED: 400,
+  KEY_EXPIRED: 400,
+  KEY_REVOKED: 403,
+  SEAT_LIMIT_REACHED: 409,
+  AUTH_REQUIRED: 401,
+  TOKEN_INVALID: 401,
+  TOKEN_EXPIRED: 401,
+  SESSION_ENDED: 401,
+  REFRESH_TOKEN_REUSED: 401,
+  PLAN_UNKNOWN: 403,
+  ENDPOINT_NOT_IN_PLAN: 403,
+  LANGUAGE_NOT_IN_PLAN: 403,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  PROVIDER_REJECTED: 400,
+  PROVIDER_AUTH_FAILED: 502,
+  PROVIDER_RATE_LIMITED: 429,
+  PROVIDER_UNAVAILABLE: 503,
+  PROVIDER_ERROR: 502,
+  SERVICE_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500
+};
+
+export function statusForCode(code: ErrorCode): number {
+  return ERROR_STATUS[code];
+}
+
+/**
+ * Base class for errors that reach clients as `{ok: false, code, error, requestId}`
+ */
+export class ApiError extends Error {
+  public readonly code: ErrorCode;
+  /** Extra fields for the response (e.g. seat usage, per-target results) */
+  public readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): number {
+    return statusForCode(this.code);
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    code: Extract<ErrorCode, 'VALIDATION_FAILED' | 'INVALID_LANGUAGE' | 'TEXT_TOO_LONG'> = 'VALIDATION_FAILED',
+    details?: Record<string, unknown>
+  ) {
+    super(code, message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super('NOT_FOUND', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export type ActivationKeyErrorCode = Extract<
+  ErrorCode,
+  | 'KEY_MALFORMED'
+  | 'KEY_INVALID_SIGNATURE'
+  | 'KEY_UNKNOWN_KID'
+  | 'KEY_VERSION_REJECTED'
+  | 'KEY_EXPIRED'
+  | 'KEY_REVOKED'
+  | 'SEAT_LIMIT_REACHED'
+>;
+
+/**
+ * An activation key that cannot be (or can no longer be) activated
+ */
+export class ActivationKeyError extends ApiError {
+  constructor(code: ActivationKeyErrorCode, message: string, details?: Record<string, unknown>) {
+    super(code, message, details);
+    this.name = 'ActivationKeyError';
+  }
+}
+
+export type AuthenticationErrorCode = Extract<
+  ErrorCode,
+  'AUTH_REQUIRED' | 'TOKEN_INVALID' | 'TOKEN_EXPIRED' | 'SESSION_ENDED' | 'REFRESH_TOKEN_REUSED'
+>;
+
+/**
+ * A missing or unusable bearer/refresh token
+ */
+export class AuthenticationError extends ApiError {
+  constructor(code: AuthenticationErrorCode, message: string) {
+    super(code, message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export type EntitlementErrorCode = Extract<
+  ErrorCode,
+  'PLAN_UNKNOWN' | 'ENDPOINT_NOT_IN_PLAN' | 'LANGUAGE_NOT_IN_PLAN' | 'RATE_LIMITED' | 'QUOTA_EXCEEDED'
+>;
+
+/**
+ * A request the caller's plan does not allow (right now)
+ */
+export class EntitlementError extends ApiError {
+  constructor(code: EntitlementErrorCode, message: string, details?: Record<string, unknown>) {
+    super(code, message, details);
+    this.name = 'EntitlementError';
+  }
+}
+
+export type TranslationErrorCode = Extract<
+  ErrorCode,
+  | 'INVALID_LANGUAGE'
+  | 'TEXT_TOO_LONG'
+  | 'PROVIDER_REJECTED'
+  | 'PROVIDER_AUTH_FAILED'
+  | 'PROVIDER_RATE_LIMITED'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'PROVIDER_ERROR'
+>;
+
+/**
+ * A translation, detection or language listing that failed
+ */
+export class TranslationError extends ApiError {
+  constructor(code: TranslationErrorCode, message: string, details?: Record<string, unknown>) {
+    super(code, message, details);
+    this.name = 'TranslationError';
+  }
+
+  /**
+   * Whether the same request may succeed later (client errors will not)
+   */
+  get retryable(): boolean {
+    return (
+      this.code === 'PROVIDER_RATE_LIMITED' || this.code === 'PROVIDER_UNAVAILABLE' || this.code === 'PROVIDER_ERROR'
+    );
+  }
+}
+
+/**
+ * A backing store or dependency the request needs is down
+ */
+export class ServiceUnavailableError extends ApiError {
+  constructor(message: string) {
+    super('SERVICE_UNAVAILABLE', message);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Normalize anything thrown by a route or middleware. Body parser errors are
+ * client errors; everything else unknown is an internal error.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const { type, status } = (error || {}) as { type?: string; status?: number };
+  if (type === 'entity.too.large') {
+    return new ApiError('PAYLOAD_TOO_LARGE', 'Request body is too large');
+  }
+  if (type === 'entity.parse.failed') {
+    return new ValidationError('Request body is not valid JSON');
+  }
+  if (typeof status === 'number' && status >= 400 && status < 500 && (error as { expose?: boolean }).expose) {
+    return new ValidationError((error as Error).message);
+  }
+
+  return new ApiError('INTERNAL_ERROR', 'Internal server error');
+}
@@ -0,0 +1,198 @@
+import { FileFormatError, getFileFormat, resolveFileFormat, SUPPORTED_FILE_FORMATS } from '..';
+import { gettextFormat } from '../gettext';
+import { jsonI18nFormat } from '../jsonI18n';
+import { srtFormat, vttFormat } from '../subtitles';
+import { xliffFormat } from '../xliff';
+
+const languages = { sourceLanguage: 'en', targetLanguage: 'fr' };
+
+describe('file formats', () => {
+  describe('resolveFileFormat', () => {
+    it('prefers the explicit format over the file extension', () => {
+      expect(resolveFileFormat('PO', 'messages.json')).toBe(gettextFormat);
+      expect(resolveFileFormat(undefined, 'Subs.VTT')).toBe(vttFormat);
+      expect(resolveFileFormat(undefined, 'messages.pot')).toBe(gettextFormat);
+      expect(resolveFileFormat(undefined, 'notes.txt')).toBeUndefined();
+      expect(getFileFormat('docx')).toBeUndefined();
+      expect(SUPPORTED_FILE_FORMATS).toEqual(['json', 'po', 'xliff', 'srt', 'vtt']);
+    });
+  });
+
+  describe('json', () => {
+    const content = `{
+  "greeting": "Hello {name}",
+  "items": "{count, plural, one {# item} other {# items}}",
+  "nested": { "list": ["Save", 3, true] }
+}
+`;
+
+    it('extracts string leaves and ICU branches with arguments protected', () => {
+      const parsed = jsonI18nFormat.parse(content, languages);
+
+      expect(parsed.units.map((unit) => unit.text)).toEqual(['Hello __P0__', '__P0__ item', '__P0__ items', 'Save']);
+    });
+
+    it('serializes untouched units back to an equivalent document, keeping its indentation', () => {
+      const parsed = jsonI18nFormat.parse(content, languages);
+
+      expect(parsed.serialize(parsed.units.map((unit) => unit.text))).toBe(
+        `${JSON.stringify(JSON.parse(content), null, 2)}\n`
+      );
+    });
+
+    it('restores placeholders in translated messages', () => {
+      const parsed = jsonI18nFormat.parse(content, languages);
+      const output = JSON.parse(parsed.serialize(parsed.units.map((unit) => `[fr]${unit.text}`)));
+
+      expect(output).toEqual({
+        greeting: '[fr]Hello {name}',
+        items: '{count, plural, one {[fr]# item} other {[fr]# items}}',
+        nested: { list: ['[fr]Save', 3, true] }
+      });
+    });
+
+    it('rejects invalid JSON', () => {
+      expect(() => jsonI18nFormat.parse('{"a":', languages)).toThrow(FileFormatError);
+    });
+  });
+
+  describe('po', () => {
+    const content = `msgid ""
+msgstr ""
+"Language: en\\n"
+
+#: src/app.js:1
+msgid "Hello %s"
+msgstr ""
+
+msgid "Already done"
+msgstr "Déjà fait"
+
+msgid "One file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+`;
+
+    it('translates empty msgstr entries only, with format specifiers protected', () => {
+      const parsed = gettextFormat.parse(content, languages);
+
+      expect(parsed.units.map((unit) => unit.text)).toEqual(['Hello __P0__', 'One file', '__P0__ files']);
+    });
+
+    it('writes translations, the target language and its plural forms', () => {
+      const parsed = gettextFormat.parse(content, languages);
+      const output = parsed.serialize(parsed.units.map((unit) => `[fr]${unit.text}`));
+
+      expect(output).toContain('"Language: fr\\n"');
+      expect(output).toContain('"Plural-Forms: nplurals=2; plural=(n > 1);\\n"');
+      expect(output).toContain('#: src/app.js:1\nmsgid "Hello %s"\nmsgstr "[fr]Hello %s"');
+      expect(output).toContain('msgid "Already done"\nmsgstr "Déjà fait"');
+      expect(output).toContain('msgstr[0] "[fr]One file"\nmsgstr[1] "[fr]%d files"');
+    });
+
+    it('writes as many plural forms as the target language has', () => {
+      const parsed = gettextFormat.parse(content, { sourceLanguage: 'en', targetLanguage: 'ru' });
+      const output = parsed.serialize(parsed.units.map((unit) => unit.text));
+
+      expect(output).toContain('msgstr[2] "%d files"');
+    });
+
+    it('rejects files without entries', () => {
+      expect(() => gettextFormat.parse('# just a comment\n', languages)).toThrow(FileFormatError);
+    });
+  });
+
+  describe('xliff', () => {
+    const v12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2">
+  <file source-language="en" datatype="plaintext" original="app">
+    <body>
+      <trans-unit id="1">
+        <source>Fish &amp; chips</source>
+      </trans-unit>
+      <trans-unit id="2">
+        <source>Click <g id="1">here</g></source>
+        <target>old</target>
+      </trans-unit>
+      <trans-unit id="3" translate="no">
+        <source>Brand</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+    it('decodes plain sources and keeps inline codes as markup', () => {
+      const parsed = xliffFormat.parse(v12, languages);
+
+      expect(parsed.units).toEqual([
+        { text: 'Fish & chips', format: 'text' },
+        { text: 'Click <g id="1">here</g>', format: 'html' }
+      ]);
+    });
+
+    it('adds or replaces targets and records the target language', () => {
+      const parsed = xliffFormat.parse(v12, languages);
+      const output = parsed.serialize(['Poisson & frites', 'Cliquez <g id="1">ici</g>']);
+
+      expect(output).toContain('<file target-language="fr" source-language="en"');
+      expect(output).toContain(
+        '<source>Fish &amp; chips</source>\n      <target state="translated">Poisson &amp; frites</target>'
+      );
+      expect(output).toContain('<target>Cliquez <g id="1">ici</g></target>');
+      expect(output).not.toContain('old');
+      expect(output).toContain(
+        '<trans-unit id="3" translate="no">\n        <source>Brand</source>\n      </trans-unit>'
+      );
+    });
+
+    it('escapes the target language written into attributes', () => {
+      const v2 =
+        '<xliff version="2.0" srcLang="en" trgLang=\'de\'><unit id="a"><segment><source>Hi</source></segment></unit></xliff>';
+      const parsed = xliffFormat.parse(v2, { sourceLanguage: 'en', targetLanguage: `x'$&"` });
+      const output = parsed.serialize(['Hallo']);
+
+      expect(output).toContain(`trgLang='x&#39;$&amp;"'`);
+      expect(output).toContain('<source>Hi</source><target>Hallo</target>');
+    });
+
+    it('rejects documents without an xliff version', () => {
+      expect(() => xliffFormat.parse('<xml/>', languages)).toThrow(FileFormatError);
+    });
+  });
+
+  describe('subtitles', () => {
+    const srt =
+      '1\r\n00:00:01,000 --> 00:00:02,000\r\nHello\r\nworld\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n<i>Bye</i>\r\n';
+
+    it('round-trips SRT cues, keeping numbering, timings and CRLF line endings', () => {
+      const parsed = srtFormat.parse(srt, languages);
+
+      // The final newline stays with the last cue; file translation keeps surrounding whitespace as is
+      expect(parsed.units).toEqual([
+        { text: 'Hello\nworld', format: 'text' },
+        { text: '<i>Bye</i>\n', format: 'html' }
+      ]);
+      expect(parsed.serialize(parsed.units.map((unit) => unit.text))).toBe(srt);
+      expect(parsed.serialize(['Bonjour\nle monde', '<i>Au revoir</i>\n'])).toBe(
+        '1\r\n00:00:01,000 --> 00:00:02,000\r\nBonjour\r\nle monde\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n<i>Au revoir</i>\r\n'
+      );
+    });
+
+    it('copies WebVTT headers and NOTE blocks unchanged', () => {
+      const vtt = 'WEBVTT\n\nNOTE written by hand\n\ncue-1\n00:01.000 --> 00:02.000 align:start\nHello\n';
+      const parsed = vttFormat.parse(vtt, languages);
+
+      expect(parsed.units).toEqual([{ text: 'Hello\n', format: 'text' }]);
+      expect(parsed.serialize(['Bonjour\n'])).toBe(
+        'WEBVTT\n\nNOTE written by hand\n\ncue-1\n00:01.000 --> 00:02.000 align:start\nBonjour\n'
+      );
+    });
+
+    it('rejects files without cues or a WebVTT header', () => {
+      expect(() => srtFormat.parse('just text', languages)).toThrow('No cues found in SRT file');
+      expect(() => vttFormat.parse('1\n00:01.000 --> 00:02.000\nHi\n', languages)).toThrow(FileFormatError);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+export type FileFormatName = 'json' | 'po' | 'xliff' | 'srt' | 'vtt';
+
+export interface TranslatableUnit {
+  text: string;
+  /** Units containing inline markup are translated in HTML mode */
+  format: 'text' | 'html';
+}
+
+export interface ParsedFile {
+  units: TranslatableUnit[];
+  /**
+   * Rebuild the file from translations given in unit order
+   */
+  serialize(translations: string[]): string;
+}
+
+export interface FileFormatHandler {
+  readonly name: FileFormatName;
+  readonly extensions: string[];
+  readonly contentType: string;
+  parse(content: string, options: { sourceLanguage: string; targetLanguage: string }): ParsedFile;
+}
+
+/**
+ * Error for input that cannot be parsed as the requested format
+ */
+export class FileFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileFormatError';
+  }
+}
@@ -0,0 +1,218 @@
+import { protectPatterns } from '../placeholders';
+import { FileFormatError, type FileFormatHandler, type ParsedFile, type TranslatableUnit } from './fileFormat';
+
+interface PoEntry {
+  /** Comment, msgctxt, msgid and msgid_plural lines, copied verbatim */
+  keptLines: string[];
+  msgid: string;
+  msgidPlural?: string;
+  /** msgstr values keyed by plural index (0 for singular entries) */
+  msgstr: Map<number, string>;
+  plural: boolean;
+  obsolete: boolean;
+}
+
+// printf (%s, %1$d, %(name)s) and brace ({0}, {name}) placeholders
+const FORMAT_SPECIFIERS = /%(?:\d+\$)?(?:\([^)]*\))?[-+ 0#]*\d*(?:\.\d+)?[a-zA-Z%]|\{[^{}\s]*\}/g;
+
+// Plural-Forms headers for common target languages (from the gettext manual)
+const PLURAL_FORMS: Record<string, string> = {
+  ja: 'nplurals=1; plural=0;',
+  ko: 'nplurals=1; plural=0;',
+  zh: 'nplurals=1; plural=0;',
+  vi: 'nplurals=1; plural=0;',
+  th: 'nplurals=1; plural=0;',
+  id: 'nplurals=1; plural=0;',
+  en: 'nplurals=2; plural=(n != 1);',
+  de: 'nplurals=2; plural=(n != 1);',
+  nl: 'nplurals=2; plural=(n != 1);',
+  es: 'nplurals=2; plural=(n != 1);',
+  it: 'nplurals=2; plural=(n != 1);',
+  pt: 'nplurals=2; plural=(n != 1);',
+  sv: 'nplurals=2; plural=(n != 1);',
+  da: 'nplurals=2; plural=(n != 1);',
+  fi: 'nplurals=2; plural=(n != 1);',
+  el: 'nplurals=2; plural=(n != 1);',
+  tr: 'nplurals=2; plural=(n != 1);',
+  fr: 'nplurals=2; plural=(n > 1);',
+  ru: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  uk: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  cs: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+  sk: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+  ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);'
+};
+
+function unescapePo(value: string): string {
+  return value.replace(/\\(["\\ntr])/g, (_match, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      default:
+        return char;
+    }
+  });
+}
+
+function escapePo(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Format a keyword + string the way msgmerge does: multi-line values start with ""
+ */
+function formatField(keyword: string, value: string): string[] {
+  const lines = value.split(/(?<=\n)/);
+  if (lines.length <= 1) {
+    return [`${keyword} "${escapePo(value)}"`];
+  }
+  return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)];
+}
+
+function parseEntries(content: string): PoEntry[] {
+  const blocks = content.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+
+  return blocks
+    .filter((block) => block.trim().length > 0)
+    .map((block) => {
+      const entry: PoEntry = { keptLines: [], msgid: '', msgstr: new Map(), plural: false, obsolete: false };
+      let current: { field: 'msgid' | 'msgid_plural' | 'msgctxt' | 'msgstr'; index: number } | null = null;
+
+      for (const line of block.split('\n')) {
+        const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"\s*$/);
+        const continuation = line.match(/^"(.*)"\s*$/);
+
+        if (keyword) {
+          const field = keyword[1].startsWith('msgstr')
+            ? 'msgstr'
+            : (keyword[1] as 'msgid' | 'msgid_plural' | 'msgctxt');
+          current = { field, index: keyword[2] ? parseInt(keyword[2], 10) : 0 };
+          if (keyword[2]) entry.plural = true;
+          appendValue(entry, current, unescapePo(keyword[3]));
+          if (field !== 'msgstr') entry.keptLines.push(line);
+        } else if (continuation && current) {
+          appendValue(entry, current, unescapePo(continuation[1]));
+          if (current.field !== 'msgstr') entry.keptLines.push(line);
+        } else {
+          // Comments (including obsolete "#~" entries) and anything unknown
+          if (line.startsWith('#~')) entry.obsolete = true;
+          entry.keptLines.push(line);
+          current = null;
+        }
+      }
+
+      if (
+        !entry.keptLines.some((line) => line.startsWith('msgid') || line.startsWith('#~')) &&
+        entry.msgstr.size === 0
+      ) {
+        // Comment-only block
+        entry.obsolete = true;
+      }
+
+      return entry;
+    });
+}
+
+function appendValue(entry: PoEntry, current: { field: string; index: number }, value: string): void {
+  if (current.field === 'msgid') entry.msgid += value;
+  else if (current.field === 'msgid_plural') entry.msgidPlural = (entry.msgidPlural || '') + value;
+  else if (current.field === 'msgstr') entry.msgstr.set(current.index, (entry.msgstr.get(current.index) || '') + value);
+}
+
+export const gettextFormat: FileFormatHandler = {
+  name: 'po',
+  extensions: ['.po', '.pot'],
+  contentType: 'text/x-gettext-translation; charset=utf-8',
+
+  parse(content: string, options: { targetLanguage: string }): ParsedFile {
+    const entries = parseEntries(content);
+    if (!entries.some((entry) => entry.keptLines.some((line) => line.startsWith('msgid')))) {
+      throw new FileFormatError('No msgid entries found in PO file');
+    }
+
+    const baseLanguage = options.targetLanguage.split(/[-_]/)[0].toLowerCase();
+    const pluralForms = PLURAL_FORMS[baseLanguage];
+    const nplurals = pluralForms ? parseInt(pluralForms.match(/nplurals=(\d+)/)?.[1] || '2', 10) : undefined;
+
+    const units: TranslatableUnit[] = [];
+    const plans = entries.map((entry) => {
+      const isHeader = entry.msgid === '' && !entry.obsolete;
+      const untranslated = Array.from(entry.msgstr.values()).every((value) => value === '');
+
+      if (isHeader || entry.obsolete || !untranslated) {
+        return { entry, isHeader, singular: -1, plural: -1, restore: [] as ((text: string) => string)[] };
+      }
+
+      const singular = protectPatterns(entry.msgid, FORMAT_SPECIFIERS);
+      const singularIndex = units.push({ text: singular.text, format: 'text' }) - 1;
+      let pluralIndex = -1;
+      let pluralRestore = (text: string) => text;
+
+      if (entry.plural && entry.msgidPlural !== undefined) {
+        const plural = protectPatterns(entry.msgidPlural, FORMAT_SPECIFIERS);
+        pluralIndex = units.push({ text: plural.text, format: 'text' }) - 1;
+        pluralRestore = plural.restore;
+      }
+
+      return {
+        entry,
+        isHeader,
+        singular: singularIndex,
+        plural: pluralIndex,
+        restore: [singular.restore, pluralRestore]
+      };
+    });
+
+    return {
+      units,
+      serialize(translations: string[]): string {
+        const blocks = plans.map(({ entry, isHeader, singular, plural, restore }) => {
+          const msgstr = new Map(entry.msgstr);
+
+          if (isHeader) {
+            let header = msgstr.get(0) || '';
+            header = /^Language:/m.test(header)
+              ? header.replace(/^Language:.*$/m, `Language: ${options.targetLanguage}`)
+              : `${header}Language: ${options.targetLanguage}\n`;
+            if (pluralForms) {
+              header = /^Plural-Forms:/m.test(header)
+                ? header.replace(/^Plural-Forms:.*$/m, `Plural-Forms: ${pluralForms}`)
+                : `${header}Plural-Forms: ${pluralForms}\n`;
+            }
+            msgstr.set(0, header);
+          } else if (singular >= 0) {
+            const singularText = restore[0](translations[singular] ?? units[singular].text);
+
+            if (entry.plural) {
+              const pluralText = plural >= 0 ? restore[1](translations[plural] ?? units[plural].text) : singularText;
+              const count = nplurals ?? Math.max(2, msgstr.size);
+              msgstr.clear();
+              for (let i = 0; i < count; i++) {
+                msgstr.set(i, i === 0 && count > 1 ? singularText : pluralText);
+              }
+            } else {
+              msgstr.set(0, singularText);
+            }
+          }
+
+          const msgstrLines = Array.from(msgstr.entries())
+            .sort(([a], [b]) => a - b)
+            .flatMap(([index, value]) => formatField(entry.plural ? `msgstr[${index}]` : 'msgstr', value));
+
+          return [...entry.keptLines, ...msgstrLines].join('\n');
+        });
+
+        return `${blocks.join('\n\n')}\n`;
+      }
+    };
+  }
+};
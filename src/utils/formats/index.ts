@@ -0,0 +1,26 @@
+import type { FileFormatHandler, FileFormatName } from './fileFormat';
+import { gettextFormat } from './gettext';
+import { jsonI18nFormat } from './jsonI18n';
+import { srtFormat, vttFormat } from './subtitles';
+import { xliffFormat } from './xliff';
+
+export * from './fileFormat';
+
+const FORMATS: FileFormatHandler[] = [jsonI18nFormat, gettextFormat, xliffFormat, srtFormat, vttFormat];
+
+export function getFileFormat(name: string): FileFormatHandler | undefined {
+  return FORMATS.find((format) => format.name === name.toLowerCase());
+}
+
+/**
+ * Pick a format from an explicit name or, failing that, a file name extension
+ */
+export function resolveFileFormat(format?: string, filename?: string): FileFormatHandler | undefined {
+  if (format) {
+    return getFileFormat(format);
+  }
+  const extension = filename?.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  return extension ? FORMATS.find((handler) => handler.extensions.includes(extension)) : undefined;
+}
+
+export const SUPPORTED_FILE_FORMATS: FileFormatName[] = FORMATS.map((format) => format.name);
@@ -0,0 +1,185 @@
+import { protectPatterns } from '../placeholders';
+import { FileFormatError, type FileFormatHandler, type ParsedFile, type TranslatableUnit } from './fileFormat';
+
+type IcuNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; raw: string }
+  | { type: 'choice'; head: string; branches: { selector: string; message: IcuNode[] }[]; tail: string };
+
+const CHOICE_TYPES = new Set(['plural', 'select', 'selectordinal']);
+
+/**
+ * Index of the brace closing the one opened at `start`
+ */
+function findClosingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    if (message[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse the subset of ICU MessageFormat that matters for translation:
+ * simple arguments ({name}, {n, number}) and plural/select branches
+ */
+function parseIcu(message: string): IcuNode[] {
+  const nodes: IcuNode[] = [];
+  let text = '';
+  let i = 0;
+
+  while (i < message.length) {
+    if (message[i] !== '{') {
+      text += message[i++];
+      continue;
+    }
+
+    const end = findClosingBrace(message, i);
+    if (end === -1) {
+      // Unbalanced brace: treat the rest as plain text
+      text += message.slice(i);
+      break;
+    }
+
+    if (text) {
+      nodes.push({ type: 'text', value: text });
+      text = '';
+    }
+
+    const inner = message.slice(i + 1, end);
+    const [, type] = inner.split(',').map((part) => part.trim());
+
+    if (type && CHOICE_TYPES.has(type)) {
+      const secondComma = inner.indexOf(',', inner.indexOf(',') + 1);
+      const head = `{${inner.slice(0, secondComma + 1)}`;
+      const body = inner.slice(secondComma + 1);
+      const branches: { selector: string; message: IcuNode[] }[] = [];
+      let cursor = 0;
+      let tail = '';
+
+      for (;;) {
+        const open = body.indexOf('{', cursor);
+        if (open === -1) {
+          tail = body.slice(cursor);
+          break;
+        }
+        const close = findClosingBrace(body, open);
+        if (close === -1) {
+          throw new FileFormatError(`Unbalanced ICU message: ${message}`);
+        }
+        // selector keeps its surrounding whitespace (e.g. " one ", " =0 ", " offset:1 other ")
+        branches.push({ selector: body.slice(cursor, open), message: parseIcu(body.slice(open + 1, close)) });
+        cursor = close + 1;
+      }
+
+      nodes.push({ type: 'choice', head, branches, tail: `${tail}}` });
+    } else {
+      nodes.push({ type: 'argument', raw: message.slice(i, end + 1) });
+    }
+
+    i = end + 1;
+  }
+
+  if (text) nodes.push({ type: 'text', value: text });
+  return nodes;
+}
+
+/**
+ * Turn an ICU message into translation units and a rebuild function.
+ * Plain runs keep their simple arguments inline (as placeholders); each plural
+ * or select branch becomes its own unit with `#` protected.
+ */
+function extractMessage(
+  nodes: IcuNode[],
+  inPlural: boolean,
+  units: TranslatableUnit[]
+): (translations: string[]) => string {
+  const builders: ((translations: string[]) => string)[] = [];
+  let run: IcuNode[] = [];
+
+  const flushRun = () => {
+    if (run.length === 0) return;
+    const source = run
+      .map((node) => (node.type === 'text' ? node.value : node.type === 'argument' ? node.raw : ''))
+      .join('');
+    run = [];
+
+    if (source.trim().length === 0) {
+      builders.push(() => source);
+      return;
+    }
+
+    const pattern = inPlural ? /\{[^{}]*\}|#/g : /\{[^{}]*\}/g;
+    const placeholders = protectPatterns(source, pattern);
+    const index = units.push({ text: placeholders.text, format: 'text' }) - 1;
+    builders.push((translations) => placeholders.restore(translations[index] ?? placeholders.text));
+  };
+
+  for (const node of nodes) {
+    if (node.type !== 'choice') {
+      run.push(node);
+      continue;
+    }
+
+    flushRun();
+    const isPlural = /,\s*(plural|selectordinal)\s*,/.test(node.head);
+    const branchBuilders = node.branches.map((branch) => ({
+      selector: branch.selector,
+      build: extractMessage(branch.message, isPlural || inPlural, units)
+    }));
+
+    builders.push((translations) => {
+      const branches = branchBuilders.map((branch) => `${branch.selector}{${branch.build(translations)}}`);
+      return node.head + branches.join('') + node.tail;
+    });
+  }
+  flushRun();
+
+  return (translations) => builders.map((build) => build(translations)).join('');
+}
+
+export const jsonI18nFormat: FileFormatHandler = {
+  name: 'json',
+  extensions: ['.json'],
+  contentType: 'application/json',
+
+  parse(content: string): ParsedFile {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new FileFormatError('Invalid JSON document');
+    }
+
+    const units: TranslatableUnit[] = [];
+
+    // Walk the bundle; every string leaf is an ICU message, everything else is copied
+    const walk = (value: unknown): ((translations: string[]) => unknown) => {
+      if (typeof value === 'string') {
+        return extractMessage(parseIcu(value), false, units);
+      }
+      if (Array.isArray(value)) {
+        const items = value.map(walk);
+        return (translations) => items.map((build) => build(translations));
+      }
+      if (value && typeof value === 'object') {
+        const entries = Object.entries(value).map(([key, child]) => [key, walk(child)] as const);
+        return (translations) => Object.fromEntries(entries.map(([key, build]) => [key, build(translations)]));
+      }
+      return () => value;
+    };
+
+    const build = walk(data);
+    // Single-line input stays single-line
+    const indent = /^\s*[{[]\s*\n/.test(content) ? content.match(/^\s*[{[]\s*\n([ \t]+)/)?.[1] || '  ' : undefined;
+
+    return {
+      units,
+      serialize(translations: string[]): string {
+        const output = JSON.stringify(build(translations), null, indent);
+        return content.endsWith('\n') ? `${output}\n` : output;
+      }
+    };
+  }
+};
@@ -0,0 +1,66 @@
+import {
+  FileFormatError,
+  type FileFormatHandler,
+  type FileFormatName,
+  type ParsedFile,
+  type TranslatableUnit
+} from './fileFormat';
+
+const TIMING_PATTERN = /-->/;
+
+/**
+ * SRT and WebVTT share a block layout: optional cue id, a timing line, then text.
+ * Only cue text is translated; numbering, timestamps, settings and NOTE/STYLE
+ * blocks are copied unchanged.
+ */
+function createSubtitleFormat(name: FileFormatName, extensions: string[], contentType: string): FileFormatHandler {
+  return {
+    name,
+    extensions,
+    contentType,
+
+    parse(content: string): ParsedFile {
+      const newline = content.includes('\r\n') ? '\r\n' : '\n';
+      const blocks = content.replace(/\r\n/g, '\n').split(/(\n{2,})/);
+
+      if (name === 'vtt' && !/^﻿?WEBVTT/.test(content)) {
+        throw new FileFormatError('Not a WebVTT file (missing WEBVTT header)');
+      }
+      if (!blocks.some((block) => TIMING_PATTERN.test(block))) {
+        throw new FileFormatError(`No cues found in ${name.toUpperCase()} file`);
+      }
+
+      const units: TranslatableUnit[] = [];
+      const cues = blocks.map((block, index) => {
+        // Odd indexes are the blank-line separators captured by split
+        if (index % 2 === 1) return { block, head: '', unit: -1 };
+
+        const lines = block.split('\n');
+        const timing = lines.findIndex((line) => TIMING_PATTERN.test(line));
+        const isNote = /^(NOTE|STYLE|REGION)\b/.test(lines[0]);
+        const text = timing >= 0 ? lines.slice(timing + 1).join('\n') : '';
+
+        if (isNote || timing === -1 || text.trim().length === 0) {
+          return { block, head: '', unit: -1 };
+        }
+
+        const unit = units.push({ text, format: /<[a-z]/i.test(text) ? 'html' : 'text' }) - 1;
+        return { block, head: lines.slice(0, timing + 1).join('\n'), unit };
+      });
+
+      return {
+        units,
+        serialize(translations: string[]): string {
+          return cues
+            .map(({ block, head, unit }) => (unit >= 0 ? `${head}\n${translations[unit] ?? units[unit].text}` : block))
+            .join('')
+            .replace(/\n/g, newline);
+        }
+      };
+    }
+  };
+}
+
+export const srtFormat = createSubtitleFormat('srt', ['.srt'], 'application/x-subrip; charset=utf-8');
+
+export const vttFormat = createSubtitleFormat('vtt', ['.vtt'], 'text/vtt; charset=utf-8');
@@ -0,0 +1,105 @@
+import { decodeEntities, encodeAttribute, encodeText } from '../markup';
+import { FileFormatError, type FileFormatHandler, type ParsedFile, type TranslatableUnit } from './fileFormat';
+
+interface SourcePair {
+  /** Offsets of the whole <source>...</source>[ws]<target>...</target> span in the document */
+  start: number;
+  end: number;
+  sourceOpen: string;
+  sourceInner: string;
+  whitespace: string;
+  targetOpen?: string;
+  unit: number;
+}
+
+const UNIT_PATTERN = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+const PAIR_PATTERN =
+  /(<source\b[^>]*>)([\s\S]*?)<\/source>(\s*)(?:(<target\b[^>]*>)[\s\S]*?<\/target>|<target\b[^>]*\/>)?/g;
+
+/**
+ * XLIFF 1.2 (<trans-unit>) and 2.0 (<unit>/<segment>). Sources are translated into
+ * new or existing <target> elements; inline codes (<g>, <x/>, <ph>, <pc>) stay intact.
+ */
+export const xliffFormat: FileFormatHandler = {
+  name: 'xliff',
+  extensions: ['.xlf', '.xliff'],
+  contentType: 'application/xliff+xml; charset=utf-8',
+
+  parse(content: string, options: { targetLanguage: string }): ParsedFile {
+    const version = content.match(/<xliff\b[^>]*\bversion\s*=\s*["']([\d.]+)["']/)?.[1];
+    if (!version) {
+      throw new FileFormatError('Not an XLIFF document (missing <xliff version="...">)');
+    }
+    const isV2 = version.startsWith('2');
+
+    const units: TranslatableUnit[] = [];
+    const pairs: SourcePair[] = [];
+
+    for (const unitMatch of content.matchAll(UNIT_PATTERN)) {
+      // translate="no" units are copied untouched
+      if (/\btranslate\s*=\s*["']no["']/.test(unitMatch[2])) continue;
+
+      const bodyOffset = (unitMatch.index ?? 0) + unitMatch[0].indexOf('>') + 1;
+
+      for (const pair of unitMatch[3].matchAll(PAIR_PATTERN)) {
+        const sourceInner = pair[2];
+        if (sourceInner.trim().length === 0) continue;
+
+        const hasInlineCodes = /<[a-z]/i.test(sourceInner);
+        const unit =
+          units.push({
+            text: hasInlineCodes ? sourceInner : decodeEntities(sourceInner),
+            format: hasInlineCodes ? 'html' : 'text'
+          }) - 1;
+
+        pairs.push({
+          start: bodyOffset + (pair.index ?? 0),
+          end: bodyOffset + (pair.index ?? 0) + pair[0].length,
+          sourceOpen: pair[1],
+          sourceInner,
+          whitespace: pair[3],
+          targetOpen: pair[4],
+          unit
+        });
+      }
+    }
+
+    return {
+      units,
+      serialize(translations: string[]): string {
+        let output = '';
+        let cursor = 0;
+
+        for (const pair of pairs) {
+          const unit = units[pair.unit];
+          const translated = translations[pair.unit] ?? unit.text;
+          const targetInner = unit.format === 'html' ? translated : encodeText(translated);
+          const targetOpen = pair.targetOpen || (isV2 ? '<target>' : '<target state="translated">');
+          output += content.slice(cursor, pair.start);
+          output += `${pair.sourceOpen}${pair.sourceInner}</source>${pair.whitespace}${targetOpen}${targetInner}</target>`;
+          cursor = pair.end;
+        }
+        output += content.slice(cursor);
+
+        // Record the target language on the document; replacer functions keep "$" in the value literal
+        const language = (quote: string) => encodeAttribute(options.targetLanguage, quote);
+        if (isV2) {
+          return /<xliff\b[^>]*\btrgLang=/.test(output)
+            ? output.replace(
+                /(<xliff\b[^>]*\btrgLang=)(["'])[^"']*\2/,
+                (_match, prefix: string, quote: string) => `${prefix}${quote}${language(quote)}${quote}`
+              )
+            : output.replace(/<xliff\b/, () => `<xliff trgLang="${language('"')}"`);
+        }
+        return output.replace(/<file\b[^>]*>/g, (fileTag) =>
+          /\btarget-language=/.test(fileTag)
+            ? fileTag.replace(
+                /(target-language=)(["'])[^"']*\2/,
+                (_match, prefix: string, quote: string) => `${prefix}${quote}${language(quote)}${quote}`
+              )
+            : fileTag.replace(/^<file\b/, () => `<file target-language="${language('"')}"`)
+        );
+      }
+    };
+  }
+};
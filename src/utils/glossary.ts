@@ -0,0 +1,72 @@
+export interface GlossaryEntries {
+  /** Terms copied to the output exactly as they appear in the input */
+  doNotTranslate: string[];
+  /** Forced source -> target replacements */
+  terms: { source: string; target: string }[];
+  caseSensitive?: boolean;
+}
+
+export interface ProtectedText {
+  text: string;
+  /** Substitute placeholders in the translated text back with their final terms */
+  restore(translated: string): string;
+}
+
+// Placeholder tokens survive machine translation well; the restore pattern tolerates inserted spaces
+const placeholder = (index: number) => `__G${index}__`;
+const PLACEHOLDER_PATTERN = /_\s?_\s?G\s?(\d+)\s?_\s?_/gi;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace glossary terms with placeholders before the provider call.
+ * Longer terms win over shorter overlapping ones; matches respect word boundaries.
+ * With `markup`, tags are left alone and only text between them is matched.
+ */
+export function protectGlossaryTerms(text: string, entries: GlossaryEntries, markup = false): ProtectedText {
+  const rules = [
+    ...entries.doNotTranslate.map((term) => ({ term, target: null as string | null })),
+    ...entries.terms.map(({ source, target }) => ({ term: source, target: target as string | null }))
+  ]
+    .filter((rule) => rule.term.trim().length > 0)
+    .sort((a, b) => b.term.length - a.term.length);
+
+  if (rules.length === 0) {
+    return { text, restore: (translated) => translated };
+  }
+
+  const flags = entries.caseSensitive ? 'gu' : 'giu';
+  const pattern = new RegExp(
+    rules.map((rule) => `(?<![\\p{L}\\p{N}_])${escapeRegExp(rule.term)}(?![\\p{L}\\p{N}_])`).join('|'),
+    flags
+  );
+
+  const replacements: string[] = [];
+  const protectSpan = (span: string) =>
+    span.replace(pattern, (match) => {
+      const rule = rules.find((candidate) =>
+        entries.caseSensitive ? candidate.term === match : candidate.term.toLowerCase() === match.toLowerCase()
+      );
+      replacements.push(rule?.target ?? match);
+      return placeholder(replacements.length - 1);
+    });
+
+  const protectedText = markup
+    ? text
+        .split(/(<[^>]*>)/)
+        .map((span) => (span.startsWith('<') ? span : protectSpan(span)))
+        .join('')
+    : protectSpan(text);
+
+  return {
+    text: protectedText,
+    restore(translated: string): string {
+      return translated.replace(
+        PLACEHOLDER_PATTERN,
+        (token, index: string) => replacements[parseInt(index, 10)] ?? token
+      );
+    }
+  };
+}
@@ -1,27 +1,66 @@
-import crypto from 'crypto';
+import crypto from 'node:crypto';
+import { ActivationKeyError, AuthenticationError } from './errors';
+
+/**
+ * Optional claims carried by v2 activation keys
+ */
+export interface KeyClaims {
+  /** Number of devices the key may be used on */
+  seats?: number;
+  /** Feature flags enabled for the key */
+  features?: string[];
+}
 
 export interface ActivationPayload {
   identifier: string;
   expiry: string;
   plan: string;
   nonce: string;
+  /** Key format version */
+  version: 1 | 2;
+  /** Id of the secret that signed a v2 key */
+  kid?: string;
+  /** When a v2 key was minted */
+  issuedAt?: string;
+  claims?: KeyClaims;
 }
 
-export interface VerificationResult {
-  valid: boolean;
-  payload?: ActivationPayload;
-  reason?: string;
+/**
+ * Secrets used to verify activation keys. v2 keys name their secret by key id,
+ * so secrets can be rotated by adding a new id and retiring the old one later.
+ */
+export interface ActivationKeyring {
+  /** v2 secrets by key id */
+  secrets: Record<string, string>;
+  /** Key id new keys are signed with (defaults to the first) */
+  currentKid?: string;
+  /** Secret for v1 keys; without one v1 keys are refused */
+  legacySecret?: string;
+  /** End of the v1 migration window; v1 keys are refused afterwards */
+  legacyUntil?: Date;
+}
+
+export interface TokenClaims {
+  typ: 'access' | 'refresh';
+  /** Identifier the token was issued to */
+  sub: string;
+  plan: string;
+  /** Nonce of the activation key the session was opened with */
+  nonce: string;
+  /** Device the token was issued to */
+  did: string;
+  /** Unique token id */
+  jti: string;
+  /** Issued-at and expiry, in seconds since the epoch */
+  iat: number;
+  exp: number;
 }
 
 /**
  * Base64URL encode function
  */
 function base64UrlEncode(str: string): string {
-  return Buffer.from(str)
-    .toString('base64')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
+  return Buffer.from(str).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
 }
 
 /**
@@ -42,7 +81,90 @@ function generateSignature(payload: string, secret: string): string {
 }
 
 /**
- * Create an activation key with HMAC signature
+ * Constant-time string comparison
+ */
+function safeEqual(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(new Uint8Array(a), new Uint8Array(b));
+}
+
+/**
+ * Derive a separate key for one purpose from a master secret (HKDF-SHA256), so
+ * signatures made for that purpose can never pass as activation key signatures
+ */
+export function deriveKey(secret: string, purpose: string): string {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, '', purpose, 32)).toString('hex');
+}
+
+/**
+ * Sign an outgoing webhook body. The timestamp is part of the signed string so
+ * receivers can reject replays: HMAC-SHA256(`${timestamp}.${body}`, secret)
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return `sha256=${generateSignature(`${timestamp}.${body}`, secret)}`;
+}
+
+/**
+ * Sign session token claims: base64url(JSON claims) + "." + HMAC-SHA256 hex
+ */
+export function signToken(claims: TokenClaims, secret: string): string {
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  return `${payload}.${generateSignature(payload, secret)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry and return its claims
+ * @throws AuthenticationError (TOKEN_INVALID, TOKEN_EXPIRED)
+ */
+export function verifyToken(token: string, secret: string): TokenClaims {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new AuthenticationError('TOKEN_INVALID', 'Malformed token');
+  }
+
+  if (!safeEqual(signature, generateSignature(payload, secret))) {
+    throw new AuthenticationError('TOKEN_INVALID', 'Invalid token signature');
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(base64UrlDecode(payload)) as TokenClaims;
+  } catch {
+    throw new AuthenticationError('TOKEN_INVALID', 'Malformed token');
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    throw new AuthenticationError('TOKEN_EXPIRED', 'Token has expired');
+  }
+
+  return claims;
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Parse "name:secret,name:secret" lists (ACT_KEY_SECRETS, ADMIN_API_KEYS)
+ */
+export function parseKeySecrets(value: string | undefined): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf(':');
+    const kid = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (separator < 0 || !KEY_ID_PATTERN.test(kid) || !secret) {
+      throw new Error(`Invalid secret entry "${entry.trim().split(':')[0]}". Use "name:secret"`);
+    }
+    secrets[kid] = secret;
+  }
+  return secrets;
+}
+
+/**
+ * Create a v1 activation key with HMAC signature
+ * @deprecated Use createActivationKeyV2; v1 keys are only accepted during the migration window
  */
 export function createActivationKey(
   identifier: string,
@@ -58,54 +180,118 @@ export function createActivationKey(
 }
 
 /**
- * Verify activation key and extract payload
+ * Create a v2 activation key: "v2.<kid>.<base64url(JSON payload)>.<signature>", signed
+ * with HMAC-SHA256 over everything before the last dot
  */
-export function verifyActivationKey(key: string, secret: string): VerificationResult {
+export function createActivationKeyV2(
+  payload: { identifier: string; expiry: string; plan: string; nonce: string; issuedAt?: string; claims?: KeyClaims },
+  kid: string,
+  secret: string
+): string {
+  if (!KEY_ID_PATTERN.test(kid)) {
+    throw new Error(`Invalid key id "${kid}"`);
+  }
+
+  const body = base64UrlEncode(
+    JSON.stringify({
+      identifier: payload.identifier,
+      expiry: payload.expiry,
+      plan: payload.plan,
+      nonce: payload.nonce,
+      issuedAt: payload.issuedAt || new Date().toISOString(),
+      ...(payload.claims ? { claims: payload.claims } : {})
+    })
+  );
+  const signed = `v2.${kid}.${body}`;
+  return `${signed}.${generateSignature(signed, secret)}`;
+}
+
+/**
+ * Verify an activation key of either version and extract its payload. A plain
+ * secret is treated as the v1 secret.
+ * @throws ActivationKeyError when the key is malformed, forged, unknown, rejected or expired
+ */
+export function verifyActivationKey(key: string, secrets: ActivationKeyring | string): ActivationPayload {
+  const keyring: ActivationKeyring = typeof secrets === 'string' ? { secrets: {}, legacySecret: secrets } : secrets;
+
+  const payload = key.startsWith('v2.') ? verifyV2Key(key, keyring) : verifyV1Key(key, keyring);
+
+  // Validate expiry
+  const expiryDate = new Date(payload.expiry);
+  if (Number.isNaN(expiryDate.getTime())) {
+    throw new ActivationKeyError('KEY_MALFORMED', 'Invalid expiry date format');
+  }
+
+  if (expiryDate <= new Date()) {
+    throw new ActivationKeyError('KEY_EXPIRED', 'Key has expired');
+  }
+
+  return payload;
+}
+
+function verifyV2Key(key: string, keyring: ActivationKeyring): ActivationPayload {
+  const parts = key.split('.');
+  if (parts.length !== 4) {
+    throw new ActivationKeyError('KEY_MALFORMED', 'Invalid payload format');
+  }
+
+  const [, kid, body, signature] = parts;
+  const secret = Object.hasOwn(keyring.secrets, kid) ? keyring.secrets[kid] : undefined;
+  if (!secret) {
+    throw new ActivationKeyError('KEY_UNKNOWN_KID', 'Unknown key id');
+  }
+
+  if (!safeEqual(signature, generateSignature(`v2.${kid}.${body}`, secret))) {
+    throw new ActivationKeyError('KEY_INVALID_SIGNATURE', 'Invalid signature');
+  }
+
+  let decoded: Partial<Omit<ActivationPayload, 'version' | 'kid'>>;
   try {
-    const decoded = base64UrlDecode(key);
-    const parts = decoded.split('|');
-    console.log('Decoded key parts:', parts);
+    decoded = JSON.parse(base64UrlDecode(body));
+  } catch {
+    throw new ActivationKeyError('KEY_MALFORMED', 'Key decoding failed');
+  }
 
-    if (parts.length !== 4) {
-      return { valid: false, reason: 'Invalid payload format' };
-    }
+  const { identifier, expiry, plan, nonce, issuedAt, claims } = decoded;
+  if (
+    typeof identifier !== 'string' ||
+    typeof expiry !== 'string' ||
+    typeof plan !== 'string' ||
+    typeof nonce !== 'string'
+  ) {
+    throw new ActivationKeyError('KEY_MALFORMED', 'Invalid payload format');
+  }
 
-    const [identifier, expiry, plan, nonceAndSig] = parts;
+  return { identifier, expiry, plan, nonce, version: 2, kid, issuedAt, claims };
+}
 
-    // Split nonce and signature
-    const lastParts = nonceAndSig.split('.');
-    if (lastParts.length !== 2) {
-      return { valid: false, reason: 'Invalid nonce/signature format' };
-    }
+function verifyV1Key(key: string, keyring: ActivationKeyring): ActivationPayload {
+  if (!keyring.legacySecret || (keyring.legacyUntil && keyring.legacyUntil <= new Date())) {
+    throw new ActivationKeyError('KEY_VERSION_REJECTED', 'Legacy (v1) keys are no longer accepted');
+  }
 
-    const [nonce, signature] = lastParts;
-
-    // Recreate payload exactly like generator
-    const payload = `${identifier}|${expiry}|${plan}|${nonce}`;
-    console.log('Recreated payload for signature verification:', payload);
-    console.log('Secret used for signature verification:', secret);
-    const expectedSignature = generateSignature(payload, secret);
-console.log('Expected signature:', expectedSignature);
-console.log('Provided signature:', signature);
-    if (signature !== expectedSignature) {
-      return { valid: false, reason: 'Invalid signature' };
-    }
+  const decoded = base64UrlDecode(key);
+  const parts = decoded.split('|');
 
-    // Validate expiry
-    const expiryDate = new Date(expiry);
-    if (isNaN(expiryDate.getTime())) {
-      return { valid: false, reason: 'Invalid expiry date format' };
-    }
+  if (parts.length !== 4) {
+    throw new ActivationKeyError('KEY_MALFORMED', 'Invalid payload format');
+  }
 
-    if (expiryDate <= new Date()) {
-      return { valid: false, reason: 'Key has expired' };
-    }
+  const [identifier, expiry, plan, nonceAndSig] = parts;
 
-    return {
-      valid: true,
-      payload: { identifier, expiry, plan, nonce }
-    };
-  } catch (error) {
-    return { valid: false, reason: 'Key decoding failed' };
+  // Split nonce and signature
+  const lastParts = nonceAndSig.split('.');
+  if (lastParts.length !== 2) {
+    throw new ActivationKeyError('KEY_MALFORMED', 'Invalid nonce/signature format');
   }
+
+  const [nonce, signature] = lastParts;
+
+  // Recreate payload exactly like generator
+  const payload = `${identifier}|${expiry}|${plan}|${nonce}`;
+  if (!safeEqual(signature, generateSignature(payload, keyring.legacySecret))) {
+    throw new ActivationKeyError('KEY_INVALID_SIGNATURE', 'Invalid signature');
+  }
+
+  return { identifier, expiry, plan, nonce, version: 1 };
 }
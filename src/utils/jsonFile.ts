@@ -0,0 +1,77 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { KeyedMutex } from './concurrency';
+
+/**
+ * Reads and writes of the same file are serialized, so a read-modify-write in
+ * updateJsonFile() never interleaves with another. The lock is per process:
+ * JSON files must not be shared between instances.
+ */
+const fileLocks = new KeyedMutex();
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Read and parse a JSON file, returning the fallback when it does not exist yet.
+ * For loading state at startup, before any async writes can be pending.
+ */
+export function readJsonFileSync<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if (isMissing(error)) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+async function read<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fsp.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if (isMissing(error)) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write JSON atomically (temp file + rename) so a crash never leaves a truncated file
+ */
+async function write(filePath: string, data: unknown): Promise<void> {
+  await fsp.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fsp.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fsp.rename(tempPath, filePath);
+}
+
+/**
+ * Read and parse a JSON file once pending writes to it have finished
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  return fileLocks.run(path.resolve(filePath), () => read(filePath, fallback));
+}
+
+export function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  return fileLocks.run(path.resolve(filePath), () => write(filePath, data));
+}
+
+/**
+ * Read a JSON file, let `update` change the data in place, and write it back, with no
+ * other access to the file in between. Nothing is written when `update` returns false.
+ */
+export function updateJsonFile<T, R>(filePath: string, fallback: T, update: (data: T) => R): Promise<R> {
+  return fileLocks.run(path.resolve(filePath), async () => {
+    const data = await read(filePath, fallback);
+    const result = update(data);
+    if (result !== false) {
+      await write(filePath, data);
+    }
+    return result;
+  });
+}
@@ -0,0 +1,133 @@
+// utils/logger.ts
+import dotenv from 'dotenv';
+import pino, { type DestinationStream, type Logger, type LoggerOptions } from 'pino';
+import { getRequestContext } from './requestContext';
+
+// The process logger is created on import, before App loads .env
+dotenv.config({ quiet: true });
+
+/**
+ * Credentials that must never reach the logs: activation keys, tokens, admin
+ * keys and secrets, in request headers and bodies and in logged objects
+ */
+export const SECRET_REDACT_PATHS = [
+  'req.headers.authorization',
+  'req.headers["x-api-key"]',
+  'req.headers["x-admin-key"]',
+  'req.headers.cookie',
+  'res.headers["set-cookie"]',
+  'body.key',
+  'body.accessToken',
+  'body.refreshToken',
+  'key',
+  'accessToken',
+  'refreshToken',
+  'secret',
+  '*.secret',
+  '*.apiKey'
+];
+
+/**
+ * User text: source texts, translations, job results, glossaries and file content,
+ * at the top level and one level down (request and response bodies)
+ */
+export const TEXT_REDACT_PATHS = [
+  'text',
+  'translatedText',
+  '*.text',
+  '*.texts',
+  '*.content',
+  '*.translatedText',
+  '*.translations',
+  '*.results',
+  '*.terms',
+  '*.doNotTranslate',
+  'job.result',
+  'body.job.result',
+  'body.glossary',
+  'body.glossaries'
+];
+
+export interface LoggerConfig {
+  level?: string;
+  /** Human-readable output (pino-pretty) instead of JSON lines */
+  pretty?: boolean;
+  /** Also redact user text and translations (default true) */
+  redactText?: boolean;
+  /** Additional paths to redact */
+  redactPaths?: string[];
+}
+
+/**
+ * Logger configuration from LOG_LEVEL, LOG_PRETTY (default on in development),
+ * LOG_REDACT_TEXT and LOG_REDACT_PATHS (comma-separated)
+ */
+export function loggerConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerConfig {
+  return {
+    level: env.LOG_LEVEL || 'info',
+    pretty: env.LOG_PRETTY ? env.LOG_PRETTY === 'true' : env.NODE_ENV === 'development',
+    redactText: env.LOG_REDACT_TEXT !== 'false',
+    redactPaths: (env.LOG_REDACT_PATHS || '')
+      .split(',')
+      .map((path) => path.trim())
+      .filter(Boolean)
+  };
+}
+
+/**
+ * pino-pretty is a dev dependency, so production installs may not have it
+ */
+function isInstalled(moduleName: string): boolean {
+  try {
+    require.resolve(moduleName);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @param destination Where JSON lines go instead of stdout (not used with pretty output)
+ */
+export function createLogger(config: LoggerConfig = {}, destination?: DestinationStream): Logger {
+  const options: LoggerOptions = {
+    level: config.level || 'info',
+    redact: {
+      paths: [
+        ...SECRET_REDACT_PATHS,
+        ...(config.redactText === false ? [] : TEXT_REDACT_PATHS),
+        ...(config.redactPaths || [])
+      ],
+      censor: '[REDACTED]'
+    },
+    // Lines logged while handling a request carry its ids (req.log already binds requestId)
+    mixin(_object, _level, log) {
+      const context = getRequestContext();
+      if (!context) return {};
+      return 'requestId' in log.bindings()
+        ? { traceId: context.traceId }
+        : { requestId: context.requestId, traceId: context.traceId };
+    }
+  };
+
+  if (config.redactText !== false) {
+    // Raw text/plain bodies (documents, files) are strings, which paths cannot reach
+    options.serializers = { body: (body: unknown) => (typeof body === 'string' ? '[REDACTED]' : body) };
+  }
+
+  const pretty = config.pretty && isInstalled('pino-pretty');
+  if (pretty) {
+    options.transport = { target: 'pino-pretty', options: { colorize: true, translateTime: 'SYS:standard' } };
+  }
+
+  const log = destination && !pretty ? pino(options, destination) : pino(options);
+  if (config.pretty && !pretty) {
+    log.warn('LOG_PRETTY is set but pino-pretty is not installed; logging JSON lines');
+  }
+  return log;
+}
+
+/**
+ * Process-wide logger; request handlers should prefer req.log, which carries the requestId
+ */
+export const logger = createLogger(loggerConfigFromEnv());
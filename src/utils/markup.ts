@@ -0,0 +1,273 @@
+/**
+ * Lightweight HTML/XML tokenizer used to translate markup with plain-text providers.
+ * Not a validating parser: it only needs to find text nodes, tags and attributes
+ * reliably enough to reassemble the document byte-for-byte around them.
+ */
+
+export type MarkupToken =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; value: string; name: string; closing: boolean; selfClosing: boolean }
+  | { type: 'raw'; value: string };
+
+export interface MarkupOptions {
+  /** Attribute names whose values should be translated (e.g. alt, title) */
+  attributes?: string[];
+}
+
+export interface MarkupSegments {
+  /** Decoded text to send to the provider */
+  segments: string[];
+  /** Rebuild the document from translated segments (same order as `segments`) */
+  rebuild(translated: string[]): string;
+}
+
+// Elements whose content is never translated
+const PROTECTED_ELEMENTS = new Set(['code', 'pre', 'script', 'style', 'kbd', 'samp', 'var']);
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr'
+]);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/?[A-Za-z][^\s/>]*(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+const ATTRIBUTE_PATTERN = /([^\s=/>"']+)(\s*=\s*)("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Split markup into text, tag and raw (comment, CDATA, doctype, PI) tokens
+ */
+export function tokenizeMarkup(markup: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of markup.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ type: 'text', value: markup.slice(lastIndex, index) });
+    }
+
+    const value = match[0];
+    if (value.startsWith('<!') || value.startsWith('<?')) {
+      tokens.push({ type: 'raw', value });
+    } else {
+      const closing = value.startsWith('</');
+      const name = value
+        .slice(closing ? 2 : 1)
+        .split(/[\s/>]/)[0]
+        .toLowerCase();
+      tokens.push({ type: 'tag', value, name, closing, selfClosing: /\/\s*>$/.test(value) });
+    }
+
+    lastIndex = index + value.length;
+  }
+
+  if (lastIndex < markup.length) {
+    tokens.push({ type: 'text', value: markup.slice(lastIndex) });
+  }
+
+  return tokens;
+}
+
+/**
+ * Numeric entities outside Unicode (or naming a lone surrogate) are left as they are
+ */
+function decodeCodePoint(entity: string, codePoint: number): string {
+  const valid = codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+  return valid ? String.fromCodePoint(codePoint) : entity;
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return decodeCodePoint(entity, parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return decodeCodePoint(entity, parseInt(lower.slice(1), 10));
+    switch (lower) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      case 'nbsp':
+        return ' ';
+      default:
+        return entity;
+    }
+  });
+}
+
+export function encodeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function encodeAttribute(text: string, quote: string): string {
+  const encoded = encodeText(text);
+  return quote === '"' ? encoded.replace(/"/g, '&quot;') : encoded.replace(/'/g, '&#39;');
+}
+
+function isTranslateNo(tagValue: string): boolean {
+  return /\stranslate\s*=\s*["']?no["']?/i.test(tagValue) || /\sclass\s*=\s*["'][^"']*\bnotranslate\b/i.test(tagValue);
+}
+
+/**
+ * Whether this opening tag starts a region that must be left untouched
+ */
+function startsProtectedRegion(token: Extract<MarkupToken, { type: 'tag' }>): boolean {
+  if (token.closing || token.selfClosing || VOID_ELEMENTS.has(token.name)) return false;
+  return PROTECTED_ELEMENTS.has(token.name) || isTranslateNo(token.value);
+}
+
+/**
+ * Walk tokens, tracking protected regions (<code>, <pre>, translate="no", ...).
+ * `inRegion` is true for every token of such a region, `regionEnd` on its last token.
+ */
+function walkTokens(
+  tokens: MarkupToken[],
+  visit: (token: MarkupToken, inRegion: boolean, regionEnd: boolean) => void
+): void {
+  let regionName: string | null = null;
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (regionName === null) {
+      if (token.type === 'tag' && startsProtectedRegion(token)) {
+        regionName = token.name;
+        depth = 1;
+        visit(token, true, false);
+      } else {
+        visit(token, false, false);
+      }
+      continue;
+    }
+
+    if (token.type === 'tag' && token.name === regionName && !token.selfClosing) {
+      depth += token.closing ? -1 : 1;
+    }
+    if (depth === 0) {
+      regionName = null;
+    }
+    visit(token, true, regionName === null);
+  }
+}
+
+/**
+ * Extract translatable text nodes (and requested attribute values) from markup
+ */
+export function extractSegments(markup: string, options: MarkupOptions = {}): MarkupSegments {
+  const tokens = tokenizeMarkup(markup);
+  const attributes = new Set((options.attributes || []).map((name) => name.toLowerCase()));
+  const segments: string[] = [];
+  // Each part is either literal output or a reference to a segment
+  const parts: (string | { segment: number; leading: string; trailing: string; quote?: string })[] = [];
+
+  walkTokens(tokens, (token, inRegion) => {
+    if (token.type === 'text' && !inRegion) {
+      const match = token.value.match(/^(\s*)([\s\S]*?)(\s*)$/);
+      const core = match?.[2] || '';
+      if (core.length === 0) {
+        parts.push(token.value);
+        return;
+      }
+      segments.push(decodeEntities(core));
+      parts.push({ segment: segments.length - 1, leading: match?.[1] || '', trailing: match?.[3] || '' });
+      return;
+    }
+
+    // Void or self-closing tags can carry translate="no" without opening a region
+    if (token.type === 'tag' && !token.closing && !inRegion && !isTranslateNo(token.value) && attributes.size > 0) {
+      let cursor = 0;
+      for (const attr of token.value.matchAll(ATTRIBUTE_PATTERN)) {
+        const value = attr[4] ?? attr[5] ?? '';
+        if (!attributes.has(attr[1].toLowerCase()) || value.trim().length === 0) continue;
+
+        const valueStart = (attr.index ?? 0) + attr[1].length + attr[2].length + 1;
+        parts.push(token.value.slice(cursor, valueStart));
+        segments.push(decodeEntities(value));
+        parts.push({ segment: segments.length - 1, leading: '', trailing: '', quote: attr[3][0] });
+        cursor = valueStart + value.length;
+      }
+      parts.push(token.value.slice(cursor));
+      return;
+    }
+
+    parts.push(token.value);
+  });
+
+  return {
+    segments,
+    rebuild(translated: string[]): string {
+      return parts
+        .map((part) => {
+          if (typeof part === 'string') return part;
+          const text = translated[part.segment] ?? segments[part.segment];
+          const encoded = part.quote ? encodeAttribute(text, part.quote) : encodeText(text);
+          return part.leading + encoded + part.trailing;
+        })
+        .join('');
+    }
+  };
+}
+
+/**
+ * Swap protected elements for empty translate="no" placeholders, for providers
+ * that translate HTML natively. `restore` returns null if a placeholder was lost.
+ */
+export function protectElements(markup: string): { markup: string; restore(translated: string): string | null } {
+  const protectedChunks: string[] = [];
+  let output = '';
+  let region = '';
+
+  walkTokens(tokenizeMarkup(markup), (token, inRegion, regionEnd) => {
+    if (!inRegion) {
+      output += token.value;
+      return;
+    }
+
+    region += token.value;
+    if (regionEnd) {
+      protectedChunks.push(region);
+      output += `<span translate="no" class="notranslate" data-tr-ph="${protectedChunks.length - 1}"></span>`;
+      region = '';
+    }
+  });
+
+  // Unterminated region: keep it verbatim
+  if (region) {
+    protectedChunks.push(region);
+    output += `<span translate="no" class="notranslate" data-tr-ph="${protectedChunks.length - 1}"></span>`;
+  }
+
+  return {
+    markup: output,
+    restore(translated: string): string | null {
+      let restored = 0;
+      const result = translated.replace(
+        /<span[^>]*data-tr-ph="(\d+)"[^>]*>\s*<\/span>/g,
+        (placeholder, index: string) => {
+          const chunk = protectedChunks[parseInt(index, 10)];
+          if (chunk === undefined) return placeholder;
+          restored++;
+          return chunk;
+        }
+      );
+      return restored === protectedChunks.length ? result : null;
+    }
+  };
+}
@@ -0,0 +1,120 @@
+// utils/outboundUrl.ts
+import dns from 'node:dns';
+import net from 'node:net';
+
+/**
+ * IPv4 ranges that must not be reachable through user-supplied URLs:
+ * unspecified, private, CGNAT, loopback, link-local (cloud metadata),
+ * IETF protocol assignments, benchmarking, multicast and reserved
+ */
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not
+ * a public unicast address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return isBlockedIpv4(address);
+  if (family !== 6) return true;
+
+  const normalized = address.toLowerCase();
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses
+  const embedded = /^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/.exec(normalized);
+  if (embedded) return isBlockedIpv4(embedded[1]);
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) || // unique local fc00::/7
+    /^fe[89ab]/.test(normalized) || // link-local fe80::/10
+    /^ff/.test(normalized) || // multicast
+    normalized.startsWith('::ffff:') // mapped addresses in hex form
+  );
+}
+
+function isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.includes(hostname.toLowerCase());
+}
+
+/**
+ * Resolve a URL's host and throw unless it is an http(s) URL pointing at
+ * public addresses only. Hosts in `allowedHosts` skip the address check.
+ */
+export async function assertPublicHttpUrl(value: string, allowedHosts: string[] = []): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('Not a valid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http(s) URLs are allowed');
+  }
+  if (url.username || url.password) {
+    throw new Error('URLs with credentials are not allowed');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isAllowedHost(hostname, allowedHosts)) return url;
+
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname }]
+    : await dns.promises.lookup(hostname, { all: true }).catch(() => {
+        throw new Error(`Host "${hostname}" cannot be resolved`);
+      });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Host "${hostname}" resolves to a private or reserved address`);
+  }
+  return url;
+}
+
+/**
+ * DNS lookup for http(s) agents that refuses private addresses at connect time,
+ * so a host cannot pass validation and then re-resolve to an internal address
+ */
+export function createPublicLookup(allowedHosts: string[] = []): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '');
+
+      if (!isAllowedHost(hostname, allowedHosts) && addresses.some(({ address }) => isPrivateAddress(address))) {
+        const blocked: NodeJS.ErrnoException = new Error(
+          `Host "${hostname}" resolves to a private or reserved address`
+        );
+        blocked.code = 'EADDRNOTAVAIL';
+        return callback(blocked, '');
+      }
+
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
@@ -0,0 +1,31 @@
+export interface PlaceholderText {
+  text: string;
+  /** Put the original spans back into the translated text */
+  restore(translated: string): string;
+}
+
+// Same shape as glossary tokens (`__G0__`) with a distinct letter, so both can coexist
+const token = (index: number) => `__P${index}__`;
+const TOKEN_PATTERN = /_\s?_\s?P\s?(\d+)\s?_\s?_/gi;
+
+/**
+ * Replace every match of `pattern` (placeholders, format specifiers, ...) with an
+ * opaque token that machine translation leaves alone
+ */
+export function protectPatterns(text: string, pattern: RegExp): PlaceholderText {
+  const spans: string[] = [];
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+
+  const protectedText = text.replace(new RegExp(pattern.source, flags), (match) => {
+    spans.push(match);
+    return token(spans.length - 1);
+  });
+
+  return {
+    text: protectedText,
+    restore(translated: string): string {
+      if (spans.length === 0) return translated;
+      return translated.replace(TOKEN_PATTERN, (match, index: string) => spans[parseInt(index, 10)] ?? match);
+    }
+  };
+}
@@ -0,0 +1,79 @@
+// utils/requestContext.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import crypto from 'node:crypto';
+
+/**
+ * Correlation and trace ids of the request being handled, available anywhere
+ * down its async call chain via getRequestContext()
+ */
+export interface RequestContext {
+  /** The caller's X-Request-Id, else the trace id */
+  requestId: string;
+  /** W3C trace id (32 hex characters) */
+  traceId: string;
+  /** Active span (16 hex characters); outbound calls name it as their parent */
+  spanId: string;
+  /** W3C trace flags ("01" when sampled) */
+  traceFlags: string;
+}
+
+export interface Traceparent {
+  traceId: string;
+  parentSpanId: string;
+  traceFlags: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function newTraceId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+export function newSpanId(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+/**
+ * Parse a W3C traceparent header ("00-<trace id>-<parent id>-<flags>"); invalid
+ * or all-zero ids yield null
+ */
+export function parseTraceparent(header: string | undefined): Traceparent | null {
+  const match = TRACEPARENT_PATTERN.exec((header || '').trim().toLowerCase());
+  if (!match) return null;
+
+  const [, version, traceId, parentSpanId, traceFlags] = match;
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) return null;
+
+  return { traceId, parentSpanId, traceFlags };
+}
+
+/**
+ * A caller-supplied X-Request-Id, if it is safe to log and echo back
+ */
+export function parseRequestId(header: string | undefined): string | null {
+  const value = (header || '').trim();
+  return REQUEST_ID_PATTERN.test(value) ? value : null;
+}
+
+export function formatTraceparent(context: RequestContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags}`;
+}
+
+/**
+ * Headers that carry the current context to an upstream service (none outside a request)
+ */
+export function outboundHeaders(): Record<string, string> {
+  const context = getRequestContext();
+  return context ? { 'X-Request-Id': context.requestId, traceparent: formatTraceparent(context) } : {};
+}
@@ -0,0 +1,216 @@
+import net from 'node:net';
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+export interface RespClientOptions {
+  /** Time to wait for a reply before the connection is dropped (0 waits forever) */
+  commandTimeoutMs?: number;
+}
+
+interface ParsedReply {
+  value: RespValue | RespError;
+  offset: number;
+}
+
+/**
+ * Parse one RESP reply starting at offset; returns null if the buffer is incomplete
+ */
+function parseReply(buffer: Buffer, offset: number): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: parseInt(line, 10), offset: next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        if (item.value instanceof RespError) throw item.value;
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte "${type}"`);
+  }
+}
+
+function encodeCommand(args: (string | number)[]): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return out;
+}
+
+/**
+ * Tiny client for Redis-protocol servers (Redis, Valkey, KeyDB, ...).
+ * Connects lazily and reconnects on the next command after a disconnect.
+ * Replies are matched to commands by order, so a timeout or an unparsable
+ * reply drops the connection and fails every pending command.
+ */
+export class RespClient {
+  private host: string;
+  private port: number;
+  private password?: string;
+  private username?: string;
+  private db?: number;
+  private socket?: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private commandTimeoutMs: number;
+
+  constructor(url: string, options: RespClientOptions = {}) {
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 5000;
+    const parsed = new URL(url);
+    this.host = parsed.hostname || '127.0.0.1';
+    this.port = parseInt(parsed.port || '6379', 10);
+    this.username = parsed.username ? decodeURIComponent(parsed.username) : undefined;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+    const db = parsed.pathname.replace('/', '');
+    this.db = db ? parseInt(db, 10) : undefined;
+  }
+
+  /**
+   * Send a command and resolve with its reply
+   */
+  command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = this.ensureConnected();
+    return this.write(socket, args);
+  }
+
+  /**
+   * Close the connection; pending commands are rejected
+   */
+  close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    this.failPending(new Error('Redis connection closed'));
+    socket?.end();
+  }
+
+  private ensureConnected(): net.Socket {
+    if (this.socket && !this.socket.destroyed) {
+      return this.socket;
+    }
+
+    const socket = net.createConnection({ host: this.host, port: this.port });
+    socket.setNoDelay(true);
+    socket.on('data', (chunk) => this.onData(chunk));
+    // A connection dropped by resetConnection() has no pending commands left
+    socket.on('error', (error) => {
+      if (this.socket === socket) this.resetConnection(socket, error);
+    });
+    socket.on('close', () => {
+      if (this.socket === socket) this.resetConnection(socket, new Error('Redis connection closed'));
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // Queued ahead of any caller command, so ordering is preserved
+    if (this.password) {
+      const auth = this.username ? ['AUTH', this.username, this.password] : ['AUTH', this.password];
+      this.write(socket, auth).catch(() => socket.destroy());
+    }
+    if (this.db !== undefined) {
+      this.write(socket, ['SELECT', this.db]).catch(() => socket.destroy());
+    }
+
+    return socket;
+  }
+
+  private write(socket: net.Socket, args: (string | number)[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const waiter: PendingReply = { resolve, reject };
+      if (this.commandTimeoutMs > 0) {
+        waiter.timer = setTimeout(
+          () => this.resetConnection(socket, new RespError(`Redis command timed out after ${this.commandTimeoutMs}ms`)),
+          this.commandTimeoutMs
+        );
+      }
+      this.pending.push(waiter);
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([new Uint8Array(this.buffer), new Uint8Array(chunk)]);
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply: ParsedReply | null;
+      try {
+        reply = parseReply(this.buffer, offset);
+      } catch (error) {
+        // The stream cannot be resynchronised: later replies would reach the wrong callers
+        this.resetConnection(this.socket, error as Error);
+        return;
+      }
+      if (!reply) break;
+
+      offset = reply.offset;
+      const waiter = this.pending.shift();
+      clearTimeout(waiter?.timer);
+      if (reply.value instanceof RespError) {
+        waiter?.reject(reply.value);
+      } else {
+        waiter?.resolve(reply.value);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private resetConnection(socket: net.Socket | undefined, error: Error): void {
+    if (this.socket === socket) {
+      this.socket = undefined;
+      this.buffer = Buffer.alloc(0);
+    }
+    this.failPending(error);
+    socket?.destroy();
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const waiter of pending) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+  }
+}
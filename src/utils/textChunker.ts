@@ -0,0 +1,86 @@
+export interface TextChunk {
+  /** Whitespace preceding the chunk, copied to the output as-is */
+  leading: string;
+  /** Text to translate */
+  text: string;
+  /** Whitespace following the chunk, copied to the output as-is */
+  trailing: string;
+}
+
+const sentenceSegmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+
+/**
+ * Split a sentence that alone exceeds the limit, preferring word boundaries
+ */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const lastSpace = window.search(/\s\S*$/);
+    const cut = lastSpace > maxChars / 2 ? lastSpace + 1 : maxChars;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+function splitEdges(value: string): TextChunk {
+  const match = value.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  return { leading: match?.[1] || '', text: match?.[2] || '', trailing: match?.[3] || '' };
+}
+
+/**
+ * Split a document into chunks of at most `maxChars`, along paragraph and then
+ * sentence boundaries. Joining leading + translated text + trailing for every
+ * chunk, in order, reproduces the document layout.
+ */
+export function chunkText(document: string, maxChars: number): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  // Paragraph separators (blank lines) stay outside chunks
+  const parts = document.split(/(\n\s*\n)/);
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (i % 2 === 1 || part.trim().length === 0) {
+      // Separator or blank part: attach to the previous chunk, or lead the next one
+      if (chunks.length > 0) {
+        chunks[chunks.length - 1].trailing += part;
+      } else {
+        chunks.push({ leading: part, text: '', trailing: '' });
+      }
+      continue;
+    }
+
+    // Pack sentences greedily up to the limit
+    let current = '';
+    const flush = () => {
+      if (!current) return;
+      const chunk = splitEdges(current);
+      const previous = chunks[chunks.length - 1];
+      if (previous && previous.text === '') {
+        // Fold a leading-whitespace-only placeholder into this chunk
+        chunk.leading = previous.leading + previous.trailing + chunk.leading;
+        chunks.pop();
+      }
+      chunks.push(chunk);
+      current = '';
+    };
+
+    for (const { segment } of sentenceSegmenter.segment(part)) {
+      for (const sentence of segment.length > maxChars ? splitLongSentence(segment, maxChars) : [segment]) {
+        if (current.length + sentence.length > maxChars) {
+          flush();
+        }
+        current += sentence;
+      }
+    }
+    flush();
+  }
+
+  return chunks;
+}
@@ -1,12 +1,15 @@
-const crypto = require('crypto');
-const { createActivationKey } = require('../src/utils/hmac');
-
+const crypto = require('node:crypto');
+const { createActivationKey, createActivationKeyV2, parseKeySecrets } = require('../src/utils/hmac');
 
 interface KeyConfig {
   identifier: string;
   plan: string;
   daysValid: number;
   secret: string;
+  /** Key id for v2 keys; v1 keys are generated without one */
+  kid?: string;
+  seats?: number;
+  features?: string[];
 }
 
 /**
@@ -14,26 +17,38 @@ interface KeyConfig {
  */
 function generateDemoKey(config: KeyConfig): string {
   const now = new Date();
-  const expiry = new Date(now.getTime() + (config.daysValid * 24 * 60 * 60 * 1000));
+  const expiry = new Date(now.getTime() + config.daysValid * 24 * 60 * 60 * 1000);
   const nonce = crypto.randomBytes(8).toString('hex');
-  
-  return createActivationKey(
-    config.identifier,
-    expiry.toISOString(),
-    config.plan,
-    nonce,
-    config.secret
-  );
+
+  if (config.kid) {
+    const claims = config.seats || config.features ? { seats: config.seats, features: config.features } : undefined;
+    return createActivationKeyV2(
+      { identifier: config.identifier, expiry: expiry.toISOString(), plan: config.plan, nonce, claims },
+      config.kid,
+      config.secret
+    );
+  }
+
+  return createActivationKey(config.identifier, expiry.toISOString(), config.plan, nonce, config.secret);
 }
 
 /**
  * Main function to generate and display keys
  */
 function main(): void {
-  const secret = process.env.ACT_KEY_SECRET || 'demo_secret_change_me';
-  
+  // v2 keys are signed with ACT_KEY_CURRENT_KID (or the first ACT_KEY_SECRETS entry);
+  // without ACT_KEY_SECRETS, legacy v1 keys are signed with ACT_KEY_SECRET
+  const keySecrets: Record<string, string> = parseKeySecrets(process.env.ACT_KEY_SECRETS);
+  const kid: string | undefined = process.env.ACT_KEY_CURRENT_KID || Object.keys(keySecrets)[0];
+  const secret = (kid && keySecrets[kid]) || process.env.ACT_KEY_SECRET || 'demo_secret_change_me';
+
   if (secret === 'replace_me' || secret === 'demo_secret_change_me') {
-    console.warn('⚠️  WARNING: Using default secret. Set ACT_KEY_SECRET environment variable for production!');
+    console.warn('⚠️  WARNING: Using default secret. Set ACT_KEY_SECRETS environment variable for production!');
+  }
+  if (!kid) {
+    console.warn('⚠️  WARNING: ACT_KEY_SECRETS is not set, generating legacy v1 keys.');
+  } else if (!keySecrets[kid]) {
+    throw new Error(`ACT_KEY_CURRENT_KID "${kid}" is not listed in ACT_KEY_SECRETS`);
   }
 
   console.log('🔑 Traducteur Rapide - Activation Key Generator');
@@ -45,39 +60,45 @@ function main(): void {
       identifier: 'demo-user-basic',
       plan: 'basic',
       daysValid: 30,
-      secret
+      secret,
+      kid
     },
     {
       identifier: 'demo-user-premium',
       plan: 'premium',
       daysValid: 90,
-      secret
+      secret,
+      kid
     },
     {
       identifier: 'demo-user-enterprise',
       plan: 'enterprise',
       daysValid: 365,
-      secret
+      secret,
+      kid,
+      seats: 10
     }
   ];
 
   demoConfigs.forEach((config, index) => {
     const key = generateDemoKey(config);
-    const expiry = new Date(Date.now() + (config.daysValid * 24 * 60 * 60 * 1000));
-    
+    const expiry = new Date(Date.now() + config.daysValid * 24 * 60 * 60 * 1000);
+
     console.log(`Demo Key ${index + 1}:`);
     console.log(`  Identifier: ${config.identifier}`);
     console.log(`  Plan: ${config.plan}`);
+    if (config.seats) console.log(`  Seats: ${config.seats}`);
+    console.log(`  Format: ${config.kid ? `v2 (kid ${config.kid})` : 'v1'}`);
     console.log(`  Valid until: ${expiry.toISOString()}`);
     console.log(`  Key: ${key}`);
     console.log();
-    
+
     // Show curl command for testing
     console.log(`  Test with curl:`);
-    console.log(`  curl -X POST http://localhost:4000/api/activate \\`);
+    console.log(`  curl -X POST http://localhost:4000/api/v1/activate \\`);
     console.log(`    -H "Content-Type: application/json" \\`);
     console.log(`    -d '{"key":"${key}"}'`);
-    console.log('\n' + '='.repeat(80) + '\n');
+    console.log(`\n${'='.repeat(80)}\n`);
   });
 
   // Custom key generation
@@ -85,18 +106,25 @@ function main(): void {
     const identifier = process.argv[2] || 'custom-user';
     const plan = process.argv[3] || 'basic';
     const days = parseInt(process.argv[4]) || 30;
-    
+    const seats = parseInt(process.argv[5]) || undefined;
+    const features = process.argv[6] ? process.argv[6].split(',') : undefined;
+
     const customKey = generateDemoKey({
       identifier,
       plan,
       daysValid: days,
-      secret
+      secret,
+      kid,
+      seats,
+      features
     });
-    
+
     console.log('Custom Key:');
     console.log(`  Identifier: ${identifier}`);
     console.log(`  Plan: ${plan}`);
     console.log(`  Days Valid: ${days}`);
+    if (seats) console.log(`  Seats: ${seats}`);
+    if (features) console.log(`  Features: ${features.join(', ')}`);
     console.log(`  Key: ${customKey}`);
   }
 }
@@ -106,4 +134,4 @@ if (require.main === module) {
   main();
 }
 
-export { generateDemoKey };
\ No newline at end of file
+export { generateDemoKey };
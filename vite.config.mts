@@ -1,13 +1,15 @@
-import tsconfigPaths from "vite-tsconfig-paths";
-import { defineConfig } from "vitest/config";
+import tsconfigPaths from 'vite-tsconfig-paths';
+import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
-	test: {
-		coverage: {
-			exclude: ["**/node_modules/**", "**/index.ts, ", "vite.config.mts"],
-		},
-		globals: true,
-		restoreMocks: true,
-	},
-	plugins: [tsconfigPaths()],
+  test: {
+    coverage: {
+      exclude: ['**/node_modules/**', '**/index.ts, ', 'vite.config.mts']
+    },
+    // Keep test output readable; logger behaviour is tested with explicit levels
+    env: { LOG_LEVEL: 'silent' },
+    globals: true,
+    restoreMocks: true
+  },
+  plugins: [tsconfigPaths()]
 });